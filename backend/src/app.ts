@@ -0,0 +1,93 @@
+import express from "express";
+import { config } from "./utils/config";
+import metadataRouter from "./routes/metadata";
+import imageRouter from "./routes/image";
+import registryRouter from "./routes/registry";
+import statsRouter from "./routes/stats";
+import reputationRouter from "./routes/reputation";
+import validationRouter from "./routes/validation";
+import snapshotsRouter from "./routes/snapshots";
+import a2aRouter from "./routes/a2a";
+import mcpRouter from "./routes/mcp";
+import jobsRouter from "./routes/jobs";
+import adminRouter from "./routes/admin";
+import metricsRouter from "./routes/metrics";
+import wellKnownRouter from "./routes/wellKnown";
+import { requestMetrics } from "./middleware/metrics";
+import { getDefaultAgent, listAgents } from "./services/agentCatalog";
+import { getLiveness } from "./services/livenessService";
+
+/**
+ * Where the app runs. "node" is a long-running server that also runs
+ * the background jobs itself; "serverless" relies on an external
+ * scheduler hitting /erc8004/jobs/*.
+ */
+export type DeploymentMode = "node" | "serverless";
+
+/**
+ * Builds the Express app with every route. Both deployment adapters
+ * (src/index.ts and api/index.ts) serve exactly this app.
+ */
+export function createApp(mode: DeploymentMode): express.Express {
+  const app = express();
+  // Routes whose state is kept per process check this (admin sign-in)
+  app.locals.mode = mode;
+  if (config.trustProxy) {
+    app.set("trust proxy", parseTrustProxy(config.trustProxy));
+  }
+  app.use(requestMetrics);
+  app.use(express.json());
+
+  // ── Health check ─────────────────────────────────────────────
+  app.get("/erc8004/health", (req, res) => {
+    res.json({
+      status: "ok",
+      mode,
+      agentId: getDefaultAgent().agentId,
+      agents: listAgents().map((agent) => agent.agentId),
+      liveness: Object.fromEntries(
+        listAgents().map((agent) => [agent.agentId, getLiveness(agent.agentId)])
+      ),
+      registry: config.registryAddress,
+      chain: config.chainName,
+      chainId: config.chainId,
+    });
+  });
+
+  // ── ERC-8004 endpoints ───────────────────────────────────────
+  app.use("/erc8004", metadataRouter);
+  app.use("/erc8004", imageRouter);
+  app.use("/erc8004", registryRouter);
+  app.use("/erc8004", statsRouter);
+  app.use("/erc8004", reputationRouter);
+  app.use("/erc8004", validationRouter);
+  app.use("/erc8004", snapshotsRouter);
+
+  // ── Agent services (A2A, MCP) ────────────────────────────────
+  app.use("/erc8004", a2aRouter);
+  app.use("/erc8004", mcpRouter);
+
+  // ── Jobs (scheduler-triggered, idempotent) ───────────────────
+  app.use("/erc8004", jobsRouter);
+
+  // ── Admin (wallet sessions or API key, by role) ──────────────
+  app.use("/erc8004", adminRouter);
+
+  // ── Prometheus metrics ───────────────────────────────────────
+  app.use(metricsRouter);
+
+  // ── Endpoint domain verification ─────────────────────────────
+  app.use(wellKnownRouter);
+
+  return app;
+}
+
+/**
+ * TRUST_PROXY as Express expects it: a hop count, a boolean, or a list
+ * of trusted addresses and subnets.
+ */
+function parseTrustProxy(value: string): number | boolean | string {
+  if (/^\d+$/.test(value)) return Number(value);
+  if (value === "true" || value === "false") return value === "true";
+  return value;
+}
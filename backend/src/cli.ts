@@ -0,0 +1,465 @@
+import { ethers } from "ethers";
+import { config } from "./utils/config";
+import { REGISTRY_ABI } from "./utils/registryAbi";
+import {
+  decodeMetadataValue,
+  encodeMetadataValue,
+  METADATA_ENCODINGS,
+  MetadataEncoding,
+} from "./utils/metadataValue";
+import { getAgent } from "./services/agentCatalog";
+import { validateAgent, validateAgentUri } from "./services/conformanceService";
+
+// Operator CLI for the identity registry. Uses the server's settings
+// (RPC_URL, REGISTRY_ADDRESS, UPDATER_PRIVATE_KEY) from the environment
+// or .env; run `npm run cli -- help` for the commands.
+
+const USAGE = `Usage: npm run cli -- <command> [args] [options]
+
+Commands:
+  register <tokenURI>                     Register a new agent
+  set-uri <agentId> <uri>                 Point an agent's tokenURI at <uri>
+  set-metadata <agentId> <key> <value>    Store a metadata value (--as)
+  get-metadata <agentId> <key>            Read and decode a metadata value
+  inspect <agentId>                       Owner, tokenURI and metadata
+  next-id                                 The agent ID register assigns next
+  validate <agentId|uri>                  Check a catalog agent's registration,
+                                          or the one at an agent URI
+
+Options:
+  --json              Print JSON instead of text
+  --dry-run           Simulate and print the transaction without sending
+  --as <encoding>     set-metadata value encoding: text (default), hex,
+                      address or uint
+  --keys <a,b>        inspect: read these metadata keys instead of
+                      scanning MetadataSet events
+  --from-block <n>    inspect: first block to scan (INDEXER_START_BLOCK)
+  --no-image          validate: skip fetching the image
+
+Writes are signed with UPDATER_PRIVATE_KEY and must come from the
+agent's owner or an approved operator (register: any account).`;
+
+interface CliOptions {
+  json: boolean;
+  dryRun: boolean;
+  encoding: MetadataEncoding;
+  keys: string[] | null;
+  fromBlock: number | null; // Unset: INDEXER_START_BLOCK was not set either
+  checkImage: boolean;
+}
+
+type CommandResult = Record<string, unknown>;
+
+const COMMANDS: Record<
+  string,
+  {
+    args: string[];
+    run(args: string[], options: CliOptions): Promise<CommandResult>;
+  }
+> = {
+  register: {
+    args: ["tokenURI"],
+    run: ([tokenURI], options) =>
+      sendTransaction("register", [requireUri(tokenURI)], options),
+  },
+  "set-uri": {
+    args: ["agentId", "uri"],
+    run: ([agentId, uri], options) =>
+      sendTransaction(
+        "setAgentURI",
+        [parseAgentId(agentId), requireUri(uri)],
+        options
+      ),
+  },
+  "set-metadata": {
+    args: ["agentId", "key", "value"],
+    run: ([agentId, key, value], options) =>
+      sendTransaction(
+        "setMetadata",
+        [
+          parseAgentId(agentId),
+          key,
+          encodeMetadataValue(value, options.encoding),
+        ],
+        options
+      ),
+  },
+  "get-metadata": {
+    args: ["agentId", "key"],
+    async run([agentId, key]) {
+      const { registry } = connect(false);
+      const value: string = await registry.getMetadata(
+        parseAgentId(agentId),
+        key
+      );
+      return { agentId: Number(agentId), key, ...describeValue(value) };
+    },
+  },
+  inspect: {
+    args: ["agentId"],
+    run: ([agentId], options) => inspect(parseAgentId(agentId), options),
+  },
+  "next-id": {
+    args: [],
+    async run() {
+      const { registry } = connect(false);
+      const nextId: bigint = await registry.nextAgentId();
+      return { nextAgentId: nextId.toString() };
+    },
+  },
+  validate: {
+    args: ["agentId|uri"],
+    async run([target], options) {
+      const validateOptions = { checkImage: options.checkImage };
+      let report;
+      if (/^\d+$/.test(target)) {
+        const agent = getAgent(Number(target));
+        if (!agent) throw new Error(`Agent ${target} is not in the catalog`);
+        report = await validateAgent(agent, validateOptions);
+      } else {
+        report = await validateAgentUri(target, validateOptions);
+      }
+
+      if (!report.valid) process.exitCode = 1;
+      if (options.json) return { ...report };
+
+      // One numbered line per finding, errors first
+      const issues = [...report.errors, ...report.warnings];
+      return {
+        source: report.source,
+        valid: report.valid,
+        issues: issues.length
+          ? Object.fromEntries(
+              issues.map((issue, i) => [
+                i + 1,
+                `${issue.severity} ${issue.path || "(document)"}: ${
+                  issue.message
+                }`,
+              ])
+            )
+          : null,
+      };
+    },
+  },
+};
+
+async function main(argv: string[]): Promise<void> {
+  let options: CliOptions | null = null;
+  try {
+    const parsed = parseArgs(argv);
+    options = parsed.options;
+
+    if (!parsed.command || parsed.command === "help") {
+      console.log(USAGE);
+      return;
+    }
+    const command = COMMANDS[parsed.command];
+    if (!command) {
+      throw new Error(`Unknown command "${parsed.command}"\n\n${USAGE}`);
+    }
+    if (parsed.args.length !== command.args.length) {
+      throw new Error(
+        `Usage: ${parsed.command} ${command.args
+          .map((arg) => `<${arg}>`)
+          .join(" ")}`
+      );
+    }
+
+    print(await command.run(parsed.args, options), options.json);
+  } catch (error) {
+    const err = error as Error & {
+      shortMessage?: string;
+      revert?: { name: string; args: unknown[] } | null;
+    };
+    // Custom errors (e.g. ERC721NonexistentToken) are decoded separately
+    const message =
+      err.revert && err.revert.name !== "Error"
+        ? `execution reverted: ${err.revert.name}(${[...err.revert.args].join(
+            ", "
+          )})`
+        : err.shortMessage ?? err.message;
+    if (options?.json) {
+      console.log(JSON.stringify({ error: message }, null, 2));
+    } else {
+      console.error(`Error: ${message}`);
+    }
+    process.exitCode = 1;
+  }
+}
+
+function parseArgs(argv: string[]): {
+  command: string | undefined;
+  args: string[];
+  options: CliOptions;
+} {
+  const options: CliOptions = {
+    json: false,
+    dryRun: false,
+    encoding: "text",
+    keys: null,
+    fromBlock: config.indexerStartBlock,
+    checkImage: true,
+  };
+  const positional: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new Error(`${arg} needs a value`);
+      return argv[++i];
+    };
+
+    switch (arg) {
+      case "--json":
+        options.json = true;
+        break;
+      case "--dry-run":
+        options.dryRun = true;
+        break;
+      case "--as": {
+        const encoding = value() as MetadataEncoding;
+        if (!METADATA_ENCODINGS.includes(encoding)) {
+          throw new Error(
+            `--as must be one of: ${METADATA_ENCODINGS.join(", ")}`
+          );
+        }
+        options.encoding = encoding;
+        break;
+      }
+      case "--keys":
+        options.keys = value()
+          .split(",")
+          .map((key) => key.trim())
+          .filter(Boolean);
+        break;
+      case "--from-block":
+        options.fromBlock = Number(value());
+        if (!Number.isInteger(options.fromBlock) || options.fromBlock < 0) {
+          throw new Error("--from-block must be a block number");
+        }
+        break;
+      case "--no-image":
+        options.checkImage = false;
+        break;
+      case "-h":
+      case "--help":
+        positional.unshift("help");
+        break;
+      default:
+        if (arg.startsWith("--")) throw new Error(`Unknown option ${arg}`);
+        positional.push(arg);
+    }
+  }
+
+  const [command, ...args] = positional;
+  return { command, args, options };
+}
+
+/**
+ * The registry contract, connected to the updater wallet when `signer`
+ * is set. Throws when REGISTRY_ADDRESS (or the key) is missing.
+ */
+function connect(signer: boolean): {
+  provider: ethers.JsonRpcProvider;
+  registry: ethers.Contract;
+  wallet: ethers.Wallet | null;
+} {
+  if (!config.registryAddress) throw new Error("REGISTRY_ADDRESS is not set");
+  if (signer && !config.updaterPrivateKey) {
+    throw new Error("UPDATER_PRIVATE_KEY is not set");
+  }
+
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const wallet = signer
+    ? new ethers.Wallet(config.updaterPrivateKey, provider)
+    : null;
+  const registry = new ethers.Contract(
+    config.registryAddress,
+    REGISTRY_ABI,
+    wallet ?? provider
+  );
+  return { provider, registry, wallet };
+}
+
+/**
+ * Simulates a registry write from the updater wallet, then sends it and
+ * waits for the receipt, unless --dry-run. A call that would revert
+ * (not the owner, empty URI, ...) fails before anything is sent.
+ */
+async function sendTransaction(
+  method: "register" | "setAgentURI" | "setMetadata",
+  args: unknown[],
+  options: CliOptions
+): Promise<CommandResult> {
+  const { registry, wallet } = connect(true);
+  const fn = registry.getFunction(method);
+
+  const returned = await fn.staticCall(...args);
+  const gasEstimate = await fn.estimateGas(...args);
+  const request = await fn.populateTransaction(...args);
+  const agentId = method === "register" ? returned.toString() : String(args[0]);
+
+  if (options.dryRun) {
+    return {
+      dryRun: true,
+      method,
+      agentId,
+      from: wallet!.address,
+      to: request.to,
+      data: request.data,
+      gasEstimate: gasEstimate.toString(),
+    };
+  }
+
+  const tx: ethers.ContractTransactionResponse = await fn.send(...args);
+  if (!options.json) console.error(`Sent ${tx.hash}, waiting for receipt...`);
+  const receipt = await tx.wait();
+  if (!receipt || receipt.status !== 1) {
+    throw new Error(`Transaction ${tx.hash} reverted`);
+  }
+
+  // The registered ID from the event, in case another register landed first
+  const registered = receipt.logs
+    .map((log) => registry.interface.parseLog(log))
+    .find((event) => event?.name === "Registered");
+
+  return {
+    method,
+    agentId: registered ? registered.args.agentId.toString() : agentId,
+    from: wallet!.address,
+    txHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed.toString(),
+  };
+}
+
+/**
+ * An agent's owner, approval, tokenURI and metadata. Metadata keys come
+ * from --keys, or from the MetadataSet events since --from-block (keys
+ * are only indexed as hashes, so they are read from each transaction's
+ * setMetadata call; keys set through other contracts show as hashes).
+ */
+async function inspect(
+  agentId: number,
+  options: CliOptions
+): Promise<CommandResult> {
+  const { provider, registry } = connect(false);
+  const [owner, approved, tokenURI] = await Promise.all([
+    registry.ownerOf(agentId),
+    registry.getApproved(agentId),
+    registry.tokenURI(agentId),
+  ]);
+
+  if (!options.keys && options.fromBlock === null) {
+    throw new Error(
+      "Pass --from-block or --keys (INDEXER_START_BLOCK is unset)"
+    );
+  }
+  const keys = options.keys
+    ? { found: options.keys, unrecovered: [] }
+    : await findMetadataKeys(provider, registry, agentId, options.fromBlock!);
+
+  const metadata: Record<string, unknown> = {};
+  for (const key of keys.found) {
+    metadata[key] = describeValue(await registry.getMetadata(agentId, key));
+  }
+
+  return {
+    agentId,
+    registry: `eip155:${config.chainId}:${config.registryAddress}`,
+    owner,
+    approved: approved === ethers.ZeroAddress ? null : approved,
+    tokenURI,
+    metadata,
+    ...(keys.unrecovered.length > 0
+      ? { unrecoveredKeyHashes: keys.unrecovered }
+      : {}),
+  };
+}
+
+async function findMetadataKeys(
+  provider: ethers.JsonRpcProvider,
+  registry: ethers.Contract,
+  agentId: number,
+  fromBlock: number
+): Promise<{ found: string[]; unrecovered: string[] }> {
+  const head = await provider.getBlockNumber();
+  const filter = registry.filters.MetadataSet(agentId);
+  const found = new Set<string>();
+  const unrecovered = new Set<string>();
+
+  for (let start = fromBlock; start <= head; start += config.indexerBatchSize) {
+    const end = Math.min(start + config.indexerBatchSize - 1, head);
+    const events = await registry.queryFilter(filter, start, end);
+
+    for (const event of events) {
+      const keyHash = event.topics[2];
+      const tx = await provider.getTransaction(event.transactionHash);
+      let key: string | null = null;
+      try {
+        const call = tx && registry.interface.parseTransaction(tx);
+        if (
+          call?.name === "setMetadata" &&
+          ethers.id(call.args.key) === keyHash
+        ) {
+          key = call.args.key;
+        }
+      } catch {
+        // Not a direct setMetadata call
+      }
+
+      if (key !== null) found.add(key);
+      else unrecovered.add(keyHash);
+    }
+  }
+
+  return { found: [...found], unrecovered: [...unrecovered] };
+}
+
+function describeValue(value: string) {
+  if (ethers.dataLength(value) === 0)
+    return { hex: value, as: null, value: null };
+  return decodeMetadataValue(value);
+}
+
+function parseAgentId(value: string): number {
+  const agentId = Number(value);
+  if (!Number.isInteger(agentId) || agentId < 0) {
+    throw new Error(`Invalid agent ID: ${value}`);
+  }
+  return agentId;
+}
+
+// The registry reverts on empty URIs; fail before simulating
+function requireUri(uri: string): string {
+  if (!uri) throw new Error("URI must not be empty");
+  return uri;
+}
+
+function print(result: CommandResult, json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  for (const [key, value] of Object.entries(result)) {
+    if (value !== null && typeof value === "object") {
+      console.log(`${key}:`);
+      for (const [subkey, subvalue] of Object.entries(value)) {
+        console.log(`  ${subkey}: ${formatValue(subvalue)}`);
+      }
+    } else {
+      console.log(`${key}: ${formatValue(value)}`);
+    }
+  }
+}
+
+function formatValue(value: unknown): string {
+  if (value !== null && typeof value === "object" && "value" in value) {
+    const { as, value: decoded, hex } = value as Record<string, unknown>;
+    return decoded === null ? "(not set)" : `${decoded} (${as}, ${hex})`;
+  }
+  return value === null ? "-" : String(value);
+}
+
+main(process.argv.slice(2));
@@ -1,68 +1,48 @@
-import express from "express";
 import { config } from "./utils/config";
-import metadataRouter from "./routes/metadata";
-import imageRouter from "./routes/image";
-import { initUpdater, triggerUpdate } from "./services/updaterService";
+import { createApp } from "./app";
+import { initUpdater } from "./services/updaterService";
+import { listAgents } from "./services/agentCatalog";
+import { initIndexer } from "./services/registryIndexer";
+import { initStatsPolling } from "./services/statsService";
+import { runStartupValidation } from "./services/conformanceService";
 
-const app = express();
-
-// ── Health check ─────────────────────────────────────────────
-app.get("/erc8004/health", (req, res) => {
-  res.json({
-    status: "ok",
-    agentId: config.agentId,
-    registry: config.registryAddress,
-    chain: config.chainName,
-    chainId: config.chainId,
-  });
-});
-
-// ── ERC-8004 endpoints ───────────────────────────────────────
-app.use("/erc8004", metadataRouter);
-app.use("/erc8004", imageRouter);
-
-// ── Admin Auth Middleware ────────────────────────────────────
-const adminAuth = (
-  req: express.Request,
-  res: express.Response,
-  next: express.NextFunction
-) => {
-  const apiKey = req.headers["x-api-key"] || req.query.apiKey;
-
-  if (!config.adminApiKey) {
-    // If no API key is configured, admin endpoints are disabled
-    res.status(503).json({ error: "Admin API not configured" });
-    return;
-  }
-
-  if (apiKey !== config.adminApiKey) {
-    res.status(401).json({ error: "Unauthorized" });
-    return;
-  }
-
-  next();
-};
-
-// ── Admin: force update (protected by API key) ───────────────
-app.post("/erc8004/admin/force-update", adminAuth, async (req, res) => {
-  try {
-    const result = await triggerUpdate();
-    res.json({ status: "ok", result });
-  } catch (error) {
-    res.status(500).json({ error: "Update failed" });
-  }
-});
+// Long-running Node deployment: serve the app and run background jobs
+const app = createApp("node");
 
 // ── Start server ─────────────────────────────────────────────
-app.listen(config.port, () => {
-  console.log(`\n  ERC-8004 Agent Server`);
-  console.log(`   Port: ${config.port}`);
-  console.log(`   Chain: ${config.chainName} (${config.chainId})`);
-  console.log(`   Metadata: ${config.baseUrl}/erc8004/metadata`);
-  console.log(`   Image: ${config.baseUrl}/erc8004/image.svg`);
-  console.log(`   Dune: ${config.duneUrl}`);
-  console.log();
-
-  // Initialize the auto-updater (periodic on-chain tokenURI refresh)
-  initUpdater();
-});
+// STARTUP_VALIDATION=fail checks the served registrations before
+// listening and exits on errors; "warn" checks them in the background
+if (config.startupValidation === "fail") {
+  runStartupValidation().then(start, (error) => {
+    console.error(`  ${(error as Error).message}`);
+    process.exit(1);
+  });
+} else {
+  start();
+  runStartupValidation().catch((error) =>
+    console.error("  Startup validation failed:", error)
+  );
+}
+
+function start(): void {
+  app.listen(config.port, () => {
+    console.log(`\n  ERC-8004 Agent Server`);
+    console.log(`   Port: ${config.port}`);
+    console.log(`   Profile: ${config.configProfile ?? "none"}`);
+    console.log(`   Chain: ${config.chainName} (${config.chainId})`);
+    console.log(`   Metadata: ${config.baseUrl}/erc8004/metadata`);
+    console.log(`   Image: ${config.baseUrl}/erc8004/image.svg`);
+    console.log(`   Agents: ${listAgents().length} in catalog`);
+    console.log(`   Dune: ${config.duneUrl}`);
+    console.log();
+
+    // Initialize the auto-updater (periodic on-chain tokenURI refresh)
+    initUpdater();
+
+    // Poll stats regularly so liveness and history have samples
+    initStatsPolling();
+
+    // Start indexing registry events into the local store
+    initIndexer();
+  });
+}
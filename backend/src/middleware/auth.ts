@@ -0,0 +1,137 @@
+import { Request, Response, NextFunction } from "express";
+import { config } from "../utils/config";
+import {
+  AdminRole,
+  AdminSession,
+  getSession,
+  hasRole,
+  isAdminConfigured,
+} from "../services/adminAuthService";
+import { recordAudit } from "../services/auditLog";
+import { createCounter } from "../utils/metrics";
+
+const authFailures = createCounter(
+  "erc8004_admin_auth_failures_total",
+  "Admin requests and sign-ins refused before a session was established"
+);
+
+/**
+ * Protects admin endpoints. Callers send a session token from a signed
+ * wallet challenge (see /erc8004/admin/auth) as a bearer token, or the
+ * ADMIN_API_KEY in the x-api-key header, and need at least `role`.
+ * Every authenticated request, reads included, is written to the audit
+ * log with its status. Unauthenticated ones are only counted: anyone
+ * can send them, and the log keeps every entry.
+ * Admin endpoints are disabled (503) when no admin is configured.
+ */
+export function adminAuth(role: AdminRole) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!isAdminConfigured()) {
+      res.status(503).json({ error: "Admin API not configured" });
+      return;
+    }
+
+    const session = authenticate(req);
+    if (!session) {
+      countAuthFailure("unauthenticated");
+      res.status(401).json({ error: "Unauthorized" });
+      return;
+    }
+    if (!hasRole(session.role, role)) {
+      auditRequest(req, session, 403);
+      res.status(403).json({ error: `Requires the ${role} role` });
+      return;
+    }
+
+    res.locals.admin = session;
+    res.on("finish", () => auditRequest(req, session, res.statusCode));
+    next();
+  };
+}
+
+/**
+ * Protects job endpoints. Accepts the scheduler's CRON_SECRET as a
+ * bearer token (the header Vercel Cron sends) or an admin with the
+ * transact role.
+ */
+export function jobAuth(req: Request, res: Response, next: NextFunction) {
+  const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, "");
+
+  if (config.cronSecret && bearer === config.cronSecret) {
+    next();
+    return;
+  }
+
+  adminAuth("transact")(req, res, next);
+}
+
+/**
+ * Protects /metrics with METRICS_TOKEN as a bearer token. Without a
+ * token the metrics are public.
+ */
+export function metricsAuth(req: Request, res: Response, next: NextFunction) {
+  const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, "");
+
+  if (config.metricsToken && bearer !== config.metricsToken) {
+    res.status(401).json({ error: "Unauthorized" });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * The caller's admin session. The API key is only read from the header;
+ * query parameters end up in access logs.
+ */
+function authenticate(req: Request): AdminSession | undefined {
+  const apiKey = req.headers["x-api-key"];
+  if (config.adminApiKey && apiKey === config.adminApiKey) {
+    return {
+      actor: "api-key",
+      role: "transact",
+      scheme: "api-key",
+      expiresAt: null,
+    };
+  }
+
+  const bearer = req.headers.authorization?.replace(/^Bearer\s+/i, "");
+  return bearer ? getSession(bearer) : undefined;
+}
+
+/**
+ * Counts a refused request or sign-in that is kept out of the audit log.
+ */
+export function countAuthFailure(
+  reason: "unauthenticated" | "bad-signature" | "no-role"
+): void {
+  authFailures.inc({ reason });
+}
+
+/**
+ * Writes one admin request to the audit log. A failing write is logged
+ * and does not fail the request.
+ */
+export function auditRequest(
+  req: Request,
+  session: AdminSession,
+  status: number
+): void {
+  try {
+    recordAudit({
+      actor: session.actor,
+      role: session.role,
+      action: `${req.method} ${req.originalUrl.split("?")[0]}`,
+      params: {
+        ...(req.query as Record<string, unknown>),
+        ...(typeof req.body === "object" && !Array.isArray(req.body)
+          ? req.body
+          : {}),
+      },
+      status,
+      ip: req.ip ?? null,
+    });
+  } catch (error) {
+    console.error("  Failed to write audit entry:", error);
+  }
+}
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from "express";
+import { createCounter, createHistogram } from "../utils/metrics";
+
+const requests = createCounter(
+  "erc8004_http_requests_total",
+  "HTTP requests by method, route and status code"
+);
+const requestDuration = createHistogram(
+  "erc8004_http_request_duration_seconds",
+  "HTTP request latency by method and route"
+);
+
+/**
+ * Counts and times every request. Routes are labelled by their pattern
+ * (/erc8004/agents/:agentId/metadata), so agent IDs and query strings
+ * do not create new series; requests no route matched share "unmatched".
+ */
+export function requestMetrics(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const start = process.hrtime.bigint();
+
+  res.on("finish", () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+    requests.inc({ method: req.method, route, status: res.statusCode });
+    requestDuration.observe(
+      { method: req.method, route },
+      Number(process.hrtime.bigint() - start) / 1e9
+    );
+  });
+
+  next();
+}
@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from "express";
+import { config } from "../utils/config";
+import { createCounter } from "../utils/metrics";
+
+// Requests per client IP in the current window
+const windows = new Map<string, { count: number; resetAt: number }>();
+
+// Expired windows are swept once the map grows past this
+const MAX_TRACKED_CLIENTS = 10_000;
+
+const limited = createCounter(
+  "erc8004_http_rate_limited_total",
+  "Requests refused with 429 by the per-IP rate limit"
+);
+
+/**
+ * Fixed-window rate limit per client IP: RATE_LIMIT_MAX requests per
+ * RATE_LIMIT_WINDOW_SECONDS, then 429 with Retry-After. Client IPs come
+ * from req.ip, so set TRUST_PROXY behind a proxy. Counters live in
+ * memory, per process.
+ */
+export function rateLimit(req: Request, res: Response, next: NextFunction) {
+  if (config.rateLimitMax <= 0) {
+    next();
+    return;
+  }
+
+  const now = Date.now();
+  const client = req.ip ?? "unknown";
+  let window = windows.get(client);
+  if (!window || window.resetAt <= now) {
+    if (windows.size >= MAX_TRACKED_CLIENTS) sweep(now);
+    window = { count: 0, resetAt: now + config.rateLimitWindowSeconds * 1000 };
+    windows.set(client, window);
+  }
+  window.count++;
+
+  const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+  res.setHeader("RateLimit-Limit", config.rateLimitMax);
+  res.setHeader(
+    "RateLimit-Remaining",
+    Math.max(config.rateLimitMax - window.count, 0)
+  );
+  res.setHeader("RateLimit-Reset", resetSeconds);
+
+  if (window.count > config.rateLimitMax) {
+    limited.inc();
+    res.setHeader("Retry-After", resetSeconds);
+    res.status(429).json({ error: "Too many requests" });
+    return;
+  }
+
+  next();
+}
+
+function sweep(now: number): void {
+  for (const [client, window] of windows) {
+    if (window.resetAt <= now) windows.delete(client);
+  }
+}
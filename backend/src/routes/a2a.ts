@@ -0,0 +1,84 @@
+import { Router, Request, Response } from "express";
+import { rateLimit } from "../middleware/rateLimit";
+import { getAgent, getDefaultAgent } from "../services/agentCatalog";
+import { buildAgentCard, handleA2aRequest } from "../services/a2aService";
+import { INVALID_REQUEST, isJsonRpcRequest, rpcError } from "../utils/jsonRpc";
+import { AgentProfile } from "../types";
+
+const router = Router();
+
+/**
+ * GET /erc8004/a2a/agent-card.json
+ *
+ * The default agent's A2A agent card: its skills (vault deposit info,
+ * stats queries, strategy description) and JSON-RPC endpoint.
+ */
+router.get("/a2a/agent-card.json", (req, res) => {
+  res.setHeader("Cache-Control", "public, max-age=300");
+  res.json(buildAgentCard(getDefaultAgent()));
+});
+
+/**
+ * GET /erc8004/agents/:agentId/a2a/agent-card.json
+ *
+ * Same as /a2a/agent-card.json, for any agent in the catalog.
+ */
+router.get("/agents/:agentId/a2a/agent-card.json", (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  res.setHeader("Cache-Control", "public, max-age=300");
+  res.json(buildAgentCard(agent));
+});
+
+/**
+ * POST /erc8004/a2a
+ *
+ * A2A JSON-RPC endpoint of the default agent. Answers `message/send`
+ * with one message (a text summary and the skill's data); tasks and
+ * streaming are not supported.
+ */
+router.post("/a2a", rateLimit, async (req, res) => {
+  await sendA2a(getDefaultAgent(), req, res);
+});
+
+/**
+ * POST /erc8004/agents/:agentId/a2a
+ *
+ * Same as /a2a, for any agent in the catalog.
+ */
+router.post("/agents/:agentId/a2a", rateLimit, async (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  await sendA2a(agent, req, res);
+});
+
+async function sendA2a(
+  agent: AgentProfile,
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!isJsonRpcRequest(req.body)) {
+    res
+      .status(400)
+      .json(rpcError(null, INVALID_REQUEST, "Expected one JSON-RPC request"));
+    return;
+  }
+
+  const response = await handleA2aRequest(agent, req.body);
+  if (!response) {
+    res.status(202).end();
+    return;
+  }
+
+  res.json(response);
+}
+
+export default router;
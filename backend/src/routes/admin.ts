@@ -0,0 +1,395 @@
+import { Request, Response, Router } from "express";
+import { describeConfig } from "../utils/config";
+import { adminAuth, auditRequest, countAuthFailure } from "../middleware/auth";
+import {
+  createChallenge,
+  createSession,
+  revokeSession,
+  isAdminConfigured,
+} from "../services/adminAuthService";
+import { listAudit, verifyAuditLog } from "../services/auditLog";
+import { getAgent, listAgents } from "../services/agentCatalog";
+import {
+  validateAgent,
+  validateAgentUri,
+  validateRegistration,
+} from "../services/conformanceService";
+import {
+  checkMetadataDrift,
+  reconcileMetadata,
+  SYNCED_KEYS,
+} from "../services/metadataSync";
+import {
+  getUpdate,
+  getUpdaterStatus,
+  isUpdateRunning,
+  isUpdaterConfigured,
+  isUpdaterPaused,
+  listUpdates,
+  runUpdateJob,
+  setUpdaterPaused,
+} from "../services/updaterService";
+
+const router = Router();
+
+/**
+ * Operator endpoints. Each requires an admin role (see adminAuth):
+ * read for history and status, operate for pause/resume, transact for
+ * anything that sends transactions.
+ */
+
+/**
+ * POST /erc8004/admin/auth/challenge
+ *
+ * Issues a sign-in challenge for a wallet, as an EIP-4361 message and as
+ * EIP-712 typed data. Sign either one and exchange it for a session.
+ * Body: { address }
+ */
+router.post("/admin/auth/challenge", (req, res) => {
+  if (!isAdminConfigured()) {
+    res.status(503).json({ error: "Admin API not configured" });
+    return;
+  }
+  if (!canSignIn(req, res)) return;
+
+  try {
+    res.status(201).json(createChallenge(String(req.body?.address ?? "")));
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /erc8004/admin/auth/session
+ *
+ * Verifies a signed challenge and returns a session token to send as
+ * `Authorization: Bearer <token>`. Responds 401 for a bad signature and
+ * 403 when the wallet holds no admin role.
+ * Body: { address, nonce, signature, scheme?: "siwe" | "eip712" }
+ */
+router.post("/admin/auth/session", async (req, res) => {
+  if (!canSignIn(req, res)) return;
+  const { address, nonce, signature, scheme = "siwe" } = req.body ?? {};
+  if (scheme !== "siwe" && scheme !== "eip712") {
+    res.status(400).json({ error: "scheme must be siwe or eip712" });
+    return;
+  }
+
+  try {
+    const signedIn = await createSession({
+      address: String(address ?? ""),
+      nonce: String(nonce ?? ""),
+      signature: String(signature ?? ""),
+      scheme,
+    });
+    if (!signedIn) {
+      countAuthFailure("no-role");
+      res.status(403).json({ error: "Address holds no admin role" });
+      return;
+    }
+
+    auditRequest(req, signedIn.session, 201);
+    res.status(201).json(signedIn);
+  } catch (error) {
+    countAuthFailure("bad-signature");
+    res.status(401).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /erc8004/admin/auth/session
+ *
+ * The caller's session: actor, role and expiry.
+ */
+router.get("/admin/auth/session", adminAuth("read"), (req, res) => {
+  res.json(res.locals.admin);
+});
+
+/**
+ * DELETE /erc8004/admin/auth/session
+ *
+ * Signs out, revoking the bearer token.
+ */
+router.delete("/admin/auth/session", adminAuth("read"), (req, res) => {
+  revokeSession(req.headers.authorization?.replace(/^Bearer\s+/i, "") ?? "");
+  res.status(204).end();
+});
+
+/**
+ * GET /erc8004/admin/config
+ *
+ * The effective configuration with secrets redacted, where each value
+ * came from (env, profile or default) and the active profile.
+ */
+router.get("/admin/config", adminAuth("read"), (req, res) => {
+  res.setHeader("Cache-Control", "no-store");
+  res.json(describeConfig());
+});
+
+/**
+ * GET /erc8004/admin/audit?actor=&action=&since=&limit=
+ *
+ * The audit log, newest first (default 100 entries), and whether its
+ * hash chain is intact.
+ */
+router.get("/admin/audit", adminAuth("read"), (req, res) => {
+  const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 1000);
+
+  res.json({
+    entries: listAudit({
+      actor: req.query.actor as string | undefined,
+      action: req.query.action as string | undefined,
+      since: req.query.since as string | undefined,
+      limit,
+    }),
+    integrity: verifyAuditLog(),
+  });
+});
+
+/**
+ * POST /erc8004/admin/force-update?agentId=
+ *
+ * Runs the updater now, for one agent or all of them, and returns each
+ * agent's outcome. Responds 500 when any update failed.
+ */
+router.post("/admin/force-update", adminAuth("transact"), async (req, res) => {
+  const agent =
+    req.query.agentId !== undefined
+      ? getAgent(Number(req.query.agentId))
+      : undefined;
+  if (req.query.agentId !== undefined && !agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+  if (!isUpdaterConfigured()) {
+    res.status(503).json({ error: "Updater not configured" });
+    return;
+  }
+  if (isUpdaterPaused()) {
+    res.status(409).json({ error: "Updater is paused" });
+    return;
+  }
+  if (isUpdateRunning()) {
+    res.status(409).json({ error: "An update is already running" });
+    return;
+  }
+
+  const results = await runUpdateJob("admin", agent ? [agent] : listAgents());
+  const failed = results.some((result) => result.status === "failed");
+  res.status(failed ? 500 : 200).json({
+    status: failed ? "failed" : "ok",
+    results,
+  });
+});
+
+/**
+ * GET /erc8004/admin/updates?agentId=&limit=
+ *
+ * Updater history, newest first (default 50 entries).
+ */
+router.get("/admin/updates", adminAuth("read"), (req, res) => {
+  const agentId =
+    req.query.agentId !== undefined ? Number(req.query.agentId) : undefined;
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 1000);
+
+  res.json({ updates: listUpdates({ agentId, limit }) });
+});
+
+/**
+ * GET /erc8004/admin/updates/:id
+ */
+router.get("/admin/updates/:id", adminAuth("read"), (req, res) => {
+  const update = getUpdate(Number(req.params.id));
+  if (!update) {
+    res.status(404).json({ error: "Update not found" });
+    return;
+  }
+
+  res.json(update);
+});
+
+/**
+ * GET /erc8004/admin/updater/status
+ *
+ * Pause state, next scheduled run, updater wallet and its balance, and
+ * the last recorded update.
+ */
+router.get("/admin/updater/status", adminAuth("read"), async (req, res) => {
+  res.json(await getUpdaterStatus());
+});
+
+/**
+ * POST /erc8004/admin/updater/pause
+ *
+ * Stops scheduled and forced updates until resumed. A run already in
+ * progress finishes.
+ */
+router.post("/admin/updater/pause", adminAuth("operate"), async (req, res) => {
+  setUpdaterPaused(true);
+  res.json(await getUpdaterStatus());
+});
+
+/**
+ * POST /erc8004/admin/updater/resume
+ */
+router.post("/admin/updater/resume", adminAuth("operate"), async (req, res) => {
+  setUpdaterPaused(false);
+  res.json(await getUpdaterStatus());
+});
+
+/**
+ * GET /erc8004/admin/metadata-sync?agentId=
+ *
+ * Compares each agent's on-chain metadata keys (agentWallet,
+ * duneDashboard) with the settings, for one agent or all of them.
+ */
+router.get("/admin/metadata-sync", adminAuth("read"), async (req, res) => {
+  const agent =
+    req.query.agentId !== undefined
+      ? getAgent(Number(req.query.agentId))
+      : undefined;
+  if (req.query.agentId !== undefined && !agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  try {
+    const reports = [];
+    for (const entry of agent ? [agent] : listAgents()) {
+      reports.push(await checkMetadataDrift(entry));
+    }
+    res.json({ drift: reports.some((report) => report.drift), reports });
+  } catch (error) {
+    console.error("  Failed to read on-chain metadata:", error);
+    res.status(502).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /erc8004/admin/metadata-sync?agentId=
+ *
+ * Writes the settings' values of drifted and missing keys on-chain, in
+ * one batch of setMetadata() transactions per agent. Responds 500 when
+ * any write failed.
+ * Body: optional { keys: ["agentWallet"], dryRun: true }
+ */
+router.post("/admin/metadata-sync", adminAuth("transact"), async (req, res) => {
+  const agent =
+    req.query.agentId !== undefined
+      ? getAgent(Number(req.query.agentId))
+      : undefined;
+  if (req.query.agentId !== undefined && !agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+  const { keys, dryRun } = req.body ?? {};
+  const synced = SYNCED_KEYS.map((entry) => entry.key);
+  if (
+    keys !== undefined &&
+    !(Array.isArray(keys) && keys.every((key) => synced.includes(key)))
+  ) {
+    res.status(400).json({ error: `keys must be among: ${synced.join(", ")}` });
+    return;
+  }
+  if (!isUpdaterConfigured()) {
+    res.status(503).json({ error: "Updater not configured" });
+    return;
+  }
+  if (isUpdaterPaused()) {
+    res.status(409).json({ error: "Updater is paused" });
+    return;
+  }
+  if (isUpdateRunning()) {
+    res.status(409).json({ error: "An update is already running" });
+    return;
+  }
+
+  try {
+    const results = [];
+    for (const entry of agent ? [agent] : listAgents()) {
+      results.push({
+        agentId: entry.agentId,
+        ...(await reconcileMetadata(entry, {
+          keys,
+          dryRun: dryRun === true || undefined,
+        })),
+      });
+    }
+    const failed = results.some((result) =>
+      result.writes.some((write) => write.status === "failed")
+    );
+    res.status(failed ? 500 : 200).json({
+      status: failed ? "failed" : "ok",
+      results,
+    });
+  } catch (error) {
+    console.error("  Failed to reconcile on-chain metadata:", error);
+    res.status(502).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /erc8004/admin/validate?agentId=&checkImage=
+ *
+ * Checks the registrations this backend serves against the ERC-8004
+ * registration-v1 format and the on-chain tokenURIs, for one agent or
+ * all of them. checkImage=false skips fetching the images.
+ */
+router.get("/admin/validate", adminAuth("read"), async (req, res) => {
+  const agent =
+    req.query.agentId !== undefined
+      ? getAgent(Number(req.query.agentId))
+      : undefined;
+  if (req.query.agentId !== undefined && !agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+  const options = { checkImage: req.query.checkImage !== "false" };
+
+  try {
+    const reports = [];
+    for (const entry of agent ? [agent] : listAgents()) {
+      reports.push(await validateAgent(entry, options));
+    }
+    res.json({ valid: reports.every((report) => report.valid), reports });
+  } catch (error) {
+    console.error("  Failed to validate registrations:", error);
+    res.status(502).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /erc8004/admin/validate
+ *
+ * Checks any agent's registration: fetched from its agent URI (http(s),
+ * ipfs:// or data:), or given inline.
+ * Body: { uri } or { registration }, optional checkImage (default true)
+ */
+router.post("/admin/validate", adminAuth("read"), async (req, res) => {
+  const { uri, registration, checkImage } = req.body ?? {};
+  const options = { checkImage: checkImage !== false };
+
+  if (typeof uri === "string" && uri) {
+    res.json(await validateAgentUri(uri, options));
+  } else if (registration !== undefined) {
+    res.json(await validateRegistration(registration, "request", options));
+  } else {
+    res.status(400).json({ error: "Send a uri or a registration" });
+  }
+});
+
+/**
+ * Wallet sign-in keeps challenges and sessions in DATA_DIR, which
+ * serverless instances do not share: a challenge issued by one would
+ * be unknown to the next. Answers 503 there (use ADMIN_API_KEY).
+ */
+function canSignIn(req: Request, res: Response): boolean {
+  if (req.app.locals.mode !== "serverless") return true;
+  res.status(503).json({
+    error:
+      "Wallet sign-in needs the Node server; use ADMIN_API_KEY on serverless deployments",
+  });
+  return false;
+}
+
+export default router;
@@ -1,27 +1,193 @@
-import { Router } from "express";
+import { Router, Request, Response } from "express";
+import { config } from "../utils/config";
+import { entityTag, sendNotModified } from "../utils/httpCache";
+import { rateLimit } from "../middleware/rateLimit";
+import { getAgent, getDefaultAgent } from "../services/agentCatalog";
 import { getStats } from "../services/statsService";
-import { generateAgentCardSvg } from "../services/svgGenerator";
+import {
+  generateAgentCardSvg,
+  resolveCardOptions,
+} from "../services/svgGenerator";
+import {
+  getStatsVersion,
+  RASTER_SIZES,
+  RasterFormat,
+  RasterSize,
+  renderRaster,
+} from "../services/rasterService";
+import { AgentProfile, CardOptions } from "../types";
 
 const router = Router();
 
 /**
  * GET /erc8004/image.svg
  *
- * Returns a dynamically generated SVG agent card with live stats.
- * This is what the NFT metadata `image` field points to.
+ * Returns a dynamically generated SVG agent card with live stats for
+ * the default agent. This is what the NFT metadata `image` field points to.
+ *
+ * `?layout=full|compact|square`, `?theme=ocean|light|high-contrast` and
+ * `?tiles=tvl,apy,...` override the agent's card defaults.
+ *
+ * Like the metadata, images carry a strong ETag and Last-Modified and
+ * answer conditional requests with 304.
+ */
+router.get("/image.svg", rateLimit, async (req, res) => {
+  await sendImage(getDefaultAgent(), req, res);
+});
+
+/**
+ * GET /erc8004/agents/:agentId/image.svg
+ *
+ * Same as /image.svg, for any agent in the catalog.
+ */
+router.get("/agents/:agentId/image.svg", rateLimit, async (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).send("Unknown agent");
+    return;
+  }
+
+  await sendImage(agent, req, res);
+});
+
+/**
+ * GET /erc8004/image.png, /erc8004/image.webp
+ *
+ * The agent card rendered server-side, for wallets and link previews
+ * that do not display SVG. `?size=og` gives a 1200x630 Open Graph image,
+ * `?size=square` a 1000x1000 one; the default is the card's own size.
+ * Accepts the same ?layout, ?theme and ?tiles as /image.svg.
  */
-router.get("/image.svg", async (req, res) => {
+router.get("/image.:format(png|webp)", rateLimit, async (req, res) => {
+  await sendRaster(getDefaultAgent(), req, res);
+});
+
+/**
+ * GET /erc8004/agents/:agentId/image.png, .../image.webp
+ *
+ * Same as /image.png and /image.webp, for any agent in the catalog.
+ */
+router.get(
+  "/agents/:agentId/image.:format(png|webp)",
+  rateLimit,
+  async (req, res) => {
+    const agent = getAgent(Number(req.params.agentId));
+    if (!agent) {
+      res.status(404).send("Unknown agent");
+      return;
+    }
+
+    await sendRaster(agent, req, res);
+  }
+);
+
+async function sendImage(
+  agent: AgentProfile,
+  req: Request,
+  res: Response
+): Promise<void> {
+  const options = cardOptionsFromQuery(agent, req, res);
+  if (!options) return;
+
   try {
-    const stats = await getStats();
-    const svg = generateAgentCardSvg(stats);
+    const stats = await getStats(agent);
+    const svg = generateAgentCardSvg(agent, stats, options);
+
+    const notModified = sendNotModified(req, res, {
+      etag: entityTag(svg),
+      lastModified: stats.lastUpdated,
+      cacheControl: config.imageCacheControl,
+    });
+    if (notModified) return;
 
     res.setHeader("Content-Type", "image/svg+xml");
-    res.setHeader("Cache-Control", "public, max-age=300"); // 5 min cache
     res.send(svg);
   } catch (error) {
     console.error("Error generating SVG:", error);
     res.status(500).send("Error generating image");
   }
-});
+}
+
+async function sendRaster(
+  agent: AgentProfile,
+  req: Request,
+  res: Response
+): Promise<void> {
+  const format = req.params.format as RasterFormat;
+  const size = req.query.size || "card";
+  if (typeof size !== "string" || !Object.hasOwn(RASTER_SIZES, size)) {
+    res
+      .status(400)
+      .send(
+        `Unknown size. Use one of: ${Object.keys(RASTER_SIZES).join(", ")}`
+      );
+    return;
+  }
+
+  const options = cardOptionsFromQuery(agent, req, res);
+  if (!options) return;
+
+  try {
+    const stats = await getStats(agent);
+    const svg = generateAgentCardSvg(agent, stats, options);
+
+    // Tagged by the SVG it renders, so a 304 skips rasterizing
+    const notModified = sendNotModified(req, res, {
+      etag: entityTag(svg, size, format),
+      lastModified: stats.lastUpdated,
+      cacheControl: config.imageCacheControl,
+    });
+    if (notModified) return;
+
+    const image = await renderRaster(
+      svg,
+      [
+        agent.agentId,
+        getStatsVersion(stats),
+        options.layout,
+        options.theme,
+        options.tiles.join("+"),
+      ].join(":"),
+      size as RasterSize,
+      format
+    );
+
+    res.setHeader("Content-Type", `image/${format}`);
+    res.send(image);
+  } catch (error) {
+    console.error("Error rendering image:", error);
+    res.status(500).send("Error generating image");
+  }
+}
+
+/**
+ * Card options from ?layout, ?theme and ?tiles. Answers 400 and returns
+ * null when a name is unknown or a parameter is repeated.
+ */
+function cardOptionsFromQuery(
+  agent: AgentProfile,
+  req: Request,
+  res: Response
+): CardOptions | null {
+  try {
+    return resolveCardOptions(agent, {
+      layout: queryString(req, "layout"),
+      theme: queryString(req, "theme"),
+      tiles: queryString(req, "tiles"),
+    });
+  } catch (error) {
+    res.status(400).send((error as Error).message);
+    return null;
+  }
+}
+
+// A query parameter given once (?a=1&a=2 and ?a[b]=1 are not strings)
+function queryString(req: Request, name: string): string | undefined {
+  const value = req.query[name];
+  if (value !== undefined && typeof value !== "string") {
+    throw new Error(`?${name} must be given once, as text`);
+  }
+  return value;
+}
 
 export default router;
@@ -0,0 +1,78 @@
+import { Router } from "express";
+import { jobAuth } from "../middleware/auth";
+import { listAgents } from "../services/agentCatalog";
+import { refreshStats } from "../services/statsService";
+import {
+  isUpdateRunning,
+  isUpdaterConfigured,
+  isUpdaterPaused,
+  runUpdateJob,
+} from "../services/updaterService";
+import { getIndexerStatus, syncRegistry } from "../services/registryIndexer";
+
+const router = Router();
+
+/**
+ * Triggerable versions of the background work a long-running server does
+ * on its own. Serverless deployments call these from a scheduler
+ * (see vercel.json); all of them are safe to call repeatedly.
+ * GET is accepted because Vercel Cron only sends GET requests.
+ */
+
+/**
+ * /erc8004/jobs/update — refresh tokenURIs whose metadata changed.
+ * Like /admin/force-update, answers 503 without an updater and 409
+ * while it is paused or already running.
+ */
+router.all("/jobs/update", jobAuth, async (req, res) => {
+  if (!isUpdaterConfigured()) {
+    res.status(503).json({ error: "Updater not configured" });
+    return;
+  }
+  if (isUpdaterPaused()) {
+    res.status(409).json({ error: "Updater is paused" });
+    return;
+  }
+  if (isUpdateRunning()) {
+    res.status(409).json({ error: "An update is already running" });
+    return;
+  }
+
+  try {
+    const results = await runUpdateJob("cron");
+    res.json({ status: "ok", results });
+  } catch (error) {
+    console.error("Update job failed:", error);
+    res.status(500).json({ error: "Update job failed" });
+  }
+});
+
+/**
+ * /erc8004/jobs/poll-stats — sample every agent's stats
+ */
+router.all("/jobs/poll-stats", jobAuth, async (req, res) => {
+  try {
+    for (const agent of listAgents()) {
+      await refreshStats(agent);
+    }
+    res.json({ status: "ok", agents: listAgents().length });
+  } catch (error) {
+    console.error("Stats poll failed:", error);
+    res.status(500).json({ error: "Stats poll failed" });
+  }
+});
+
+/**
+ * /erc8004/jobs/sync-registry — index new registry events
+ */
+router.all("/jobs/sync-registry", jobAuth, async (req, res) => {
+  try {
+    await syncRegistry();
+    res.json({ status: "ok", ...getIndexerStatus() });
+  } catch (error) {
+    console.error("Registry sync failed:", error);
+    res.status(500).json({ error: "Registry sync failed" });
+  }
+});
+
+export default router;
@@ -0,0 +1,64 @@
+import { Router, Request, Response } from "express";
+import { rateLimit } from "../middleware/rateLimit";
+import { getAgent, getDefaultAgent } from "../services/agentCatalog";
+import { handleMcpRequest } from "../services/mcpServer";
+import { INVALID_REQUEST, isJsonRpcRequest, rpcError } from "../utils/jsonRpc";
+import { AgentProfile } from "../types";
+
+const router = Router();
+
+/**
+ * POST /erc8004/mcp
+ *
+ * Minimal MCP server (Streamable HTTP transport, JSON responses only)
+ * for the default agent, with read-only tools over its live stats:
+ * get_stats, get_protocols, get_vault_summary and get_strategy.
+ * Notifications are accepted with 202.
+ */
+router.post("/mcp", rateLimit, async (req, res) => {
+  await sendMcp(getDefaultAgent(), req, res);
+});
+
+/**
+ * POST /erc8004/agents/:agentId/mcp
+ *
+ * Same as /mcp, for any agent in the catalog.
+ */
+router.post("/agents/:agentId/mcp", rateLimit, async (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  await sendMcp(agent, req, res);
+});
+
+// No server-initiated messages, so no SSE stream to open
+router.get(["/mcp", "/agents/:agentId/mcp"], (req, res) => {
+  res.setHeader("Allow", "POST");
+  res.status(405).json({ error: "Use POST" });
+});
+
+async function sendMcp(
+  agent: AgentProfile,
+  req: Request,
+  res: Response
+): Promise<void> {
+  if (!isJsonRpcRequest(req.body)) {
+    res
+      .status(400)
+      .json(rpcError(null, INVALID_REQUEST, "Expected one JSON-RPC request"));
+    return;
+  }
+
+  const response = await handleMcpRequest(agent, req.body);
+  if (!response) {
+    res.status(202).end();
+    return;
+  }
+
+  res.json(response);
+}
+
+export default router;
@@ -1,86 +1,178 @@
-import { Router } from "express";
+import { Router, Request, Response } from "express";
 import { config } from "../utils/config";
+import { entityTag, sendNotModified } from "../utils/httpCache";
+import { adminAuth } from "../middleware/auth";
+import { rateLimit } from "../middleware/rateLimit";
+import { getAgent, getDefaultAgent } from "../services/agentCatalog";
 import { getStats } from "../services/statsService";
-import { ERC8004Registration } from "../types";
+import { buildRegistration } from "../services/registrationBuilder";
+import {
+  buildDataUri,
+  inspectOnchainMetadata,
+} from "../services/dataUriService";
+import { verifyEndpoints } from "../services/domainVerifier";
+import { syncValidation } from "../services/validationService";
+import { syncOnchainMetadata } from "../services/metadataSync";
+import { AgentProfile } from "../types";
 
 const router = Router();
 
 /**
  * GET /erc8004/metadata
  *
- * Returns ERC-8004 compliant registration JSON with live stats.
- * This is what the on-chain tokenURI points to.
+ * Returns ERC-8004 compliant registration JSON with live stats for the
+ * default agent. This is what the on-chain tokenURI points to.
+ *
+ * Carries a strong ETag and Last-Modified (the stats' fetch time) and
+ * answers conditional requests with 304.
+ */
+router.get("/metadata", rateLimit, async (req, res) => {
+  await sendMetadata(getDefaultAgent(), req, res);
+});
+
+/**
+ * GET /erc8004/agents/:agentId/metadata
+ *
+ * Same as /metadata, for any agent in the catalog.
+ */
+router.get("/agents/:agentId/metadata", rateLimit, async (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  await sendMetadata(agent, req, res);
+});
+
+/**
+ * GET /erc8004/metadata/onchain
+ *
+ * Reads the default agent's tokenURI from the registry, decodes it when
+ * it is a data: URI and checks it against this agent (see
+ * inspectOnchainMetadata). `candidate` is the data: URI the updater
+ * would write now: its size, estimated gas and whether it fits the budget.
  */
-router.get("/metadata", async (req, res) => {
+router.get("/metadata/onchain", rateLimit, async (req, res) => {
+  await sendOnchainMetadata(getDefaultAgent(), res);
+});
+
+/**
+ * GET /erc8004/agents/:agentId/metadata/onchain
+ *
+ * Same as /metadata/onchain, for any agent in the catalog.
+ */
+router.get("/agents/:agentId/metadata/onchain", rateLimit, async (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  await sendOnchainMetadata(agent, res);
+});
+
+/**
+ * POST /erc8004/registration/verify
+ *
+ * Checks which endpoints of any registration JSON (the request body)
+ * are on domains whose /.well-known/agent-registration.json lists one
+ * of its registrations. Fetches up to 10 public domains per request,
+ * so it needs the admin read role.
+ */
+router.post(
+  "/registration/verify",
+  rateLimit,
+  adminAuth("read"),
+  async (req, res) => {
+    try {
+      res.json(await verifyEndpoints(req.body));
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  }
+);
+
+/**
+ * GET /erc8004/agents/:agentId/registration/verify
+ *
+ * Same check for the registration this backend serves for an agent.
+ * It fetches the agent's domains too, so it needs the admin read role.
+ */
+router.get(
+  "/agents/:agentId/registration/verify",
+  rateLimit,
+  adminAuth("read"),
+  async (req, res) => {
+    const agent = getAgent(Number(req.params.agentId));
+    if (!agent) {
+      res.status(404).json({ error: "Unknown agent" });
+      return;
+    }
+
+    try {
+      const registration = buildRegistration(agent, await getStats(agent));
+      res.json(await verifyEndpoints(registration));
+    } catch (error) {
+      res.status(502).json({ error: (error as Error).message });
+    }
+  }
+);
+
+async function sendOnchainMetadata(
+  agent: AgentProfile,
+  res: Response
+): Promise<void> {
+  if (!config.registryAddress) {
+    res.status(503).json({ error: "Registry not configured" });
+    return;
+  }
+
+  try {
+    const onchain = await inspectOnchainMetadata(agent);
+    const { bytes, imageBytes, gas, overBudget } = buildDataUri(
+      agent,
+      await getStats(agent)
+    );
+
+    res.setHeader("Cache-Control", "no-store");
+    res.json({
+      ...onchain,
+      candidate: { bytes, imageBytes, gas, overBudget },
+    });
+  } catch (error) {
+    console.error("Error reading on-chain metadata:", error);
+    res.status(502).json({ error: (error as Error).message });
+  }
+}
+
+async function sendMetadata(
+  agent: AgentProfile,
+  req: Request,
+  res: Response
+): Promise<void> {
+  // Validator responses and on-chain metadata keys sync in the
+  // background, like reputation
+  syncValidation();
+  syncOnchainMetadata();
+
   try {
-    const stats = await getStats();
-
-    const metadata: ERC8004Registration = {
-      type: "https://eips.ethereum.org/EIPS/eip-8004#registration-v1",
-
-      name: config.agentName,
-
-      description: [
-        `Non-custodial DeFAI yield agent on ${config.chainName}.`,
-        `Deploys individual USDC vaults via factory contracts,`,
-        `allocates across Morpho lending pools and Aerodrome LP positions,`,
-        `auto-rebalances every 12 hours, and compounds Merkl rewards.`,
-        ``,
-        `Live Stats:`,
-        `• TVL: ${stats.tvl}`,
-        `• Vaults: ${stats.totalVaults} deployed (${stats.activeVaults} active)`,
-        `• Avg APY: ${stats.avgApy}`,
-        `• Total Rebalances: ${stats.totalRebalances.toLocaleString()}`,
-        `• Uptime: ${stats.uptimePercent}`,
-        `• Last Rebalance: ${stats.lastRebalanceAt}`,
-        ``,
-        `All operations are on-chain and auditable.`,
-        `On-chain proof: ${config.duneUrl}`,
-      ].join("\n"),
-
-      // Dynamic SVG image — always fresh
-      image: `${config.baseUrl}/erc8004/image.svg`,
-
-      services: [
-        {
-          name: "web",
-          endpoint: config.websiteUrl,
-        },
-        {
-          name: "stats-api",
-          endpoint: config.statsApiUrl,
-        },
-        {
-          name: "onchain-proof",
-          endpoint: config.duneUrl,
-        },
-      ],
-
-      registrations: [
-        {
-          agentRegistry: `eip155:${config.chainId}:${config.registryAddress}`,
-          agentId: config.agentId,
-        },
-      ],
-
-      supportedTrust: ["reputation"],
-
-      agentWallet: config.agentWallet
-        ? {
-            [`eip155:${config.chainId}`]: config.agentWallet,
-          }
-        : undefined,
-    };
+    const stats = await getStats(agent);
+    const body = JSON.stringify(buildRegistration(agent, stats));
+
+    const notModified = sendNotModified(req, res, {
+      etag: entityTag(body),
+      lastModified: stats.lastUpdated,
+      cacheControl: config.metadataCacheControl,
+    });
+    if (notModified) return;
 
     res.setHeader("Content-Type", "application/json");
-    // Allow caching for 5 min so we don't hammer the stats API,
-    // but short enough that data stays fresh
-    res.setHeader("Cache-Control", "public, max-age=300");
-    res.json(metadata);
+    res.send(body);
   } catch (error) {
     console.error("Error generating metadata:", error);
     res.status(500).json({ error: "Failed to generate metadata" });
   }
-});
+}
 
 export default router;
@@ -0,0 +1,20 @@
+import { Router } from "express";
+import { metricsAuth } from "../middleware/auth";
+import { renderMetrics } from "../utils/metrics";
+
+const router = Router();
+
+/**
+ * GET /metrics
+ *
+ * Prometheus metrics in the text exposition format: HTTP requests,
+ * stats cache and provider results, updater outcomes and gas, and
+ * gauges for each agent's TVL and APY and the updater wallet balance.
+ * Requires METRICS_TOKEN as a bearer token when it is set.
+ */
+router.get("/metrics", metricsAuth, async (req, res) => {
+  res.setHeader("Content-Type", "text/plain; version=0.0.4; charset=utf-8");
+  res.send(await renderMetrics());
+});
+
+export default router;
@@ -0,0 +1,54 @@
+import { Router } from "express";
+import {
+  getAgentHistory,
+  getIndexedAgent,
+  getIndexerStatus,
+  listIndexedAgents,
+} from "../services/registryIndexer";
+
+const router = Router();
+
+/**
+ * GET /erc8004/registry/agents
+ *
+ * Lists every agent registered on the registry, as seen by the indexer.
+ */
+router.get("/registry/agents", (req, res) => {
+  res.json({
+    ...getIndexerStatus(),
+    items: listIndexedAgents(),
+  });
+});
+
+/**
+ * GET /erc8004/registry/agents/:id
+ *
+ * Current owner, tokenURI and metadata keys of one agent.
+ */
+router.get("/registry/agents/:id", (req, res) => {
+  const agent = getIndexedAgent(Number(req.params.id));
+  if (!agent) {
+    res.status(404).json({ error: "Agent not indexed" });
+    return;
+  }
+
+  res.json(agent);
+});
+
+/**
+ * GET /erc8004/registry/agents/:id/history
+ *
+ * URI updates, metadata writes and transfers of one agent, newest first,
+ * each with the block, transaction and sender.
+ */
+router.get("/registry/agents/:id/history", (req, res) => {
+  const agentId = Number(req.params.id);
+  if (!getIndexedAgent(agentId)) {
+    res.status(404).json({ error: "Agent not indexed" });
+    return;
+  }
+
+  res.json({ agentId, ...getAgentHistory(agentId) });
+});
+
+export default router;
@@ -0,0 +1,190 @@
+import { Router, Request, Response } from "express";
+import { ethers } from "ethers";
+import { adminAuth } from "../middleware/auth";
+import { getAgent, getDefaultAgent } from "../services/agentCatalog";
+import {
+  getFeedbackFile,
+  getReputationSummary,
+  isFeedbackSignerConfigured,
+  issueFeedbackAuth,
+  listFeedback,
+  recordLocalFeedback,
+  storeFeedbackFile,
+  syncReputation,
+} from "../services/reputationService";
+import {
+  isVaultClient,
+  isVaultFactoryConfigured,
+} from "../services/vaultFactory";
+import { AgentProfile } from "../types";
+
+const router = Router();
+
+// Recent feedback entries returned next to the summary
+const RECENT_FEEDBACK = 20;
+
+/**
+ * GET /erc8004/reputation
+ *
+ * Score summary and recent feedback of the default agent, from the
+ * reputation registry (or the local store when none is configured).
+ */
+router.get("/reputation", async (req, res) => {
+  await sendReputation(getDefaultAgent(), res);
+});
+
+/**
+ * GET /erc8004/agents/:agentId/reputation
+ *
+ * Same as /reputation, for any agent in the catalog.
+ */
+router.get("/agents/:agentId/reputation", async (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  await sendReputation(agent, res);
+});
+
+/**
+ * POST /erc8004/reputation/feedback-auth
+ *
+ * Issues a signed feedbackAuth to a client that owns a vault.
+ * Body: { clientAddress, agentId? }
+ */
+router.post("/reputation/feedback-auth", async (req, res) => {
+  if (!isVaultFactoryConfigured()) {
+    res.status(503).json({ error: "Vault factory not configured" });
+    return;
+  }
+
+  await sendFeedbackAuth(req, res, true);
+});
+
+/**
+ * POST /erc8004/admin/reputation/feedback-auth
+ *
+ * Issues a signed feedbackAuth without the vault ownership check, for
+ * clients known off-chain (requires the operate admin role).
+ * Body: { clientAddress, agentId? }
+ */
+router.post(
+  "/admin/reputation/feedback-auth",
+  adminAuth("operate"),
+  async (req, res) => {
+    await sendFeedbackAuth(req, res, false);
+  }
+);
+
+/**
+ * POST /erc8004/reputation/feedback-files
+ *
+ * Hosts an off-chain feedback file. The file must carry a feedbackAuth
+ * issued to its clientAddress. Returns the fileUri and fileHash to pass
+ * to giveFeedback().
+ */
+router.post("/reputation/feedback-files", (req, res) => {
+  const agent = getAgent(Number(req.body?.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  try {
+    res.status(201).json(storeFeedbackFile(agent.agentId, req.body));
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * GET /erc8004/reputation/feedback-files/:fileHash
+ *
+ * A hosted feedback file, byte for byte as hashed.
+ */
+router.get("/reputation/feedback-files/:fileHash", (req, res) => {
+  const content = getFeedbackFile(req.params.fileHash);
+  if (!content) {
+    res.status(404).json({ error: "Feedback file not found" });
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+  res.send(content);
+});
+
+/**
+ * POST /erc8004/reputation/feedback
+ *
+ * Local stand-in for giveFeedback() when no reputation registry is
+ * configured. Body: { agentId, clientAddress, score, tag1?, tag2?,
+ * fileUri?, fileHash?, feedbackAuth, signature }
+ */
+router.post("/reputation/feedback", (req, res) => {
+  const agent = getAgent(Number(req.body?.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  try {
+    res
+      .status(201)
+      .json(recordLocalFeedback({ ...req.body, agentId: agent.agentId }));
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+async function sendReputation(
+  agent: AgentProfile,
+  res: Response
+): Promise<void> {
+  await syncReputation();
+
+  res.json({
+    agentId: agent.agentId,
+    ...getReputationSummary(agent.agentId),
+    feedback: listFeedback(agent.agentId).slice(0, RECENT_FEEDBACK),
+  });
+}
+
+async function sendFeedbackAuth(
+  req: Request,
+  res: Response,
+  requireVault: boolean
+): Promise<void> {
+  if (!isFeedbackSignerConfigured()) {
+    res.status(503).json({ error: "Feedback signer not configured" });
+    return;
+  }
+
+  const { clientAddress, agentId } = req.body ?? {};
+  const agent =
+    agentId !== undefined ? getAgent(Number(agentId)) : getDefaultAgent();
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+  if (typeof clientAddress !== "string" || !ethers.isAddress(clientAddress)) {
+    res.status(400).json({ error: "clientAddress must be an address" });
+    return;
+  }
+
+  try {
+    if (requireVault && !(await isVaultClient(clientAddress))) {
+      res.status(403).json({ error: "Address has no vault" });
+      return;
+    }
+
+    res.json(await issueFeedbackAuth(agent.agentId, clientAddress));
+  } catch (error) {
+    console.error("Failed to issue feedbackAuth:", error);
+    res.status(500).json({ error: "Failed to issue feedbackAuth" });
+  }
+}
+
+export default router;
@@ -0,0 +1,106 @@
+import { Router } from "express";
+import { config } from "../utils/config";
+import { adminAuth } from "../middleware/auth";
+import { getAgent, getDefaultAgent } from "../services/agentCatalog";
+import { refreshStats } from "../services/statsService";
+import {
+  buildSnapshot,
+  exportSnapshotCar,
+  getSnapshot,
+  listSnapshots,
+  publishSnapshot,
+  PublishedSnapshot,
+} from "../services/snapshotPublisher";
+
+const router = Router();
+
+/**
+ * GET /erc8004/snapshots?agentId=&limit=
+ *
+ * Published IPFS snapshots, newest first (default 50), with their CIDs
+ * and gateway links. The live endpoints are unaffected by snapshots.
+ */
+router.get("/snapshots", (req, res) => {
+  const agentId =
+    req.query.agentId !== undefined ? Number(req.query.agentId) : undefined;
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+
+  res.json({
+    snapshots: listSnapshots({ agentId, limit }).map(withGatewayUrls),
+  });
+});
+
+/**
+ * GET /erc8004/snapshots/:cid
+ *
+ * One snapshot, by its metadata CID.
+ */
+router.get("/snapshots/:cid", (req, res) => {
+  const snapshot = getSnapshot(req.params.cid);
+  if (!snapshot) {
+    res.status(404).json({ error: "Snapshot not found" });
+    return;
+  }
+
+  res.json(withGatewayUrls(snapshot));
+});
+
+/**
+ * GET /erc8004/snapshots/:cid/car
+ *
+ * The snapshot's metadata and image as a CAR file, for `ipfs dag import`
+ * or a pinning service's CAR upload.
+ */
+router.get("/snapshots/:cid/car", (req, res) => {
+  const car = exportSnapshotCar(req.params.cid);
+  if (!car) {
+    res.status(404).json({ error: "Snapshot not found" });
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/vnd.ipld.car; version=1");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${req.params.cid}.car"`
+  );
+  res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+  res.send(car);
+});
+
+/**
+ * POST /erc8004/admin/snapshots
+ *
+ * Builds and publishes a snapshot of an agent's current stats without
+ * changing its tokenURI (requires the operate admin role).
+ * Body: { agentId? }
+ */
+router.post("/admin/snapshots", adminAuth("operate"), async (req, res) => {
+  const agentId = req.body?.agentId;
+  const agent =
+    agentId !== undefined ? getAgent(Number(agentId)) : getDefaultAgent();
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  try {
+    const snapshot = await publishSnapshot(
+      buildSnapshot(agent, await refreshStats(agent))
+    );
+    res.status(201).json(withGatewayUrls(snapshot));
+  } catch (error) {
+    console.error("Failed to publish snapshot:", error);
+    res.status(502).json({ error: (error as Error).message });
+  }
+});
+
+function withGatewayUrls(snapshot: PublishedSnapshot) {
+  return {
+    ...snapshot,
+    metadataGatewayUrl: `${config.ipfsGatewayUrl}${snapshot.metadataCid}`,
+    imageGatewayUrl: `${config.ipfsGatewayUrl}${snapshot.imageCid}`,
+    carUrl: `${config.baseUrl}/erc8004/snapshots/${snapshot.metadataCid}/car`,
+  };
+}
+
+export default router;
@@ -0,0 +1,164 @@
+import { Router, Request, Response } from "express";
+import { config } from "../utils/config";
+import { getAgent, getDefaultAgent } from "../services/agentCatalog";
+import {
+  getSeries,
+  HISTORY_METRICS,
+  HistoryInterval,
+  HistoryMetric,
+} from "../services/statsHistory";
+import { getStats } from "../services/statsService";
+import { formatStats, Notation } from "../utils/format";
+import { AgentProfile } from "../types";
+
+const router = Router();
+
+const DEFAULT_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * GET /erc8004/stats?format=raw|display&locale=de-DE&notation=standard|compact|auto
+ *
+ * Live stats of the default agent. By default values are raw: USD
+ * amounts, APY and uptime as decimals, ISO timestamps (null when
+ * unknown). `format=display` returns them formatted for `locale`
+ * (default DISPLAY_LOCALE), optionally abbreviated ("$8.0M").
+ */
+router.get("/stats", async (req, res) => {
+  await sendStats(getDefaultAgent(), req, res);
+});
+
+/**
+ * GET /erc8004/agents/:agentId/stats
+ *
+ * Same as /stats, for any agent in the catalog.
+ */
+router.get("/agents/:agentId/stats", async (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  await sendStats(agent, req, res);
+});
+
+/**
+ * GET /erc8004/stats/history?metric=tvl&from=&to=&interval=1h|1d
+ *
+ * Raw numeric time series of one stats metric for the default agent.
+ * `from` and `to` accept ISO dates or unix seconds and default to the
+ * last 7 days. Without `interval`, every stored snapshot is returned.
+ */
+router.get("/stats/history", (req, res) => {
+  sendHistory(getDefaultAgent(), req, res);
+});
+
+/**
+ * GET /erc8004/agents/:agentId/stats/history
+ *
+ * Same as /stats/history, for any agent in the catalog.
+ */
+router.get("/agents/:agentId/stats/history", (req, res) => {
+  const agent = getAgent(Number(req.params.agentId));
+  if (!agent) {
+    res.status(404).json({ error: "Unknown agent" });
+    return;
+  }
+
+  sendHistory(agent, req, res);
+});
+
+async function sendStats(
+  agent: AgentProfile,
+  req: Request,
+  res: Response
+): Promise<void> {
+  const format = String(req.query.format || "raw");
+  if (format !== "raw" && format !== "display") {
+    res.status(400).json({ error: "format must be raw or display" });
+    return;
+  }
+
+  const notation = String(req.query.notation || "standard");
+  if (!["standard", "compact", "auto"].includes(notation)) {
+    res
+      .status(400)
+      .json({ error: "notation must be standard, compact or auto" });
+    return;
+  }
+
+  const locale = req.query.locale ? String(req.query.locale) : undefined;
+  if (locale) {
+    try {
+      Intl.getCanonicalLocales(locale);
+    } catch {
+      res.status(400).json({ error: `Invalid locale "${locale}"` });
+      return;
+    }
+  }
+
+  const stats = await getStats(agent);
+  res.setHeader("Cache-Control", "public, max-age=60");
+  res.json({
+    agentId: agent.agentId,
+    format,
+    ...(format === "display"
+      ? {
+          locale: locale ?? config.displayLocale,
+          stats: formatStats(stats, {
+            locale,
+            notation: notation as Notation,
+          }),
+        }
+      : { stats }),
+  });
+}
+
+function sendHistory(agent: AgentProfile, req: Request, res: Response): void {
+  const metric = req.query.metric || "tvl";
+  if (typeof metric !== "string" || !Object.hasOwn(HISTORY_METRICS, metric)) {
+    res.status(400).json({
+      error: `Unknown metric. Use one of: ${Object.keys(HISTORY_METRICS).join(
+        ", "
+      )}`,
+    });
+    return;
+  }
+
+  const interval = req.query.interval as string | undefined;
+  if (interval !== undefined && interval !== "1h" && interval !== "1d") {
+    res.status(400).json({ error: "interval must be 1h or 1d" });
+    return;
+  }
+
+  const to = parseTime(req.query.to) ?? new Date();
+  const from =
+    parseTime(req.query.from) ?? new Date(to.getTime() - DEFAULT_RANGE_MS);
+  if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+    res.status(400).json({ error: "Invalid from/to range" });
+    return;
+  }
+
+  res.json({
+    agentId: agent.agentId,
+    metric,
+    interval: interval ?? "raw",
+    from: from.toISOString(),
+    to: to.toISOString(),
+    points: getSeries(
+      agent.agentId,
+      metric as HistoryMetric,
+      from,
+      to,
+      interval as HistoryInterval | undefined
+    ),
+  });
+}
+
+function parseTime(value: unknown): Date | undefined {
+  if (value === undefined || value === "") return undefined;
+  const str = String(value);
+  return /^\d+$/.test(str) ? new Date(Number(str) * 1000) : new Date(str);
+}
+
+export default router;
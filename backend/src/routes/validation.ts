@@ -0,0 +1,131 @@
+import { Router, Request, Response, NextFunction } from "express";
+import { adminAuth } from "../middleware/auth";
+import { config } from "../utils/config";
+import { getAgent, getDefaultAgent } from "../services/agentCatalog";
+import {
+  getEvidence,
+  getLatestValidation,
+  getValidationRegistry,
+  listValidations,
+  recordSignedResponse,
+  requestValidation,
+  syncValidation,
+} from "../services/validationService";
+import { AgentProfile } from "../types";
+
+const router = Router();
+
+/**
+ * GET /erc8004/validation
+ *
+ * Validation requests of the default agent with validator responses,
+ * newest first, and the latest answered one.
+ */
+router.get("/validation", requireValidation, async (req, res) => {
+  await sendValidations(getDefaultAgent(), res);
+});
+
+/**
+ * GET /erc8004/agents/:agentId/validation
+ *
+ * Same as /validation, for any agent in the catalog.
+ */
+router.get(
+  "/agents/:agentId/validation",
+  requireValidation,
+  async (req, res) => {
+    const agent = getAgent(Number(req.params.agentId));
+    if (!agent) {
+      res.status(404).json({ error: "Unknown agent" });
+      return;
+    }
+
+    await sendValidations(agent, res);
+  }
+);
+
+/**
+ * GET /erc8004/validation/evidence/:hash
+ *
+ * A frozen stats evidence document, byte for byte as hashed. The hash
+ * is the requestHash validators are asked to check.
+ */
+router.get("/validation/evidence/:hash", (req, res) => {
+  const content = getEvidence(req.params.hash);
+  if (!content) {
+    res.status(404).json({ error: "Evidence not found" });
+    return;
+  }
+
+  res.setHeader("Content-Type", "application/json");
+  res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+  res.send(content);
+});
+
+/**
+ * POST /erc8004/validation/responses
+ *
+ * A validator's off-chain response, signed by the requested validator.
+ * Body: { requestHash, response, responseUri?, responseHash?, tag?, signature }
+ */
+router.post("/validation/responses", requireValidation, (req, res) => {
+  try {
+    res.json(recordSignedResponse(req.body ?? {}));
+  } catch (error) {
+    res.status(400).json({ error: (error as Error).message });
+  }
+});
+
+/**
+ * POST /erc8004/admin/validation/requests
+ *
+ * Freezes the agent's current stats as evidence and records a
+ * validation request (requires the operate admin role). Returns the
+ * validationRequest() transaction when a validation registry is
+ * configured.
+ * Body: { validatorAddress?, agentId? }
+ */
+router.post(
+  "/admin/validation/requests",
+  adminAuth("operate"),
+  requireValidation,
+  async (req, res) => {
+    const { validatorAddress, agentId } = req.body ?? {};
+    const agent =
+      agentId !== undefined ? getAgent(Number(agentId)) : getDefaultAgent();
+    if (!agent) {
+      res.status(404).json({ error: "Unknown agent" });
+      return;
+    }
+
+    try {
+      res.status(201).json(await requestValidation(agent, validatorAddress));
+    } catch (error) {
+      res.status(400).json({ error: (error as Error).message });
+    }
+  }
+);
+
+function requireValidation(req: Request, res: Response, next: NextFunction) {
+  if (!config.validationEnabled) {
+    res.status(503).json({ error: "Validation not enabled" });
+    return;
+  }
+  next();
+}
+
+async function sendValidations(
+  agent: AgentProfile,
+  res: Response
+): Promise<void> {
+  await syncValidation();
+
+  res.json({
+    agentId: agent.agentId,
+    registry: getValidationRegistry(),
+    latest: getLatestValidation(agent.agentId),
+    requests: listValidations(agent.agentId),
+  });
+}
+
+export default router;
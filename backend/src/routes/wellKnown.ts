@@ -0,0 +1,19 @@
+import { Router } from "express";
+import { buildWellKnownFile } from "../services/domainVerifier";
+
+const router = Router();
+
+/**
+ * GET /.well-known/agent-registration.json
+ *
+ * The (registry, agentId) pairs this domain is authoritative for: every
+ * agent in the catalog. Consumers fetch it to check that a registration
+ * pointing at this domain really belongs to one of our agents.
+ */
+router.get("/.well-known/agent-registration.json", (req, res) => {
+  res.setHeader("Cache-Control", "public, max-age=300");
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  res.json(buildWellKnownFile());
+});
+
+export default router;
@@ -0,0 +1,212 @@
+import crypto from "crypto";
+import { config } from "../utils/config";
+import { formatCount, formatPercent, formatUsd } from "../utils/format";
+import {
+  INTERNAL_ERROR,
+  INVALID_PARAMS,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  METHOD_NOT_FOUND,
+  rpcError,
+  rpcResult,
+} from "../utils/jsonRpc";
+import { AgentProfile, AgentStats } from "../types";
+import { getA2aUrl, getImageUrl } from "./agentCatalog";
+import { getAgentTool } from "./agentTools";
+import { getStats } from "./statsService";
+
+export const A2A_PROTOCOL_VERSION = "0.3.0";
+
+export const A2A_AGENT_VERSION = "1.0.0";
+
+// A2A error codes (https://a2a-protocol.org/latest/specification/)
+const TASK_NOT_FOUND = -32001;
+const UNSUPPORTED_OPERATION = -32004;
+
+/**
+ * An A2A skill and the read-only tool that answers it. `keywords`
+ * pick the skill for plain-text messages that do not name one; messages
+ * matching none get stats.
+ */
+interface A2aSkill {
+  id: string;
+  name: string;
+  description: string;
+  tags: string[];
+  examples: string[];
+  tool: string;
+  keywords: RegExp;
+  summarize(agent: AgentProfile, stats: AgentStats): string;
+}
+
+/** The parts of an incoming A2A message this agent reads */
+interface A2aMessage {
+  parts: Array<{ kind?: string; text?: unknown }>;
+  contextId?: string;
+  metadata?: { skillId?: string };
+}
+
+const SKILLS: A2aSkill[] = [
+  {
+    id: "vault-deposit-info",
+    name: "Vault deposit info",
+    description:
+      "How deposits work: the agent's vaults, their TVL, deposits and withdrawals, current APY and where to deposit.",
+    tags: ["defi", "vaults", "deposits"],
+    examples: ["How do I deposit?", "How many vaults are there?"],
+    tool: "get_vault_summary",
+    keywords: /deposit|vault|withdraw/i,
+    summarize: (agent, stats) =>
+      `${formatCount(stats.totalVaults)} vaults (${formatCount(
+        stats.activeVaults
+      )} active) hold ${formatUsd(stats.tvl)} at ${formatPercent(
+        stats.avgApy
+      )} average APY. Deposit at ${config.websiteUrl}.`,
+  },
+  {
+    id: "strategy-description",
+    name: "Strategy description",
+    description:
+      "What the agent does: the protocols it allocates to, how often it rebalances and its current status.",
+    tags: ["defi", "strategy", "yield"],
+    examples: ["What is your strategy?", "Which protocols do you use?"],
+    tool: "get_strategy",
+    keywords: /strateg|protocol|how does|rebalanc|what do you/i,
+    summarize: (agent) => agent.description,
+  },
+  {
+    id: "stats-query",
+    name: "Stats query",
+    description:
+      "Live performance stats: TVL, APY, vault counts, rebalances, uptime and reputation, with their data quality.",
+    tags: ["defi", "stats", "performance"],
+    examples: ["What is your TVL?", "What APY are you earning?"],
+    tool: "get_stats",
+    keywords: /tvl|apy|stat|uptime|perform|earn/i,
+    summarize: (agent, stats) =>
+      `TVL ${formatUsd(stats.tvl)}, average APY ${formatPercent(
+        stats.avgApy
+      )}, ${formatCount(
+        stats.totalRebalances
+      )} rebalances, uptime (30d) ${formatPercent(stats.uptime)}.`,
+  },
+];
+
+/**
+ * The agent's A2A agent card, as served at
+ * /erc8004/a2a/agent-card.json and advertised in the registration.
+ */
+export function buildAgentCard(agent: AgentProfile) {
+  return {
+    protocolVersion: A2A_PROTOCOL_VERSION,
+    name: agent.name,
+    description: agent.description,
+    url: getA2aUrl(agent),
+    preferredTransport: "JSONRPC",
+    version: A2A_AGENT_VERSION,
+    iconUrl: getImageUrl(agent),
+    provider: { organization: agent.name, url: config.websiteUrl },
+    capabilities: {
+      streaming: false,
+      pushNotifications: false,
+      stateTransitionHistory: false,
+    },
+    defaultInputModes: ["text/plain", "application/json"],
+    defaultOutputModes: ["application/json", "text/plain"],
+    skills: SKILLS.map(({ id, name, description, tags, examples }) => ({
+      id,
+      name,
+      description,
+      tags,
+      examples,
+    })),
+  };
+}
+
+/**
+ * Answers one A2A JSON-RPC request. Only `message/send` is supported:
+ * the reply is a single message with a text summary and the skill's
+ * data, never a task. The skill is `metadata.skillId` of the params or
+ * message, or picked from the message text. Returns null for
+ * notifications.
+ */
+export async function handleA2aRequest(
+  agent: AgentProfile,
+  request: JsonRpcRequest
+): Promise<JsonRpcResponse | null> {
+  if (request.id === undefined) return null;
+  const id = request.id;
+  const params = (request.params ?? {}) as {
+    message?: A2aMessage;
+    metadata?: { skillId?: string };
+  };
+
+  switch (request.method) {
+    case "message/send":
+      break;
+    case "message/stream":
+    case "tasks/resubscribe":
+    case "tasks/pushNotificationConfig/set":
+      return rpcError(
+        id,
+        UNSUPPORTED_OPERATION,
+        "This agent only answers message/send"
+      );
+    case "tasks/get":
+    case "tasks/cancel":
+      return rpcError(id, TASK_NOT_FOUND, "This agent does not create tasks");
+    default:
+      return rpcError(
+        id,
+        METHOD_NOT_FOUND,
+        `Unknown method: ${request.method}`
+      );
+  }
+
+  const message = params.message;
+  if (!message || !Array.isArray(message.parts)) {
+    return rpcError(
+      id,
+      INVALID_PARAMS,
+      "params.message with parts is required"
+    );
+  }
+
+  const skillId = params.metadata?.skillId ?? message.metadata?.skillId;
+  const text = message.parts
+    .filter((part) => part?.kind === "text")
+    .map((part) => String(part.text))
+    .join(" ");
+  const skill = skillId
+    ? getSkill(skillId)
+    : SKILLS.find((s) => s.keywords.test(text)) ?? getSkill("stats-query");
+  if (!skill) {
+    return rpcError(id, INVALID_PARAMS, `Unknown skill: ${skillId}`);
+  }
+
+  let data: unknown;
+  let summary: string;
+  try {
+    data = await getAgentTool(skill.tool)!.run(agent, {});
+    summary = skill.summarize(agent, await getStats(agent));
+  } catch (error) {
+    console.error("  Failed to answer A2A message:", error);
+    return rpcError(id, INTERNAL_ERROR, (error as Error).message);
+  }
+
+  return rpcResult(id, {
+    kind: "message",
+    role: "agent",
+    messageId: crypto.randomUUID(),
+    ...(message.contextId ? { contextId: message.contextId } : {}),
+    parts: [
+      { kind: "text", text: summary },
+      { kind: "data", data },
+    ],
+    metadata: { skillId: skill.id },
+  });
+}
+
+function getSkill(id: string): A2aSkill | undefined {
+  return SKILLS.find((skill) => skill.id === id);
+}
@@ -0,0 +1,334 @@
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { createStore } from "../utils/store";
+import { REGISTRY_ABI } from "../utils/registryAbi";
+import { listAgents } from "./agentCatalog";
+
+/**
+ * Admin roles, each including the ones before it:
+ * - read: updater history and status, the audit log
+ * - operate: pause/resume the updater, issue feedbackAuths, request
+ *   validations (off-chain actions)
+ * - transact: run jobs that send transactions (force-update)
+ */
+export type AdminRole = "read" | "operate" | "transact";
+
+export const ADMIN_ROLES: AdminRole[] = ["read", "operate", "transact"];
+
+export type SignInScheme = "siwe" | "eip712";
+
+export interface AdminChallenge {
+  address: string;
+  nonce: string;
+  issuedAt: string;
+  expiresAt: string;
+  // EIP-4361 (Sign-In with Ethereum) message for personal_sign
+  message: string;
+  // The same challenge as EIP-712 data for eth_signTypedData_v4
+  typedData: {
+    domain: ethers.TypedDataDomain;
+    types: Record<string, ethers.TypedDataField[]>;
+    primaryType: string;
+    message: Record<string, string>;
+  };
+}
+
+export interface AdminSession {
+  actor: string; // checksummed wallet address, or "api-key"
+  role: AdminRole;
+  scheme: SignInScheme | "api-key";
+  expiresAt: string | null;
+}
+
+type StoredSession = AdminSession & { expiresAt: string };
+
+interface PendingChallenge {
+  address: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+// Sessions are stored by the keccak256 of their token. The store is
+// held in memory once read, so it serves one process per DATA_DIR
+const store = createStore("admin-auth", () => ({
+  challenges: {} as Record<string, PendingChallenge>,
+  sessions: {} as Record<string, StoredSession>,
+}));
+
+const CHALLENGE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const MAX_CHALLENGES = 1000;
+
+const TYPED_DATA_TYPES = {
+  AdminSignIn: [
+    { name: "wallet", type: "address" },
+    { name: "uri", type: "string" },
+    { name: "nonce", type: "string" },
+    { name: "issuedAt", type: "string" },
+    { name: "expiresAt", type: "string" },
+  ],
+};
+
+let registry: ethers.Contract;
+let wallets: Map<string, AdminRole> | null = null; // parsed ADMIN_WALLETS
+
+function setupRegistry(): boolean {
+  if (registry) return true;
+  if (!config.registryAddress) return false;
+
+  registry = new ethers.Contract(
+    config.registryAddress,
+    REGISTRY_ABI,
+    new ethers.JsonRpcProvider(config.rpcUrl)
+  );
+  return true;
+}
+
+/**
+ * Whether anyone can use the admin API: an API key, ADMIN_WALLETS, or
+ * registry owners and operators with a role.
+ */
+export function isAdminConfigured(): boolean {
+  return (
+    !!config.adminApiKey ||
+    getConfiguredWallets().size > 0 ||
+    (!!config.registryAddress &&
+      (parseRole(config.adminOwnerRole) !== null ||
+        parseRole(config.adminOperatorRole) !== null))
+  );
+}
+
+export function parseRole(value: unknown): AdminRole | null {
+  return ADMIN_ROLES.includes(value as AdminRole) ? (value as AdminRole) : null;
+}
+
+export function hasRole(granted: AdminRole, required: AdminRole): boolean {
+  return ADMIN_ROLES.indexOf(granted) >= ADMIN_ROLES.indexOf(required);
+}
+
+/**
+ * Issues a single-use challenge for `address` to sign, valid for ten
+ * minutes. Throws on an invalid address.
+ */
+export function createChallenge(address: string): AdminChallenge {
+  if (!ethers.isAddress(address)) {
+    throw new Error("Invalid address");
+  }
+
+  const now = Date.now();
+  const pending: PendingChallenge = {
+    address: ethers.getAddress(address),
+    issuedAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + CHALLENGE_TTL_MS).toISOString(),
+  };
+  const nonce = ethers.hexlify(ethers.randomBytes(16)).slice(2);
+
+  store.update((data) => {
+    pruneExpired(data, now);
+    data.challenges[nonce] = pending;
+    const nonces = Object.keys(data.challenges);
+    for (const old of nonces.slice(0, nonces.length - MAX_CHALLENGES)) {
+      delete data.challenges[old];
+    }
+  });
+
+  return { nonce, ...pending, ...buildMessages(nonce, pending) };
+}
+
+/**
+ * Exchanges a signed challenge for a session token. The challenge is
+ * consumed whether or not the signature checks out. Throws when the
+ * challenge is unknown or expired or the signature is not from
+ * `address`; returns null when the address holds no admin role.
+ *
+ * The role is resolved at sign-in and kept for the session, so a
+ * registry owner who transfers the agent keeps access until the session
+ * expires (ADMIN_SESSION_TTL_HOURS).
+ */
+export async function createSession(params: {
+  address: string;
+  nonce: string;
+  signature: string;
+  scheme: SignInScheme;
+}): Promise<{ token: string; session: AdminSession } | null> {
+  const pending = store.read().challenges[params.nonce];
+  if (pending) {
+    store.update((data) => {
+      delete data.challenges[params.nonce];
+    });
+  }
+  if (!pending || Date.parse(pending.expiresAt) < Date.now()) {
+    throw new Error("Unknown or expired challenge");
+  }
+  if (
+    !ethers.isAddress(params.address) ||
+    ethers.getAddress(params.address) !== pending.address
+  ) {
+    throw new Error("Challenge was issued to another address");
+  }
+
+  const { message, typedData } = buildMessages(params.nonce, pending);
+  let signer: string;
+  try {
+    signer =
+      params.scheme === "eip712"
+        ? ethers.verifyTypedData(
+            typedData.domain,
+            TYPED_DATA_TYPES,
+            typedData.message,
+            params.signature
+          )
+        : ethers.verifyMessage(message, params.signature);
+  } catch {
+    throw new Error("Malformed signature");
+  }
+  if (signer !== pending.address) {
+    throw new Error("Signature does not match address");
+  }
+
+  const role = await resolveRole(pending.address);
+  if (!role) return null;
+
+  const token = ethers.hexlify(ethers.randomBytes(32));
+  const session: StoredSession = {
+    actor: pending.address,
+    role,
+    scheme: params.scheme,
+    expiresAt: new Date(
+      Date.now() + config.adminSessionTtlHours * 3600 * 1000
+    ).toISOString(),
+  };
+  store.update((data) => {
+    pruneExpired(data, Date.now());
+    data.sessions[ethers.keccak256(token)] = session;
+  });
+
+  return { token, session };
+}
+
+/**
+ * The live session for a bearer token, or undefined.
+ */
+export function getSession(token: string): AdminSession | undefined {
+  if (!ethers.isHexString(token, 32)) return undefined;
+  const session = store.read().sessions[ethers.keccak256(token)];
+  if (!session || Date.parse(session.expiresAt) < Date.now()) return undefined;
+  return session;
+}
+
+export function revokeSession(token: string): void {
+  if (!ethers.isHexString(token, 32)) return;
+  store.update((data) => {
+    delete data.sessions[ethers.keccak256(token)];
+  });
+}
+
+/**
+ * The highest role `address` holds: from ADMIN_WALLETS, and as the
+ * owner (ADMIN_OWNER_ROLE) or an approved operator (ADMIN_OPERATOR_ROLE)
+ * of any agent in the catalog. Null when it holds none.
+ */
+export async function resolveRole(address: string): Promise<AdminRole | null> {
+  const roles: AdminRole[] = [];
+  const configured = getConfiguredWallets().get(address);
+  if (configured) roles.push(configured);
+
+  const ownerRole = parseRole(config.adminOwnerRole);
+  const operatorRole = parseRole(config.adminOperatorRole);
+  if ((ownerRole || operatorRole) && setupRegistry()) {
+    for (const agent of listAgents()) {
+      try {
+        const owner = ethers.getAddress(await registry.ownerOf(agent.agentId));
+        if (owner === address) {
+          if (ownerRole) roles.push(ownerRole);
+          continue;
+        }
+        if (!operatorRole) continue;
+
+        const approved = ethers.getAddress(
+          await registry.getApproved(agent.agentId)
+        );
+        if (
+          approved === address ||
+          (await registry.isApprovedForAll(owner, address))
+        ) {
+          roles.push(operatorRole);
+        }
+      } catch (error) {
+        console.error(
+          `  Failed to read owner of agent #${agent.agentId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  if (roles.length === 0) return null;
+  return roles.reduce((best, role) => (hasRole(best, role) ? best : role));
+}
+
+/**
+ * ADMIN_WALLETS as checksummed address → role, e.g.
+ * "0xabc…:transact,0xdef…:read". An address without a role gets read.
+ * Entries are validated with the config.
+ */
+function getConfiguredWallets(): Map<string, AdminRole> {
+  if (wallets) return wallets;
+
+  wallets = new Map<string, AdminRole>();
+  for (const entry of config.adminWallets.split(",")) {
+    if (!entry.trim()) continue;
+    const [address, role = "read"] = entry.trim().split(":");
+    wallets.set(ethers.getAddress(address), role as AdminRole);
+  }
+  return wallets;
+}
+
+function buildMessages(
+  nonce: string,
+  pending: PendingChallenge
+): Pick<AdminChallenge, "message" | "typedData"> {
+  const message = [
+    `${
+      new URL(config.baseUrl).host
+    } wants you to sign in with your Ethereum account:`,
+    pending.address,
+    ``,
+    `Sign in to the ERC-8004 agent admin API.`,
+    ``,
+    `URI: ${config.baseUrl}`,
+    `Version: 1`,
+    `Chain ID: ${config.chainId}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${pending.issuedAt}`,
+    `Expiration Time: ${pending.expiresAt}`,
+  ].join("\n");
+
+  return {
+    message,
+    typedData: {
+      domain: {
+        name: "ERC-8004 Agent Admin",
+        version: "1",
+        chainId: config.chainId,
+      },
+      types: TYPED_DATA_TYPES,
+      primaryType: "AdminSignIn",
+      message: {
+        wallet: pending.address,
+        uri: config.baseUrl,
+        nonce,
+        issuedAt: pending.issuedAt,
+        expiresAt: pending.expiresAt,
+      },
+    },
+  };
+}
+
+function pruneExpired(data: ReturnType<typeof store.read>, now: number): void {
+  for (const [nonce, challenge] of Object.entries(data.challenges)) {
+    if (Date.parse(challenge.expiresAt) < now) delete data.challenges[nonce];
+  }
+  for (const [key, session] of Object.entries(data.sessions)) {
+    if (Date.parse(session.expiresAt) < now) delete data.sessions[key];
+  }
+}
@@ -0,0 +1,150 @@
+import fs from "fs";
+import { config } from "../utils/config";
+import { AgentProfile } from "../types";
+
+let catalog: AgentProfile[] | null = null;
+
+/**
+ * Returns every agent this backend serves, in catalog order.
+ *
+ * The catalog is read once from AGENTS_JSON or AGENTS_FILE. Each entry
+ * needs an `agentId` and may set `card` defaults ({ layout, theme,
+ * tiles }) for its SVG card; missing fields fall back to the single-agent
+ * settings (AGENT_NAME, STATS_API_URL, ...). Without a catalog, the
+ * single-agent settings describe the only agent.
+ */
+export function listAgents(): AgentProfile[] {
+  if (!catalog) {
+    catalog = loadCatalog();
+  }
+  return catalog;
+}
+
+/**
+ * Looks up an agent by its registry token ID.
+ */
+export function getAgent(agentId: number): AgentProfile | undefined {
+  return listAgents().find((agent) => agent.agentId === agentId);
+}
+
+/**
+ * The agent served by the legacy single-agent routes
+ * (/erc8004/metadata, /erc8004/image.svg). This is AGENT_ID when it is
+ * in the catalog, otherwise the first catalog entry.
+ */
+export function getDefaultAgent(): AgentProfile {
+  const agents = listAgents();
+  return getAgent(config.agentId) ?? agents[0];
+}
+
+/**
+ * Public metadata URL for an agent. The default agent keeps the
+ * original single-agent path so existing tokenURIs stay valid.
+ */
+export function getMetadataUrl(agent: AgentProfile): string {
+  return agent.agentId === getDefaultAgent().agentId
+    ? `${config.baseUrl}/erc8004/metadata`
+    : `${config.baseUrl}/erc8004/agents/${agent.agentId}/metadata`;
+}
+
+/**
+ * Public image URL for an agent (see getMetadataUrl), in the format
+ * chosen by IMAGE_FORMAT (svg, png or webp).
+ */
+export function getImageUrl(agent: AgentProfile): string {
+  const file = `image.${config.imageFormat}`;
+  return agent.agentId === getDefaultAgent().agentId
+    ? `${config.baseUrl}/erc8004/${file}`
+    : `${config.baseUrl}/erc8004/agents/${agent.agentId}/${file}`;
+}
+
+/**
+ * Public reputation summary URL for an agent (see getMetadataUrl).
+ */
+export function getReputationUrl(agent: AgentProfile): string {
+  return agent.agentId === getDefaultAgent().agentId
+    ? `${config.baseUrl}/erc8004/reputation`
+    : `${config.baseUrl}/erc8004/agents/${agent.agentId}/reputation`;
+}
+
+/**
+ * Public validation status URL for an agent (see getMetadataUrl).
+ */
+export function getValidationUrl(agent: AgentProfile): string {
+  return agent.agentId === getDefaultAgent().agentId
+    ? `${config.baseUrl}/erc8004/validation`
+    : `${config.baseUrl}/erc8004/agents/${agent.agentId}/validation`;
+}
+
+/**
+ * Public A2A JSON-RPC endpoint URL for an agent (see getMetadataUrl).
+ * Its agent card is served at <url>/agent-card.json.
+ */
+export function getA2aUrl(agent: AgentProfile): string {
+  return agent.agentId === getDefaultAgent().agentId
+    ? `${config.baseUrl}/erc8004/a2a`
+    : `${config.baseUrl}/erc8004/agents/${agent.agentId}/a2a`;
+}
+
+/**
+ * Public MCP endpoint URL for an agent (see getMetadataUrl).
+ */
+export function getMcpUrl(agent: AgentProfile): string {
+  return agent.agentId === getDefaultAgent().agentId
+    ? `${config.baseUrl}/erc8004/mcp`
+    : `${config.baseUrl}/erc8004/agents/${agent.agentId}/mcp`;
+}
+
+function loadCatalog(): AgentProfile[] {
+  const raw = config.agentsJson
+    ? config.agentsJson
+    : config.agentsFile
+    ? fs.readFileSync(config.agentsFile, "utf8")
+    : "";
+
+  if (!raw) {
+    return [toProfile({ agentId: config.agentId })];
+  }
+
+  const entries = JSON.parse(raw);
+  if (!Array.isArray(entries) || entries.length === 0) {
+    throw new Error("Agent catalog must be a non-empty JSON array");
+  }
+
+  const agents = entries.map(toProfile);
+  const seen = new Set<number>();
+  for (const agent of agents) {
+    if (seen.has(agent.agentId)) {
+      throw new Error(`Duplicate agent ID in catalog: ${agent.agentId}`);
+    }
+    seen.add(agent.agentId);
+  }
+
+  return agents;
+}
+
+function toProfile(entry: Partial<AgentProfile>): AgentProfile {
+  const agentId = Number(entry.agentId);
+  if (!Number.isInteger(agentId) || agentId < 0) {
+    throw new Error(`Invalid agent ID in catalog: ${entry.agentId}`);
+  }
+
+  return {
+    agentId,
+    name: entry.name || config.agentName,
+    wallet: entry.wallet || config.agentWallet,
+    statsApiUrl: entry.statsApiUrl || config.statsApiUrl,
+    description:
+      entry.description || config.agentDescription || defaultDescription(),
+    card: entry.card,
+  };
+}
+
+function defaultDescription(): string {
+  return [
+    `Non-custodial DeFAI yield agent on ${config.chainName}.`,
+    `Deploys individual USDC vaults via factory contracts,`,
+    `allocates across Morpho lending pools and Aerodrome LP positions,`,
+    `auto-rebalances every ${config.rebalanceIntervalHours} hours, and compounds Merkl rewards.`,
+  ].join("\n");
+}
@@ -0,0 +1,126 @@
+import { config } from "../utils/config";
+import { formatStats } from "../utils/format";
+import { AgentProfile } from "../types";
+import { getStats } from "./statsService";
+import { isVaultFactoryConfigured, listVaults } from "./vaultFactory";
+
+/**
+ * A read-only tool over an agent's live stats, served by the MCP
+ * endpoint and behind the A2A skills. `inputSchema` is the JSON Schema
+ * of its arguments; `run` throws on invalid arguments.
+ */
+export interface AgentTool {
+  name: string;
+  title: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+  run(agent: AgentProfile, args: Record<string, unknown>): Promise<unknown>;
+}
+
+const NO_ARGUMENTS = {
+  type: "object",
+  properties: {},
+  additionalProperties: false,
+};
+
+export const AGENT_TOOLS: AgentTool[] = [
+  {
+    name: "get_stats",
+    title: "Live stats",
+    description:
+      "Live stats of the agent: TVL, vaults, APY, rebalances, uptime, reputation and data quality. Raw numbers by default, or formatted for a locale.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: { type: "string", enum: ["raw", "display"] },
+        locale: { type: "string", description: "BCP 47 tag, e.g. de-DE" },
+      },
+      additionalProperties: false,
+    },
+    async run(agent, args) {
+      const format = args.format ?? "raw";
+      if (format !== "raw" && format !== "display") {
+        throw new Error("format must be raw or display");
+      }
+      const locale =
+        args.locale !== undefined ? String(args.locale) : undefined;
+
+      const stats = await getStats(agent);
+      return {
+        agentId: agent.agentId,
+        format,
+        stats: format === "display" ? formatStats(stats, { locale }) : stats,
+      };
+    },
+  },
+  {
+    name: "get_protocols",
+    title: "Protocols used",
+    description:
+      "DeFi protocols the agent currently allocates to, with the chain they are on.",
+    inputSchema: NO_ARGUMENTS,
+    async run(agent) {
+      const stats = await getStats(agent);
+      return {
+        agentId: agent.agentId,
+        chain: config.chainName,
+        chainId: config.chainId,
+        protocols: stats.protocolsUsed,
+        lastUpdated: stats.lastUpdated,
+      };
+    },
+  },
+  {
+    name: "get_vault_summary",
+    title: "Vault summary",
+    description:
+      "How vaults are deployed and how much they hold: TVL, vault counts, deposits, withdrawals, APY, the vault factory and where to deposit.",
+    inputSchema: NO_ARGUMENTS,
+    async run(agent) {
+      const stats = await getStats(agent);
+      return {
+        agentId: agent.agentId,
+        chain: config.chainName,
+        chainId: config.chainId,
+        tvl: stats.tvl,
+        totalVaults: stats.totalVaults,
+        activeVaults: stats.activeVaults,
+        totalDeposited: stats.totalDeposited,
+        totalWithdrawn: stats.totalWithdrawn,
+        avgApy: stats.avgApy,
+        vaultFactory: isVaultFactoryConfigured()
+          ? {
+              address: config.vaultFactoryAddress,
+              indexedVaults: listVaults().length,
+            }
+          : null,
+        depositUrl: config.websiteUrl,
+        lastUpdated: stats.lastUpdated,
+      };
+    },
+  },
+  {
+    name: "get_strategy",
+    title: "Strategy",
+    description:
+      "What the agent does: its description, the protocols it uses and how often it rebalances.",
+    inputSchema: NO_ARGUMENTS,
+    async run(agent) {
+      const stats = await getStats(agent);
+      return {
+        agentId: agent.agentId,
+        name: agent.name,
+        description: agent.description,
+        protocols: stats.protocolsUsed,
+        rebalanceIntervalHours: config.rebalanceIntervalHours,
+        lastRebalanceAt: stats.lastRebalanceAt,
+        status: stats.liveness.status,
+        onchainProof: config.duneUrl,
+      };
+    },
+  },
+];
+
+export function getAgentTool(name: string): AgentTool | undefined {
+  return AGENT_TOOLS.find((tool) => tool.name === name);
+}
@@ -0,0 +1,132 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { AdminRole } from "./adminAuthService";
+
+export interface AuditEntry {
+  id: number;
+  at: string;
+  actor: string; // wallet address or "api-key"
+  role: AdminRole | null;
+  action: string; // method and path, e.g. "POST /erc8004/admin/force-update"
+  params: Record<string, unknown>; // query and body, secrets redacted
+  status: number; // HTTP status of the response
+  ip: string | null;
+  // Hash chain: each entry commits to the one before it
+  prevHash: string;
+  hash: string;
+}
+
+type AuditInput = Omit<AuditEntry, "id" | "at" | "prevHash" | "hash">;
+
+// Parameters never written to the log
+const SECRET_PARAM = /signature|token|key|secret|password/i;
+
+const GENESIS_HASH = ethers.ZeroHash;
+
+const filePath = path.join(config.dataDir, "admin-audit.jsonl");
+
+/**
+ * Appends an entry to the audit log, a JSON Lines file under DATA_DIR
+ * that is only ever appended to. Each entry carries the hash of the
+ * previous one, so an edited or removed entry (other than the newest)
+ * breaks the chain that verifyAuditLog() checks.
+ *
+ * The chain continues from the last entry in the file, not one held in
+ * memory, but appends are not locked: one server process per DATA_DIR
+ * writes the log.
+ */
+export function recordAudit(input: AuditInput): AuditEntry {
+  const entries = readEntries();
+  const last = entries[entries.length - 1];
+  const tail = last
+    ? { id: last.id, hash: last.hash }
+    : { id: 0, hash: GENESIS_HASH };
+
+  const unhashed = {
+    id: tail.id + 1,
+    at: new Date().toISOString(),
+    ...input,
+    params: redact(input.params),
+    prevHash: tail.hash,
+  };
+  const entry: AuditEntry = { ...unhashed, hash: hashEntry(unhashed) };
+
+  fs.mkdirSync(config.dataDir, { recursive: true });
+  fs.appendFileSync(filePath, JSON.stringify(entry) + "\n");
+  return entry;
+}
+
+/**
+ * Audit entries, newest first, optionally filtered by actor (case
+ * insensitive) and by a substring of the action.
+ */
+export function listAudit(
+  options: {
+    actor?: string;
+    action?: string;
+    since?: string;
+    limit?: number;
+  } = {}
+): AuditEntry[] {
+  const { actor, action, since, limit = 100 } = options;
+  return readEntries()
+    .filter(
+      (entry) =>
+        (!actor || entry.actor.toLowerCase() === actor.toLowerCase()) &&
+        (!action || entry.action.includes(action)) &&
+        (!since || entry.at >= since)
+    )
+    .reverse()
+    .slice(0, limit);
+}
+
+/**
+ * Recomputes the hash chain. Returns the id of the first entry whose
+ * hash or link does not match, or null when the log is intact.
+ */
+export function verifyAuditLog(): {
+  valid: boolean;
+  entries: number;
+  firstInvalidId: number | null;
+} {
+  const entries = readEntries();
+  let prevHash = GENESIS_HASH;
+
+  for (const entry of entries) {
+    const { hash, ...unhashed } = entry;
+    if (entry.prevHash !== prevHash || hashEntry(unhashed) !== hash) {
+      return {
+        valid: false,
+        entries: entries.length,
+        firstInvalidId: entry.id,
+      };
+    }
+    prevHash = hash;
+  }
+
+  return { valid: true, entries: entries.length, firstInvalidId: null };
+}
+
+function readEntries(): AuditEntry[] {
+  if (!fs.existsSync(filePath)) return [];
+  return fs
+    .readFileSync(filePath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as AuditEntry);
+}
+
+function hashEntry(entry: Omit<AuditEntry, "hash">): string {
+  return ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify(entry)));
+}
+
+function redact(params: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(params).map(([name, value]) => [
+      name,
+      SECRET_PARAM.test(name) ? "[redacted]" : value,
+    ])
+  );
+}
@@ -0,0 +1,99 @@
+import { CardLayoutName, CardTile } from "../types";
+
+/**
+ * Geometry of the SVG agent card. Sections are stacked top to bottom
+ * from `padding`; the footer is anchored to the bottom edge.
+ */
+export interface CardLayout {
+  width: number;
+  height: number;
+  padding: number;
+  radius: number;
+  eyebrowSize: number; // 0 hides the "ERC-8004 AGENT IDENTITY" line
+  titleSize: number;
+  badgeRows: number; // rows available for chain + protocol badges
+  tileColumns: number;
+  tileHeight: number;
+  tileGap: number;
+  tileLabelSize: number;
+  tileValueSize: number;
+  maxTiles: number;
+  defaultTiles: CardTile[];
+  showProof: boolean; // on-chain proof link, rebalance cycle, reputation
+  showFooter: boolean; // agent ID, registry and last-updated lines
+}
+
+export const CARD_LAYOUTS: Record<CardLayoutName, CardLayout> = {
+  // The original 800x500 card
+  full: {
+    width: 800,
+    height: 500,
+    padding: 40,
+    radius: 16,
+    eyebrowSize: 14,
+    titleSize: 28,
+    badgeRows: 1,
+    tileColumns: 3,
+    tileHeight: 80,
+    tileGap: 15,
+    tileLabelSize: 12,
+    tileValueSize: 28,
+    maxTiles: 6,
+    defaultTiles: [
+      "tvl",
+      "vaults",
+      "apy",
+      "rebalances",
+      "rebalances24h",
+      "uptime",
+    ],
+    showProof: true,
+    showFooter: true,
+  },
+
+  // Small badge for embedding next to an agent listing
+  compact: {
+    width: 420,
+    height: 180,
+    padding: 20,
+    radius: 12,
+    eyebrowSize: 0,
+    titleSize: 20,
+    badgeRows: 0,
+    tileColumns: 3,
+    tileHeight: 64,
+    tileGap: 10,
+    tileLabelSize: 10,
+    tileValueSize: 20,
+    maxTiles: 3,
+    defaultTiles: ["tvl", "apy", "uptime"],
+    showProof: false,
+    showFooter: false,
+  },
+
+  square: {
+    width: 800,
+    height: 800,
+    padding: 48,
+    radius: 20,
+    eyebrowSize: 16,
+    titleSize: 36,
+    badgeRows: 2,
+    tileColumns: 2,
+    tileHeight: 100,
+    tileGap: 16,
+    tileLabelSize: 14,
+    tileValueSize: 34,
+    maxTiles: 6,
+    defaultTiles: [
+      "tvl",
+      "apy",
+      "vaults",
+      "uptime",
+      "rebalances",
+      "rebalances24h",
+    ],
+    showProof: true,
+    showFooter: true,
+  },
+};
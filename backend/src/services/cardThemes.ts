@@ -0,0 +1,117 @@
+import { CardThemeName, LivenessStatus } from "../types";
+
+/**
+ * Colour palette of the SVG agent card.
+ */
+export interface CardTheme {
+  background: [string, string, string]; // diagonal gradient stops
+  border: string;
+  borderOpacity: number;
+  tileFrom: string; // tile gradient, left to right
+  tileTo: string;
+  tileOpacity: [number, number];
+  tileStroke?: string;
+  eyebrow: string; // "ERC-8004 AGENT IDENTITY"
+  title: string;
+  label: string; // tile labels and section headings
+  value: string;
+  highlight: string; // APY and other "good" numbers
+  link: string;
+  footer: string;
+  divider: string;
+  chainFill: string;
+  chainText: string;
+  badgeFill: string;
+  badgeText: string;
+  glow: boolean;
+  status: Record<LivenessStatus, string>;
+}
+
+export const CARD_THEMES: Record<CardThemeName, CardTheme> = {
+  // Original ocean/surf look
+  ocean: {
+    background: ["#0a1628", "#0f2847", "#1a3a5c"],
+    border: "#00d4ff",
+    borderOpacity: 0.2,
+    tileFrom: "#00d4ff",
+    tileTo: "#0099ff",
+    tileOpacity: [0.15, 0.08],
+    eyebrow: "#00d4ff",
+    title: "#ffffff",
+    label: "#7eb8d0",
+    value: "#ffffff",
+    highlight: "#00ff88",
+    link: "#00d4ff",
+    footer: "#4a6a80",
+    divider: "#00d4ff",
+    chainFill: "#0052ff",
+    chainText: "#4d9fff",
+    badgeFill: "#00d4ff",
+    badgeText: "#00d4ff",
+    glow: true,
+    status: {
+      healthy: "#00ff88",
+      degraded: "#ffb020",
+      stalled: "#ff4d4d",
+      unknown: "#7eb8d0",
+    },
+  },
+
+  light: {
+    background: ["#ffffff", "#f3f7fb", "#e4edf6"],
+    border: "#0a1628",
+    borderOpacity: 0.12,
+    tileFrom: "#0099ff",
+    tileTo: "#00d4ff",
+    tileOpacity: [0.1, 0.05],
+    eyebrow: "#0066cc",
+    title: "#0a1628",
+    label: "#4a6a80",
+    value: "#0a1628",
+    highlight: "#00995c",
+    link: "#0066cc",
+    footer: "#7a8a99",
+    divider: "#0a1628",
+    chainFill: "#0052ff",
+    chainText: "#0052ff",
+    badgeFill: "#0099ff",
+    badgeText: "#0066cc",
+    glow: false,
+    status: {
+      healthy: "#00995c",
+      degraded: "#b36b00",
+      stalled: "#cc2222",
+      unknown: "#4a6a80",
+    },
+  },
+
+  // Flat black and white with saturated accents for legibility
+  "high-contrast": {
+    background: ["#000000", "#000000", "#000000"],
+    border: "#ffffff",
+    borderOpacity: 1,
+    tileFrom: "#000000",
+    tileTo: "#000000",
+    tileOpacity: [1, 1],
+    tileStroke: "#ffffff",
+    eyebrow: "#ffffff",
+    title: "#ffffff",
+    label: "#ffffff",
+    value: "#ffffff",
+    highlight: "#00ff00",
+    link: "#00ffff",
+    footer: "#ffffff",
+    divider: "#ffffff",
+    chainFill: "#000000",
+    chainText: "#ffffff",
+    badgeFill: "#000000",
+    badgeText: "#ffffff",
+    glow: false,
+    status: {
+      healthy: "#00ff00",
+      degraded: "#ffff00",
+      stalled: "#ff3333",
+      unknown: "#ffffff",
+    },
+  },
+};
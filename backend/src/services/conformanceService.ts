@@ -0,0 +1,582 @@
+import axios from "axios";
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { assertPublicUrl, PUBLIC_AGENTS } from "../utils/publicHost";
+import { REGISTRY_ABI } from "../utils/registryAbi";
+import { AgentProfile } from "../types";
+import { listAgents } from "./agentCatalog";
+import { decodeDataUri, inspectOnchainMetadata } from "./dataUriService";
+import { buildRegistration } from "./registrationBuilder";
+import { getStats } from "./statsService";
+
+/**
+ * One finding of the conformance check. `path` points into the
+ * registration JSON ("services[2].endpoint"), or names the external
+ * check ("image", "tokenURI").
+ */
+export interface ConformanceIssue {
+  severity: "error" | "warning";
+  path: string;
+  code: string;
+  message: string;
+}
+
+export interface ConformanceReport {
+  source: string; // "agent #1" or the checked URI
+  valid: boolean; // No errors (warnings allowed)
+  errors: ConformanceIssue[];
+  warnings: ConformanceIssue[];
+  checkedAt: string;
+}
+
+export interface ConformanceOptions {
+  // Fetch the image and check its content type (default true)
+  checkImage?: boolean;
+}
+
+export const REGISTRATION_TYPE =
+  "https://eips.ethereum.org/EIPS/eip-8004#registration-v1";
+
+const TRUST_MODELS = [
+  "reputation",
+  "crypto-economic",
+  "tee-attestation",
+  "validation",
+];
+
+// Services whose endpoint must be an HTTP(S) URL
+const URL_SERVICES = ["web", "a2a", "mcp", "oasf"];
+
+// CAIP-2 chain ID and CAIP-10 account ID
+const CAIP2 = /^[-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}$/;
+const CAIP10 = /^([-a-z0-9]{3,8}:[-_a-zA-Z0-9]{1,32}):([-.%a-zA-Z0-9]{1,128})$/;
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_DOCUMENT_BYTES = 1024 * 1024;
+
+let provider: ethers.JsonRpcProvider;
+
+/**
+ * Checks a registration JSON against the ERC-8004 registration-v1
+ * format: required fields and their types, CAIP-2/CAIP-10 identifiers,
+ * service endpoint formats, and (unless disabled) that the image is
+ * reachable and is an image.
+ */
+export async function validateRegistration(
+  document: unknown,
+  source: string,
+  options: ConformanceOptions = {}
+): Promise<ConformanceReport> {
+  const issues: ConformanceIssue[] = [];
+  checkSchema(document, issues);
+
+  const image = (document as { image?: unknown } | null)?.image;
+  if (options.checkImage !== false && typeof image === "string" && image) {
+    await checkImage(image, issues);
+  }
+
+  return toReport(source, issues);
+}
+
+/**
+ * Checks the registration this backend serves for an agent: the
+ * format, and that the agent's on-chain tokenURI points back to it
+ * (the checks of GET /metadata/onchain).
+ */
+export async function validateAgent(
+  agent: AgentProfile,
+  options: ConformanceOptions = {}
+): Promise<ConformanceReport> {
+  const registration = buildRegistration(agent, await getStats(agent));
+  const report = await validateRegistration(
+    registration,
+    `agent #${agent.agentId}`,
+    options
+  );
+  const issues = [...report.errors, ...report.warnings];
+
+  if (!registration.agentWallet) {
+    warn(
+      issues,
+      "agentWallet",
+      "missing",
+      "No agent wallet configured or set on-chain"
+    );
+  }
+
+  // Without a registry the CAIP-10 check above already failed
+  if (config.registryAddress) {
+    try {
+      const onchain = await inspectOnchainMetadata(agent);
+      for (const check of onchain.checks.filter((entry) => !entry.ok)) {
+        error(
+          issues,
+          "tokenURI",
+          `onchain-${check.check}`,
+          `On-chain ${onchain.scheme} tokenURI: ${check.message ?? check.check}`
+        );
+      }
+    } catch (err) {
+      error(
+        issues,
+        "tokenURI",
+        "tokenuri-unreadable",
+        `Could not read the on-chain tokenURI: ${(err as Error).message}`
+      );
+    }
+  }
+
+  return toReport(report.source, issues);
+}
+
+/**
+ * Fetches a third-party registration (http(s), ipfs:// through
+ * IPFS_GATEWAY_URL, or data:) and validates it. When it names a
+ * registry on this chain, the agent's tokenURI there must be `uri`.
+ */
+export async function validateAgentUri(
+  uri: string,
+  options: ConformanceOptions = {}
+): Promise<ConformanceReport> {
+  let document: unknown;
+  try {
+    const { data } = await fetchResource(uri);
+    document = JSON.parse(data.toString("utf8"));
+  } catch (err) {
+    return toReport(uri, [
+      {
+        severity: "error",
+        path: "",
+        code: "unreadable",
+        message: `Could not load the registration: ${(err as Error).message}`,
+      },
+    ]);
+  }
+
+  const report = await validateRegistration(document, uri, options);
+  const issues = [...report.errors, ...report.warnings];
+  await checkTokenUri(document, uri, issues);
+  return toReport(uri, issues);
+}
+
+/**
+ * Validates every catalog agent at startup (without the image fetch:
+ * the image is served by this server, which may not be listening yet).
+ * With STARTUP_VALIDATION=fail, throws when any registration has
+ * errors; with "warn" it only logs.
+ */
+export async function runStartupValidation(): Promise<void> {
+  if (config.startupValidation === "off") return;
+
+  let failed = 0;
+  for (const agent of listAgents()) {
+    let report: ConformanceReport;
+    try {
+      report = await validateAgent(agent, { checkImage: false });
+    } catch (error) {
+      console.error(`  Failed to validate agent #${agent.agentId}:`, error);
+      failed++;
+      continue;
+    }
+    for (const issue of [...report.errors, ...report.warnings]) {
+      const log = issue.severity === "error" ? console.error : console.warn;
+      log(
+        `  [${report.source}] ${issue.severity} ${issue.path}: ${issue.message}`
+      );
+    }
+    if (!report.valid) failed++;
+  }
+
+  if (failed > 0 && config.startupValidation === "fail") {
+    throw new Error(
+      `${failed} agent registration(s) failed validation (STARTUP_VALIDATION=fail)`
+    );
+  }
+}
+
+function checkSchema(document: unknown, issues: ConformanceIssue[]): void {
+  if (
+    typeof document !== "object" ||
+    document === null ||
+    Array.isArray(document)
+  ) {
+    error(issues, "", "not-object", "The registration must be a JSON object");
+    return;
+  }
+  const doc = document as Record<string, unknown>;
+
+  if (doc.type !== REGISTRATION_TYPE) {
+    error(issues, "type", "type", `Must be "${REGISTRATION_TYPE}"`);
+  }
+  for (const field of ["name", "description", "image"]) {
+    if (typeof doc[field] !== "string" || !(doc[field] as string).trim()) {
+      error(issues, field, "required", "Must be a non-empty string");
+    }
+  }
+  if (typeof doc.image === "string" && doc.image) {
+    checkUri(doc.image, "image", issues, ["https:", "http:", "ipfs:", "data:"]);
+  }
+
+  if (!Array.isArray(doc.services)) {
+    error(issues, "services", "required", "Must be an array");
+  } else {
+    if (doc.services.length === 0) {
+      warn(issues, "services", "empty", "Lists no services");
+    }
+    doc.services.forEach((service, i) =>
+      checkService(service, `services[${i}]`, issues)
+    );
+  }
+
+  if (!Array.isArray(doc.registrations) || doc.registrations.length === 0) {
+    error(issues, "registrations", "required", "Must be a non-empty array");
+  } else {
+    doc.registrations.forEach((entry, i) =>
+      checkRegistrationEntry(entry, `registrations[${i}]`, issues)
+    );
+  }
+
+  if (doc.supportedTrust !== undefined) {
+    if (!Array.isArray(doc.supportedTrust)) {
+      error(issues, "supportedTrust", "type", "Must be an array of strings");
+    } else {
+      doc.supportedTrust.forEach((model, i) => {
+        if (!TRUST_MODELS.includes(String(model))) {
+          warn(
+            issues,
+            `supportedTrust[${i}]`,
+            "unknown-trust",
+            `Unknown trust model "${model}"`
+          );
+        }
+      });
+    }
+  }
+
+  if (doc.agentWallet !== undefined) {
+    const wallets = doc.agentWallet;
+    if (
+      typeof wallets !== "object" ||
+      wallets === null ||
+      Array.isArray(wallets)
+    ) {
+      error(
+        issues,
+        "agentWallet",
+        "type",
+        "Must map CAIP-2 chain IDs to addresses"
+      );
+    } else {
+      for (const [chain, address] of Object.entries(wallets)) {
+        const path = `agentWallet["${chain}"]`;
+        if (!CAIP2.test(chain)) {
+          error(issues, path, "caip2", `"${chain}" is not a CAIP-2 chain ID`);
+        }
+        checkAddress(chain, String(address), path, issues);
+      }
+    }
+  }
+
+  for (const field of ["reputation", "validation"]) {
+    const registryId = (doc[field] as { registry?: unknown } | undefined)
+      ?.registry;
+    if (typeof registryId === "string") {
+      checkAccountId(registryId, `${field}.registry`, issues);
+    }
+  }
+}
+
+function checkService(
+  service: unknown,
+  path: string,
+  issues: ConformanceIssue[]
+): void {
+  const { name, endpoint, version } = (service ?? {}) as Record<
+    string,
+    unknown
+  >;
+  if (typeof name !== "string" || !name) {
+    error(issues, `${path}.name`, "required", "Must be a non-empty string");
+  }
+  if (typeof endpoint !== "string" || !endpoint) {
+    error(issues, `${path}.endpoint`, "required", "Must be a non-empty string");
+    return;
+  }
+  if (version !== undefined && typeof version !== "string") {
+    error(issues, `${path}.version`, "type", "Must be a string");
+  }
+
+  const kind = String(name).toLowerCase();
+  if (kind === "ens") {
+    if (!/^([a-z0-9-]+\.)+eth$/i.test(endpoint)) {
+      error(issues, `${path}.endpoint`, "ens", "Must be an ENS name");
+    }
+  } else if (kind === "did") {
+    if (!/^did:[a-z0-9]+:.+/.test(endpoint)) {
+      error(issues, `${path}.endpoint`, "did", "Must be a DID");
+    }
+  } else if (kind === "agentwallet") {
+    checkAccountId(endpoint, `${path}.endpoint`, issues);
+  } else if (
+    URL_SERVICES.includes(kind) ||
+    /^[a-z][a-z0-9+.-]*:\/\//i.test(endpoint)
+  ) {
+    checkUri(endpoint, `${path}.endpoint`, issues, ["https:", "http:"]);
+  } else {
+    warn(
+      issues,
+      `${path}.endpoint`,
+      "unknown-format",
+      "Not a URL, ENS name, DID or CAIP-10 account"
+    );
+  }
+
+  if ((kind === "a2a" || kind === "mcp") && version === undefined) {
+    warn(
+      issues,
+      `${path}.version`,
+      "missing",
+      `${name} services should state the protocol version`
+    );
+  }
+}
+
+function checkRegistrationEntry(
+  entry: unknown,
+  path: string,
+  issues: ConformanceIssue[]
+): void {
+  const { agentRegistry, agentId } = (entry ?? {}) as Record<string, unknown>;
+  if (typeof agentRegistry !== "string") {
+    error(
+      issues,
+      `${path}.agentRegistry`,
+      "required",
+      "Must be a CAIP-10 registry address"
+    );
+  } else {
+    checkAccountId(agentRegistry, `${path}.agentRegistry`, issues);
+  }
+
+  if (typeof agentId === "number") {
+    if (!Number.isSafeInteger(agentId) || agentId < 0) {
+      error(
+        issues,
+        `${path}.agentId`,
+        "agent-id",
+        "Must be a non-negative integer"
+      );
+    }
+  } else if (typeof agentId === "string" && /^\d+$/.test(agentId)) {
+    warn(issues, `${path}.agentId`, "agent-id-string", "Should be a number");
+  } else {
+    error(
+      issues,
+      `${path}.agentId`,
+      "agent-id",
+      "Must be a non-negative integer"
+    );
+  }
+}
+
+// CAIP-10 account ID; for eip155, a valid non-zero address
+function checkAccountId(
+  value: string,
+  path: string,
+  issues: ConformanceIssue[]
+): void {
+  const match = CAIP10.exec(value);
+  if (!match) {
+    error(issues, path, "caip10", `"${value}" is not a CAIP-10 account ID`);
+    return;
+  }
+  checkAddress(match[1], match[2], path, issues);
+}
+
+function checkAddress(
+  chain: string,
+  address: string,
+  path: string,
+  issues: ConformanceIssue[]
+): void {
+  if (!chain.startsWith("eip155:")) return;
+  if (!ethers.isAddress(address)) {
+    error(issues, path, "address", `"${address}" is not an EVM address`);
+  } else if (address === ethers.ZeroAddress) {
+    error(issues, path, "address", "Is the zero address");
+  } else if (
+    address !== address.toLowerCase() &&
+    address !== ethers.getAddress(address)
+  ) {
+    warn(issues, path, "checksum", "Has an invalid EIP-55 checksum");
+  }
+}
+
+function checkUri(
+  value: string,
+  path: string,
+  issues: ConformanceIssue[],
+  schemes: string[]
+): void {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    error(issues, path, "url", `"${value}" is not a URL`);
+    return;
+  }
+
+  if (!schemes.includes(url.protocol)) {
+    error(issues, path, "url-scheme", `Must be ${schemes.join(", ")}`);
+  } else if (url.protocol === "http:") {
+    warn(issues, path, "insecure", "Uses http instead of https");
+  }
+  if (
+    (url.protocol === "http:" || url.protocol === "https:") &&
+    /^(localhost|127\.|10\.|192\.168\.|0\.0\.0\.0|\[::1\])/.test(url.hostname)
+  ) {
+    warn(issues, path, "private-host", "Points at a local or private host");
+  }
+}
+
+async function checkImage(
+  image: string,
+  issues: ConformanceIssue[]
+): Promise<void> {
+  try {
+    const { contentType, data } = await fetchResource(image);
+    if (!/^image\//.test(contentType)) {
+      error(
+        issues,
+        "image",
+        "image-type",
+        `Served as "${contentType}", not an image`
+      );
+    } else if (data.length === 0) {
+      error(issues, "image", "image-empty", "Is empty");
+    }
+  } catch (err) {
+    error(
+      issues,
+      "image",
+      "image-unreachable",
+      `Could not fetch: ${(err as Error).message}`
+    );
+  }
+}
+
+/**
+ * For registrations on a registry of this chain, reads the agent's
+ * tokenURI and checks it is the URI the registration was loaded from.
+ */
+async function checkTokenUri(
+  document: unknown,
+  uri: string,
+  issues: ConformanceIssue[]
+): Promise<void> {
+  const entries = (document as { registrations?: unknown })?.registrations;
+  if (!Array.isArray(entries)) return;
+
+  for (const [i, entry] of entries.entries()) {
+    const match = CAIP10.exec(String(entry?.agentRegistry ?? ""));
+    const path = `registrations[${i}]`;
+    if (!match || !ethers.isAddress(match[2])) continue;
+    if (match[1] !== `eip155:${config.chainId}`) {
+      warn(
+        issues,
+        path,
+        "other-chain",
+        `Cannot check the tokenURI on ${match[1]} (this backend reads eip155:${config.chainId})`
+      );
+      continue;
+    }
+
+    try {
+      provider ??= new ethers.JsonRpcProvider(config.rpcUrl);
+      const registry = new ethers.Contract(match[2], REGISTRY_ABI, provider);
+      const tokenURI: string = await registry.tokenURI(entry.agentId);
+
+      if (tokenURI !== uri) {
+        error(
+          issues,
+          path,
+          "tokenuri-mismatch",
+          `The on-chain tokenURI is ${tokenURI}`
+        );
+      }
+    } catch (err) {
+      error(
+        issues,
+        path,
+        "tokenuri-unreadable",
+        `Could not read the tokenURI: ${(err as Error).message}`
+      );
+    }
+  }
+}
+
+/**
+ * Loads a URI's content: http(s) with a timeout and size cap, ipfs://
+ * through IPFS_GATEWAY_URL, or a data: URI. URIs come from requests and
+ * fetched documents, so hosts (redirect targets included) must be
+ * public.
+ */
+async function fetchResource(
+  uri: string
+): Promise<{ contentType: string; data: Buffer }> {
+  if (uri.startsWith("data:")) {
+    const { mediaType, data } = decodeDataUri(uri);
+    return { contentType: mediaType, data };
+  }
+
+  const url = uri.startsWith("ipfs://")
+    ? `${config.ipfsGatewayUrl}${uri.slice("ipfs://".length)}`
+    : uri;
+  if (!/^https?:\/\//.test(url)) throw new Error("Unsupported URI scheme");
+  assertPublicUrl(url);
+
+  const response = await axios.get<ArrayBuffer>(url, {
+    ...PUBLIC_AGENTS,
+    beforeRedirect: (options) => assertPublicUrl(options.href),
+    timeout: FETCH_TIMEOUT_MS,
+    maxRedirects: 3,
+    maxContentLength: MAX_DOCUMENT_BYTES,
+    responseType: "arraybuffer",
+  });
+  return {
+    contentType: String(response.headers["content-type"] ?? "").split(";")[0],
+    data: Buffer.from(response.data),
+  };
+}
+
+function toReport(
+  source: string,
+  issues: ConformanceIssue[]
+): ConformanceReport {
+  const errors = issues.filter((issue) => issue.severity === "error");
+  return {
+    source,
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((issue) => issue.severity === "warning"),
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+function error(
+  issues: ConformanceIssue[],
+  path: string,
+  code: string,
+  message: string
+): void {
+  issues.push({ severity: "error", path, code, message });
+}
+
+function warn(
+  issues: ConformanceIssue[],
+  path: string,
+  code: string,
+  message: string
+): void {
+  issues.push({ severity: "warning", path, code, message });
+}
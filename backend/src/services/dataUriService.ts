@@ -0,0 +1,263 @@
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { REGISTRY_ABI } from "../utils/registryAbi";
+import { minifySvg, svgDataUri } from "../utils/svgMinify";
+import { AgentProfile, AgentStats } from "../types";
+import { getMetadataUrl } from "./agentCatalog";
+import { buildRegistration } from "./registrationBuilder";
+import { generateAgentCardSvg, resolveCardOptions } from "./svgGenerator";
+import { getSnapshot } from "./snapshotPublisher";
+
+/**
+ * A self-contained tokenURI and what writing it would cost.
+ */
+export interface DataUriBuild {
+  uri: string;
+  bytes: number; // tokenURI length
+  imageBytes: number; // embedded card data: URI length
+  gas: GasEstimate;
+  // Why the URI is over budget (DATA_URI_MAX_BYTES / DATA_URI_MAX_GAS)
+  overBudget: string | null;
+}
+
+/**
+ * Gas for setAgentURI with a given URI, estimated before asking the
+ * node: the intrinsic cost, calldata at 16 gas per non-zero and 4 per
+ * zero byte, and storing the string at 22,100 gas per new slot (the
+ * worst case; overwriting slots costs less).
+ */
+export interface GasEstimate {
+  calldata: number;
+  storage: number;
+  total: number;
+}
+
+export interface OnchainCheck {
+  check: string;
+  ok: boolean;
+  message?: string;
+}
+
+export interface OnchainMetadata {
+  agentId: number;
+  scheme: "data" | "http" | "ipfs" | "other";
+  // The tokenURI; data: URIs are summarized, their content is decoded
+  uri: string;
+  bytes: number;
+  registration: unknown;
+  image: { mediaType: string; bytes: number } | null;
+  checks: OnchainCheck[];
+  valid: boolean;
+}
+
+const TX_BASE_GAS = 21_000;
+const SSTORE_NEW_SLOT_GAS = 22_100;
+
+const registryInterface = new ethers.Interface(REGISTRY_ABI);
+let registry: ethers.Contract;
+
+function setupRegistry(): boolean {
+  if (registry) return true;
+  if (!config.registryAddress) return false;
+
+  registry = new ethers.Contract(
+    config.registryAddress,
+    REGISTRY_ABI,
+    new ethers.JsonRpcProvider(config.rpcUrl)
+  );
+  return true;
+}
+
+/**
+ * Builds a data:application/json;base64 tokenURI with the registration
+ * JSON and, as its image, the minified card in DATA_URI_CARD_LAYOUT
+ * (compact by default) as an SVG data: URI.
+ */
+export function buildDataUri(
+  agent: AgentProfile,
+  stats: AgentStats
+): DataUriBuild {
+  const svg = generateAgentCardSvg(
+    agent,
+    stats,
+    resolveCardOptions(agent, { layout: config.dataUriCardLayout })
+  );
+  const image = svgDataUri(minifySvg(svg));
+
+  const registration = { ...buildRegistration(agent, stats), image };
+  const uri = `data:application/json;base64,${Buffer.from(
+    JSON.stringify(registration)
+  ).toString("base64")}`;
+  const gas = estimateUriGas(agent.agentId, uri);
+
+  let overBudget: string | null = null;
+  if (uri.length > config.dataUriMaxBytes) {
+    overBudget = `${uri.length} bytes is over DATA_URI_MAX_BYTES (${config.dataUriMaxBytes})`;
+  } else if (gas.total > config.dataUriMaxGas) {
+    overBudget = `~${gas.total} gas is over DATA_URI_MAX_GAS (${config.dataUriMaxGas})`;
+  }
+
+  return {
+    uri,
+    bytes: uri.length,
+    imageBytes: image.length,
+    gas,
+    overBudget,
+  };
+}
+
+export function estimateUriGas(agentId: number, uri: string): GasEstimate {
+  const data = ethers.getBytes(
+    registryInterface.encodeFunctionData("setAgentURI", [agentId, uri])
+  );
+  const calldata = data.reduce((gas, byte) => gas + (byte ? 16 : 4), 0);
+
+  // Strings over 31 bytes take a length slot plus one slot per 32 bytes
+  const bytes = Buffer.byteLength(uri);
+  const slots = bytes > 31 ? 1 + Math.ceil(bytes / 32) : 1;
+  const storage = slots * SSTORE_NEW_SLOT_GAS;
+
+  return { calldata, storage, total: TX_BASE_GAS + calldata + storage };
+}
+
+/**
+ * Decodes a data: URI (base64 or percent-encoded). Throws when `uri`
+ * is not one.
+ */
+export function decodeDataUri(uri: string): {
+  mediaType: string;
+  data: Buffer;
+} {
+  const match = /^data:([^,]*),(.*)$/s.exec(uri);
+  if (!match) throw new Error("Not a data: URI");
+
+  const params = match[1].split(";");
+  const base64 = params[params.length - 1] === "base64";
+  const mediaType = (base64 ? params.slice(0, -1) : params)[0] || "text/plain";
+  return {
+    mediaType,
+    data: base64
+      ? Buffer.from(match[2], "base64")
+      : Buffer.from(decodeURIComponent(match[2]), "utf8"),
+  };
+}
+
+/**
+ * A data: URI as "data:<type>;base64,… (N bytes, keccak 0x…)", for logs
+ * and stored history. Other URIs are returned as they are.
+ */
+export function summarizeUri(uri: string): string {
+  if (!uri.startsWith("data:")) return uri;
+  return `${uri.slice(0, uri.indexOf(",") + 1)}… (${
+    uri.length
+  } bytes, keccak ${ethers.id(uri).slice(0, 18)})`;
+}
+
+/**
+ * Reads an agent's tokenURI from the registry and checks it:
+ * - data: the JSON decodes, names this agent's registration, and its
+ *   image is an SVG data: URI that decodes
+ * - http(s): it points at this backend's metadata endpoint
+ * - ipfs: it is a snapshot this backend published
+ * Throws when no registry is configured or the read fails.
+ */
+export async function inspectOnchainMetadata(
+  agent: AgentProfile
+): Promise<OnchainMetadata> {
+  if (!setupRegistry()) throw new Error("Registry not configured");
+  const uri: string = await registry.tokenURI(agent.agentId);
+
+  const result: OnchainMetadata = {
+    agentId: agent.agentId,
+    scheme: "other",
+    uri: summarizeUri(uri),
+    bytes: Buffer.byteLength(uri),
+    registration: null,
+    image: null,
+    checks: [],
+    valid: false,
+  };
+  const check = (name: string, ok: boolean, message?: string) => {
+    result.checks.push({
+      check: name,
+      ok,
+      ...(!ok && message ? { message } : {}),
+    });
+    return ok;
+  };
+
+  if (uri.startsWith("data:")) {
+    result.scheme = "data";
+    inspectDataUri(agent, uri, result, check);
+  } else if (/^https?:\/\//.test(uri)) {
+    result.scheme = "http";
+    check(
+      "points-here",
+      uri.split("?")[0] === getMetadataUrl(agent),
+      `Expected ${getMetadataUrl(agent)}`
+    );
+  } else if (uri.startsWith("ipfs://")) {
+    result.scheme = "ipfs";
+    check(
+      "published-snapshot",
+      !!getSnapshot(uri.slice("ipfs://".length)),
+      "Not a snapshot this backend published"
+    );
+  } else {
+    check("scheme", false, "Unsupported URI scheme");
+  }
+
+  result.valid = result.checks.every((entry) => entry.ok);
+  return result;
+}
+
+function inspectDataUri(
+  agent: AgentProfile,
+  uri: string,
+  result: OnchainMetadata,
+  check: (name: string, ok: boolean, message?: string) => boolean
+): void {
+  let document: Record<string, unknown>;
+  try {
+    const { mediaType, data } = decodeDataUri(uri);
+    const json = mediaType === "application/json";
+    if (
+      !check("media-type", json, `Expected application/json, got ${mediaType}`)
+    ) {
+      return;
+    }
+    document = JSON.parse(data.toString("utf8"));
+    result.registration = document;
+    check("json", true);
+  } catch (error) {
+    check("json", false, (error as Error).message);
+    return;
+  }
+
+  const expected = `eip155:${config.chainId}:${config.registryAddress}`;
+  const registrations = Array.isArray(document.registrations)
+    ? (document.registrations as Array<Record<string, unknown>>)
+    : [];
+  check(
+    "registration",
+    registrations.some(
+      (entry) =>
+        String(entry.agentRegistry).toLowerCase() === expected.toLowerCase() &&
+        Number(entry.agentId) === agent.agentId
+    ),
+    `Expected an entry for ${expected} #${agent.agentId}`
+  );
+
+  try {
+    const image = decodeDataUri(String(document.image ?? ""));
+    result.image = { mediaType: image.mediaType, bytes: image.data.length };
+    check(
+      "image",
+      image.mediaType === "image/svg+xml" &&
+        /^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/.test(image.data.toString("utf8")),
+      "Expected an SVG document"
+    );
+  } catch (error) {
+    check("image", false, (error as Error).message);
+  }
+}
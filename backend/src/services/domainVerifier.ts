@@ -0,0 +1,196 @@
+import axios from "axios";
+import { assertPublicUrl, PUBLIC_AGENTS } from "../utils/publicHost";
+import { ERC8004Registration } from "../types";
+import { listAgents } from "./agentCatalog";
+import { buildRegistrationEntries } from "./registrationBuilder";
+
+/**
+ * Where an endpoint domain lists the registrations it is authoritative
+ * for (ERC-8004 endpoint domain verification).
+ */
+export const WELL_KNOWN_PATH = "/.well-known/agent-registration.json";
+
+/**
+ * Fetches and parses a .well-known registration file. Throws when it
+ * cannot be fetched. Pass your own to verify without network access.
+ */
+export type WellKnownFetcher = (url: string) => Promise<unknown>;
+
+export type EndpointStatus = "verified" | "unverified" | "error" | "skipped";
+
+export interface EndpointVerification {
+  name: string;
+  endpoint: string;
+  wellKnownUrl: string | null; // null when skipped
+  status: EndpointStatus;
+  // Registrations of the checked JSON that the domain lists
+  matched: RegistrationEntry[];
+  message?: string;
+}
+
+export interface VerificationReport {
+  registrations: RegistrationEntry[];
+  endpoints: EndpointVerification[];
+  summary: Record<EndpointStatus, number>; // Endpoints per status
+}
+
+type RegistrationEntry = ERC8004Registration["registrations"][number];
+
+// Domains fetched per verification; later endpoints are reported as errors
+const MAX_DOMAINS = 10;
+
+const FETCH_TIMEOUT_MS = 5000;
+const MAX_FILE_BYTES = 64 * 1024;
+
+/**
+ * The .well-known registration file this backend serves: every agent
+ * in the catalog, with the same entries as their registrations.
+ */
+export function buildWellKnownFile(): {
+  registrations: RegistrationEntry[];
+} {
+  return {
+    registrations: listAgents().flatMap(buildRegistrationEntries),
+  };
+}
+
+/**
+ * Checks which endpoints of a registration JSON are on domains that
+ * confirm it: an endpoint is verified when its origin's .well-known
+ * file lists one of the registration's (registry, agentId) pairs.
+ * Non-HTTP endpoints (ENS names, DIDs, ...) are skipped; each domain is
+ * fetched once. Throws when `registration` has no registrations.
+ */
+export async function verifyEndpoints(
+  registration: unknown,
+  fetcher: WellKnownFetcher = fetchWellKnown
+): Promise<VerificationReport> {
+  const document = (registration ?? {}) as Partial<ERC8004Registration>;
+  const registrations = Array.isArray(document.registrations)
+    ? document.registrations.filter(
+        (entry) =>
+          typeof entry?.agentRegistry === "string" &&
+          Number.isInteger(Number(entry.agentId))
+      )
+    : [];
+  if (registrations.length === 0) {
+    throw new Error("Registration lists no registrations");
+  }
+
+  const services = Array.isArray(document.services) ? document.services : [];
+  const files = new Map<string, Promise<unknown>>();
+
+  const endpoints = await Promise.all(
+    services.map(async (service): Promise<EndpointVerification> => {
+      const name = String(service?.name ?? "");
+      const endpoint = String(service?.endpoint ?? "");
+      const result: EndpointVerification = {
+        name,
+        endpoint,
+        wellKnownUrl: null,
+        status: "skipped",
+        matched: [],
+      };
+
+      let origin: string;
+      try {
+        const url = new URL(endpoint);
+        if (url.protocol !== "https:" && url.protocol !== "http:") {
+          return { ...result, message: "Not an HTTP endpoint" };
+        }
+        origin = url.origin;
+      } catch {
+        return { ...result, message: "Not a URL" };
+      }
+
+      result.wellKnownUrl = `${origin}${WELL_KNOWN_PATH}`;
+      if (!files.has(origin) && files.size >= MAX_DOMAINS) {
+        return {
+          ...result,
+          status: "error",
+          message: `More than ${MAX_DOMAINS} domains`,
+        };
+      }
+      if (!files.has(origin)) {
+        files.set(origin, fetcher(result.wellKnownUrl));
+      }
+
+      let file: unknown;
+      try {
+        file = await files.get(origin);
+      } catch (error) {
+        return {
+          ...result,
+          status: "error",
+          message: (error as Error).message,
+        };
+      }
+
+      const listed = (file as { registrations?: unknown })?.registrations;
+      if (!Array.isArray(listed)) {
+        return {
+          ...result,
+          status: "error",
+          message: "No registrations array in the .well-known file",
+        };
+      }
+
+      result.matched = registrations.filter((entry) =>
+        listed.some((other) => sameRegistration(entry, other))
+      );
+      return result.matched.length > 0
+        ? { ...result, status: "verified" }
+        : {
+            ...result,
+            status: "unverified",
+            message: "The domain does not list this registration",
+          };
+    })
+  );
+
+  return {
+    registrations,
+    endpoints,
+    summary: {
+      verified: count(endpoints, "verified"),
+      unverified: count(endpoints, "unverified"),
+      error: count(endpoints, "error"),
+      skipped: count(endpoints, "skipped"),
+    },
+  };
+}
+
+/**
+ * Default fetcher: a GET without redirects, a short timeout and a size
+ * cap, to public hosts only, as the URLs come from untrusted
+ * registrations.
+ */
+async function fetchWellKnown(url: string): Promise<unknown> {
+  assertPublicUrl(url);
+  const response = await axios.get(url, {
+    ...PUBLIC_AGENTS,
+    timeout: FETCH_TIMEOUT_MS,
+    maxRedirects: 0,
+    maxContentLength: MAX_FILE_BYTES,
+    responseType: "json",
+  });
+  return response.data;
+}
+
+// Registries compare case-insensitively (checksummed or not)
+function sameRegistration(entry: RegistrationEntry, other: unknown): boolean {
+  const candidate = other as Partial<RegistrationEntry> | null;
+  return (
+    typeof candidate?.agentRegistry === "string" &&
+    candidate.agentRegistry.toLowerCase() ===
+      entry.agentRegistry.toLowerCase() &&
+    Number(candidate.agentId) === Number(entry.agentId)
+  );
+}
+
+function count(
+  endpoints: EndpointVerification[],
+  status: EndpointStatus
+): number {
+  return endpoints.filter((entry) => entry.status === status).length;
+}
@@ -0,0 +1,175 @@
+import { config } from "../utils/config";
+import { createStore } from "../utils/store";
+import { ApiResponse, LivenessReport, LivenessStatus } from "../types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Polls older than the longest uptime window are dropped
+const POLL_RETENTION_MS = 31 * DAY_MS;
+
+// Below this 24h uptime an otherwise live agent is reported degraded
+const DEGRADED_UPTIME = 0.95;
+
+interface LivenessPoll {
+  at: string; // ISO time of the poll
+  ok: boolean; // a stats provider answered
+  totalTransactions: number | null;
+  lastActivityAt: string | null; // last rebalance known at poll time
+}
+
+const store = createStore<{ polls: Record<string, LivenessPoll[]> }>(
+  "liveness",
+  () => ({ polls: {} })
+);
+
+/**
+ * Records the outcome of one stats poll (null when every stats provider
+ * failed).
+ *
+ * A rebalance is observed when the cumulative transaction counter moved
+ * since the previous poll, or when the upstream `timestamp` is newer
+ * than what we knew and `transactions24h` confirms activity in the last
+ * day.
+ */
+export function recordPoll(
+  agentId: number,
+  data: Partial<ApiResponse> | null
+): void {
+  const now = Date.now();
+
+  store.update((state) => {
+    const polls = state.polls[agentId] ?? [];
+    const prev = polls[polls.length - 1];
+    let lastActivity = prev?.lastActivityAt
+      ? Date.parse(prev.lastActivityAt)
+      : 0;
+
+    if (data) {
+      const reported = Date.parse(data.timestamp ?? "");
+      const reportedIsRecent = now - reported < DAY_MS;
+      if (
+        !isNaN(reported) &&
+        reported <= now &&
+        ((data.transactions24h ?? 0) > 0 || !reportedIsRecent)
+      ) {
+        lastActivity = Math.max(lastActivity, reported);
+      }
+
+      if (
+        prev?.totalTransactions != null &&
+        data.totalTransactions != null &&
+        data.totalTransactions > prev.totalTransactions
+      ) {
+        lastActivity = now;
+      }
+    }
+
+    polls.push({
+      at: new Date(now).toISOString(),
+      ok: data !== null,
+      totalTransactions:
+        data?.totalTransactions ?? prev?.totalTransactions ?? null,
+      lastActivityAt: lastActivity
+        ? new Date(lastActivity).toISOString()
+        : null,
+    });
+
+    state.polls[agentId] = polls.filter(
+      (poll) => now - Date.parse(poll.at) <= POLL_RETENTION_MS
+    );
+  });
+}
+
+/**
+ * Computes rolling uptime and the current status of an agent.
+ *
+ * Time between two consecutive polls counts as "up" when the later poll
+ * reached the stats API and the last rebalance is no older than the
+ * rebalance cycle plus LIVENESS_GRACE_HOURS. Gaps longer than a few
+ * poll intervals (the server was down) are not counted either way.
+ */
+export function getLiveness(agentId: number): LivenessReport {
+  const now = Date.now();
+  const polls = store.read().polls[agentId] ?? [];
+  const last = polls[polls.length - 1];
+
+  const lastActivityAt = last?.lastActivityAt ?? null;
+  const uptime = {
+    "24h": computeUptime(polls, now, DAY_MS),
+    "7d": computeUptime(polls, now, 7 * DAY_MS),
+    "30d": computeUptime(polls, now, 30 * DAY_MS),
+  };
+
+  const recentPolls = polls.filter((p) => now - Date.parse(p.at) <= DAY_MS);
+  const apiAvailability24h = recentPolls.length
+    ? recentPolls.filter((p) => p.ok).length / recentPolls.length
+    : null;
+
+  return {
+    status: deriveStatus(last, uptime["24h"], now),
+    lastActivityAt,
+    nextRebalanceDueAt: lastActivityAt
+      ? new Date(
+          Date.parse(lastActivityAt) + config.rebalanceIntervalHours * HOUR_MS
+        ).toISOString()
+      : null,
+    uptime,
+    apiAvailability24h,
+  };
+}
+
+function computeUptime(
+  polls: LivenessPoll[],
+  now: number,
+  windowMs: number
+): number | null {
+  const windowStart = now - windowMs;
+  const maxGap = 3 * config.livenessPollMinutes * 60 * 1000;
+  let observed = 0;
+  let up = 0;
+
+  for (let i = 1; i < polls.length; i++) {
+    const prevAt = Date.parse(polls[i - 1].at);
+    const at = Date.parse(polls[i].at);
+    if (at < windowStart || at - prevAt > maxGap) continue;
+
+    const duration = at - Math.max(prevAt, windowStart);
+    observed += duration;
+    if (polls[i].ok && isActivityFresh(polls[i].lastActivityAt, at)) {
+      up += duration;
+    }
+  }
+
+  return observed > 0 ? up / observed : null;
+}
+
+function isActivityFresh(lastActivityAt: string | null, at: number): boolean {
+  if (!lastActivityAt) return false;
+  const allowedMs =
+    (config.rebalanceIntervalHours + config.livenessGraceHours) * HOUR_MS;
+  return at - Date.parse(lastActivityAt) <= allowedMs;
+}
+
+function deriveStatus(
+  last: LivenessPoll | undefined,
+  uptime24h: number | null,
+  now: number
+): LivenessStatus {
+  if (!last?.lastActivityAt) return "unknown";
+
+  const sinceActivity = now - Date.parse(last.lastActivityAt);
+  if (sinceActivity > config.livenessStalledHours * HOUR_MS) {
+    return "stalled";
+  }
+
+  if (
+    !last.ok ||
+    !isActivityFresh(last.lastActivityAt, now) ||
+    (uptime24h !== null && uptime24h < DEGRADED_UPTIME)
+  ) {
+    return "degraded";
+  }
+
+  return "healthy";
+}
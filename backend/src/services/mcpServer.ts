@@ -0,0 +1,94 @@
+import {
+  INVALID_PARAMS,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  METHOD_NOT_FOUND,
+  rpcError,
+  rpcResult,
+} from "../utils/jsonRpc";
+import { AgentProfile } from "../types";
+import { AGENT_TOOLS, getAgentTool } from "./agentTools";
+
+// Newest first; a client asking for another version is offered the newest
+export const MCP_PROTOCOL_VERSIONS = ["2025-06-18", "2025-03-26", "2024-11-05"];
+
+export const MCP_SERVER_VERSION = "1.0.0";
+
+/**
+ * Answers one MCP request for an agent: the lifecycle (`initialize`,
+ * `ping`) and the read-only tools (`tools/list`, `tools/call`). The
+ * server is stateless, so there are no sessions, subscriptions or
+ * server-initiated messages. Returns null for notifications.
+ */
+export async function handleMcpRequest(
+  agent: AgentProfile,
+  request: JsonRpcRequest
+): Promise<JsonRpcResponse | null> {
+  if (request.id === undefined) return null;
+  const id = request.id;
+  const params = (request.params ?? {}) as Record<string, unknown>;
+
+  switch (request.method) {
+    case "initialize": {
+      const requested = String(params.protocolVersion ?? "");
+      return rpcResult(id, {
+        protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested)
+          ? requested
+          : MCP_PROTOCOL_VERSIONS[0],
+        capabilities: { tools: { listChanged: false } },
+        serverInfo: {
+          name: `erc8004-agent-${agent.agentId}`,
+          title: agent.name,
+          version: MCP_SERVER_VERSION,
+        },
+        instructions: `Read-only live stats of ${agent.name} (ERC-8004 agent #${agent.agentId}).`,
+      });
+    }
+
+    case "ping":
+      return rpcResult(id, {});
+
+    case "tools/list":
+      return rpcResult(id, {
+        tools: AGENT_TOOLS.map(({ name, title, description, inputSchema }) => ({
+          name,
+          title,
+          description,
+          inputSchema,
+          annotations: { readOnlyHint: true, openWorldHint: false },
+        })),
+      });
+
+    case "tools/call": {
+      const tool = getAgentTool(String(params.name ?? ""));
+      if (!tool) {
+        return rpcError(id, INVALID_PARAMS, `Unknown tool: ${params.name}`);
+      }
+
+      // Tool failures are results the model can see, not protocol errors
+      try {
+        const result = await tool.run(
+          agent,
+          (params.arguments ?? {}) as Record<string, unknown>
+        );
+        return rpcResult(id, {
+          content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+          structuredContent: result,
+          isError: false,
+        });
+      } catch (error) {
+        return rpcResult(id, {
+          content: [{ type: "text", text: (error as Error).message }],
+          isError: true,
+        });
+      }
+    }
+
+    default:
+      return rpcError(
+        id,
+        METHOD_NOT_FOUND,
+        `Unknown method: ${request.method}`
+      );
+  }
+}
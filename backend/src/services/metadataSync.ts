@@ -0,0 +1,262 @@
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { createStore } from "../utils/store";
+import { REGISTRY_ABI } from "../utils/registryAbi";
+import {
+  decodeMetadataValue,
+  encodeMetadataValue,
+  MetadataEncoding,
+} from "../utils/metadataValue";
+import { AgentProfile } from "../types";
+import { listAgents } from "./agentCatalog";
+import { MetadataWriteResult, sendMetadataBatch } from "./updaterService";
+
+/**
+ * A registry metadata key kept in line with the settings. `desired`
+ * is "" when the setting is unset: the on-chain value is served then,
+ * and never overwritten.
+ */
+interface SyncedKey {
+  key: string;
+  encoding: MetadataEncoding;
+  desired(agent: AgentProfile): string;
+}
+
+export const SYNCED_KEYS: SyncedKey[] = [
+  {
+    key: "agentWallet",
+    encoding: "address",
+    desired: (agent) => agent.wallet,
+  },
+  {
+    key: "duneDashboard",
+    encoding: "text",
+    desired: () => (config.duneUrlConfigured ? config.duneUrl : ""),
+  },
+];
+
+/**
+ * in-sync: the same value on both sides; drift: different values;
+ * missing: set in config only; onchain-only: set on-chain only (served
+ * as is); unset: set nowhere.
+ */
+export type MetadataKeyStatus =
+  | "in-sync"
+  | "drift"
+  | "missing"
+  | "onchain-only"
+  | "unset";
+
+export interface MetadataKeyDrift {
+  key: string;
+  status: MetadataKeyStatus;
+  desired: string | null;
+  onchain: string | null; // decoded
+  onchainHex: string | null;
+}
+
+export interface MetadataDriftReport {
+  agentId: number;
+  registry: string;
+  drift: boolean; // Any key drifted or missing
+  keys: MetadataKeyDrift[];
+  checkedAt: string;
+}
+
+interface SyncState {
+  // Raw on-chain values per agent, as last read
+  agents: Record<string, { values: Record<string, string>; readAt: string }>;
+}
+
+const store = createStore<SyncState>("metadata-sync", () => ({ agents: {} }));
+
+let registry: ethers.Contract;
+let lastSyncAt = 0;
+let syncing = false;
+
+/**
+ * Creates the read-only registry contract, once. Returns false when
+ * REGISTRY_ADDRESS is missing.
+ */
+function setupRegistry(): boolean {
+  if (registry) return true;
+  if (!config.registryAddress) return false;
+
+  registry = new ethers.Contract(
+    config.registryAddress,
+    REGISTRY_ABI,
+    new ethers.JsonRpcProvider(config.rpcUrl)
+  );
+  return true;
+}
+
+/**
+ * Reads the agent's synced keys from the registry and compares them
+ * with the settings. The values read are kept for the served
+ * registration. Throws when the registry cannot be read.
+ */
+export async function checkMetadataDrift(
+  agent: AgentProfile
+): Promise<MetadataDriftReport> {
+  if (!setupRegistry()) throw new Error("Registry not configured");
+
+  const values: Record<string, string> = {};
+  for (const { key } of SYNCED_KEYS) {
+    values[key] = await registry.getMetadata(agent.agentId, key);
+  }
+  store.update((state) => {
+    state.agents[agent.agentId] = { values, readAt: new Date().toISOString() };
+  });
+
+  const keys = SYNCED_KEYS.map((synced) => compareKey(agent, synced, values));
+  return {
+    agentId: agent.agentId,
+    registry: `eip155:${config.chainId}:${config.registryAddress}`,
+    drift: keys.some(
+      (entry) => entry.status === "drift" || entry.status === "missing"
+    ),
+    keys,
+    checkedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Writes the settings' value of every drifted or missing key (or only
+ * of `keys`) in one batch of setMetadata() transactions, then checks
+ * the agent again. Keys only set on-chain are left alone.
+ */
+export async function reconcileMetadata(
+  agent: AgentProfile,
+  options: { keys?: string[]; dryRun?: boolean } = {}
+): Promise<{ writes: MetadataWriteResult[]; report: MetadataDriftReport }> {
+  const unknown = options.keys?.filter(
+    (key) => !SYNCED_KEYS.some((synced) => synced.key === key)
+  );
+  if (unknown?.length) throw new Error(`Not a synced key: ${unknown[0]}`);
+
+  const before = await checkMetadataDrift(agent);
+  const entries = before.keys
+    .filter(
+      (entry) =>
+        (entry.status === "drift" || entry.status === "missing") &&
+        (!options.keys || options.keys.includes(entry.key))
+    )
+    .map((entry) => {
+      const { encoding } = SYNCED_KEYS.find((s) => s.key === entry.key)!;
+      return {
+        key: entry.key,
+        value: encodeMetadataValue(entry.desired!, encoding),
+      };
+    });
+
+  const writes = await sendMetadataBatch(agent, entries, options.dryRun);
+  const changed = writes.some((write) => write.status === "updated");
+  return {
+    writes,
+    report: changed ? await checkMetadataDrift(agent) : before,
+  };
+}
+
+/**
+ * Re-reads every catalog agent's synced keys, at most once per
+ * METADATA_SYNC_MINUTES. A no-op without a registry. Never throws.
+ */
+export async function syncOnchainMetadata(): Promise<void> {
+  if (syncing || !setupRegistry()) return;
+  if (Date.now() - lastSyncAt < config.metadataSyncMinutes * 60 * 1000) {
+    return;
+  }
+  syncing = true;
+
+  try {
+    for (const agent of listAgents()) {
+      const report = await checkMetadataDrift(agent);
+      if (report.drift) {
+        console.warn(
+          `  On-chain metadata of agent #${agent.agentId} drifted:`,
+          report.keys
+            .filter(
+              (entry) => entry.status === "drift" || entry.status === "missing"
+            )
+            .map((entry) => entry.key)
+            .join(", ")
+        );
+      }
+    }
+    lastSyncAt = Date.now();
+  } catch (error) {
+    console.error("  Metadata sync failed:", error);
+  } finally {
+    syncing = false;
+  }
+}
+
+/**
+ * The last read on-chain value of a synced key, decoded, or null when
+ * it is not set (or not read yet).
+ */
+export function getOnchainMetadata(
+  agentId: number,
+  key: string
+): string | null {
+  const hex = store.read().agents[agentId]?.values[key];
+  const synced = SYNCED_KEYS.find((entry) => entry.key === key);
+  if (!hex || !synced || ethers.dataLength(hex) === 0) return null;
+  return decodeValue(hex, synced.encoding);
+}
+
+function compareKey(
+  agent: AgentProfile,
+  synced: SyncedKey,
+  values: Record<string, string>
+): MetadataKeyDrift {
+  const hex = values[synced.key];
+  const onchain =
+    ethers.dataLength(hex) > 0 ? decodeValue(hex, synced.encoding) : null;
+  const desired = synced.desired(agent) || null;
+
+  let status: MetadataKeyStatus;
+  if (!desired) {
+    status = onchain === null ? "unset" : "onchain-only";
+  } else if (onchain === null) {
+    status = "missing";
+  } else {
+    status = sameValue(desired, onchain, synced.encoding) ? "in-sync" : "drift";
+  }
+
+  return {
+    key: synced.key,
+    status,
+    desired,
+    onchain,
+    onchainHex: onchain === null ? null : hex,
+  };
+}
+
+/**
+ * Decodes a stored value. Addresses are accepted in any of the ways
+ * they get written: 20 bytes, a padded bytes32 (`cast --to-bytes32`)
+ * or the address as text (`cast --from-utf8`).
+ */
+function decodeValue(hex: string, encoding: MetadataEncoding): string {
+  const { value } = decodeMetadataValue(hex);
+  if (encoding === "address" && ethers.isAddress(value)) {
+    return ethers.getAddress(value);
+  }
+  return value;
+}
+
+function sameValue(
+  desired: string,
+  onchain: string,
+  encoding: MetadataEncoding
+): boolean {
+  if (encoding === "address") {
+    return (
+      ethers.isAddress(desired) &&
+      ethers.isAddress(onchain) &&
+      ethers.getAddress(desired) === ethers.getAddress(onchain)
+    );
+  }
+  return desired === onchain;
+}
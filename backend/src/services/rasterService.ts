@@ -0,0 +1,133 @@
+import crypto from "crypto";
+import path from "path";
+import { Resvg } from "@resvg/resvg-js";
+import sharp from "sharp";
+import { AgentStats } from "../types";
+
+export type RasterFormat = "png" | "webp";
+export type RasterSize = "card" | "og" | "square";
+
+/**
+ * Output dimensions per size. "card" keeps the SVG's own size; the
+ * social sizes letterbox the card onto a canvas of that size.
+ */
+export const RASTER_SIZES: Record<
+  RasterSize,
+  { width: number; height: number } | null
+> = {
+  card: null,
+  og: { width: 1200, height: 630 },
+  square: { width: 1000, height: 1000 },
+};
+
+// Fonts ship with the dejavu-fonts-ttf package and system fonts are never
+// loaded, so every host renders the same pixels.
+const FONT_DIR = path.join(
+  path.dirname(require.resolve("dejavu-fonts-ttf/package.json")),
+  "ttf"
+);
+const FONT_FILES = [
+  "DejaVuSans.ttf",
+  "DejaVuSans-Bold.ttf",
+  "DejaVuSansMono.ttf",
+  "DejaVuSansMono-Bold.ttf",
+].map((file) => path.join(FONT_DIR, file));
+
+// Rendered images keyed by agent, stats version, size and format
+const MAX_CACHE_ENTRIES = 64;
+const rasterCache = new Map<string, Buffer>();
+
+/**
+ * Short content hash of a stats object. Two requests with the same
+ * version render identical images.
+ */
+export function getStatsVersion(stats: AgentStats): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(stats))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/**
+ * Rasterizes an agent card SVG to PNG or WebP at one of RASTER_SIZES.
+ * Results are cached per stats version, so each version is rendered once.
+ */
+export async function renderRaster(
+  svg: string,
+  cacheKey: string,
+  size: RasterSize,
+  format: RasterFormat
+): Promise<Buffer> {
+  const key = `${cacheKey}:${size}:${format}`;
+  const cached = rasterCache.get(key);
+  if (cached) return cached;
+
+  const card = readSize(svg);
+  const { width, height } = RASTER_SIZES[size] ?? card;
+  const resvg = new Resvg(fitToCanvas(svg, card, width, height), {
+    fitTo: { mode: "width", value: width },
+    font: {
+      fontFiles: FONT_FILES,
+      loadSystemFonts: false,
+      defaultFontFamily: "DejaVu Sans",
+      sansSerifFamily: "DejaVu Sans",
+      monospaceFamily: "DejaVu Sans Mono",
+    },
+  });
+  const png = resvg.render().asPng();
+
+  const image =
+    format === "webp" ? await sharp(png).webp({ quality: 90 }).toBuffer() : png;
+
+  rasterCache.set(key, image);
+  if (rasterCache.size > MAX_CACHE_ENTRIES) {
+    // Map iteration order is insertion order — drop the oldest entry
+    rasterCache.delete(rasterCache.keys().next().value as string);
+  }
+
+  return image;
+}
+
+/**
+ * Centers the card on a canvas of the target size. The card is nested
+ * as an inner <svg>, scaled to fit with its aspect ratio kept; the
+ * canvas takes the card's first background colour.
+ */
+function fitToCanvas(
+  svg: string,
+  card: { width: number; height: number },
+  width: number,
+  height: number
+): string {
+  if (width / height === card.width / card.height) {
+    return svg;
+  }
+
+  const scale = Math.min(width / card.width, height / card.height);
+  const innerWidth = card.width * scale;
+  const innerHeight = card.height * scale;
+  const x = (width - innerWidth) / 2;
+  const y = (height - innerHeight) / 2;
+  const canvasColor =
+    svg.match(/stop-color:(#[0-9a-fA-F]{3,6})/)?.[1] ?? "#000";
+  const nested = svg
+    .replace(/^<\?xml[^>]*>\s*/, "")
+    .replace(
+      /<svg ([^>]*?)width="\d+" height="\d+"/,
+      `<svg $1x="${x}" y="${y}" width="${innerWidth}" height="${innerHeight}"`
+    );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
+  <rect width="${width}" height="${height}" fill="${canvasColor}" />
+  ${nested}
+</svg>`;
+}
+
+function readSize(svg: string): { width: number; height: number } {
+  const match = svg.match(/<svg [^>]*?width="(\d+)" height="(\d+)"/);
+  if (!match) {
+    throw new Error("SVG has no width/height");
+  }
+  return { width: Number(match[1]), height: Number(match[2]) };
+}
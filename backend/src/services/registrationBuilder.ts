@@ -0,0 +1,163 @@
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import {
+  formatChange,
+  formatCount,
+  formatDateTime,
+  formatPercent,
+  formatUsd,
+} from "../utils/format";
+import { AgentProfile, AgentStats, ERC8004Registration } from "../types";
+import {
+  getA2aUrl,
+  getImageUrl,
+  getMcpUrl,
+  getReputationUrl,
+  getValidationUrl,
+} from "./agentCatalog";
+import { A2A_PROTOCOL_VERSION } from "./a2aService";
+import { MCP_PROTOCOL_VERSIONS } from "./mcpServer";
+import { getOnchainMetadata } from "./metadataSync";
+import {
+  getLatestValidation,
+  getValidationRegistry,
+} from "./validationService";
+
+/**
+ * Builds the ERC-8004 registration JSON for an agent with live stats.
+ * This is the document the agent's on-chain tokenURI resolves to.
+ */
+export function buildRegistration(
+  agent: AgentProfile,
+  stats: AgentStats
+): ERC8004Registration {
+  const { wallet, duneUrl } = resolveSettings(agent);
+
+  return {
+    type: "https://eips.ethereum.org/EIPS/eip-8004#registration-v1",
+
+    name: agent.name,
+
+    description: [
+      agent.description,
+      ``,
+      `Live Stats:`,
+      `• TVL: ${formatUsd(stats.tvl)}${formatTrend(
+        stats.trends.tvl.change24h
+      )}`,
+      `• Vaults: ${formatCount(stats.totalVaults)} deployed (${formatCount(
+        stats.activeVaults
+      )} active)`,
+      `• Avg APY: ${formatPercent(stats.avgApy)}`,
+      `• Total Rebalances: ${formatCount(stats.totalRebalances)}`,
+      `• Uptime: ${formatPercent(stats.uptime)} (30d), status: ${
+        stats.liveness.status
+      }`,
+      `• Reputation: ${formatReputation(stats)}`,
+      `• Last Rebalance: ${formatDateTime(stats.lastRebalanceAt)}`,
+      ``,
+      `All operations are on-chain and auditable.`,
+      `On-chain proof: ${duneUrl}`,
+    ].join("\n"),
+
+    // Dynamic SVG image — always fresh
+    image: getImageUrl(agent),
+
+    services: [
+      {
+        name: "web",
+        endpoint: config.websiteUrl,
+      },
+      {
+        name: "stats-api",
+        endpoint: agent.statsApiUrl,
+      },
+      {
+        name: "onchain-proof",
+        endpoint: duneUrl,
+      },
+      {
+        name: "A2A",
+        endpoint: `${getA2aUrl(agent)}/agent-card.json`,
+        version: A2A_PROTOCOL_VERSION,
+      },
+      {
+        name: "MCP",
+        endpoint: getMcpUrl(agent),
+        version: MCP_PROTOCOL_VERSIONS[0],
+      },
+    ],
+
+    registrations: buildRegistrationEntries(agent),
+
+    supportedTrust: config.validationEnabled
+      ? ["reputation", "validation"]
+      : ["reputation"],
+
+    agentWallet: wallet
+      ? {
+          [`eip155:${config.chainId}`]: wallet,
+        }
+      : undefined,
+
+    reputation: {
+      registry: stats.reputation.registry,
+      endpoint: getReputationUrl(agent),
+      count: stats.reputation.count,
+      averageScore: stats.reputation.averageScore,
+    },
+
+    validation: config.validationEnabled
+      ? {
+          registry: getValidationRegistry(),
+          endpoint: getValidationUrl(agent),
+          latest: getLatestValidation(agent.agentId),
+        }
+      : undefined,
+  };
+}
+
+/**
+ * The agent wallet and Dune link to serve: from the settings, or where
+ * those leave them unset, the agent's last read on-chain metadata.
+ */
+function resolveSettings(agent: AgentProfile): {
+  wallet: string;
+  duneUrl: string;
+} {
+  const onchainWallet = getOnchainMetadata(agent.agentId, "agentWallet");
+  return {
+    wallet:
+      agent.wallet ||
+      (onchainWallet && ethers.isAddress(onchainWallet) ? onchainWallet : ""),
+    duneUrl: config.duneUrlConfigured
+      ? config.duneUrl
+      : getOnchainMetadata(agent.agentId, "duneDashboard") ?? config.duneUrl,
+  };
+}
+
+/**
+ * The registry entries an agent's registration lists: the agent's token
+ * on REGISTRY_ADDRESS. The .well-known registration file is built from
+ * these too.
+ */
+export function buildRegistrationEntries(
+  agent: AgentProfile
+): ERC8004Registration["registrations"] {
+  return [
+    {
+      agentRegistry: `eip155:${config.chainId}:${config.registryAddress}`,
+      agentId: agent.agentId,
+    },
+  ];
+}
+
+function formatReputation(stats: AgentStats): string {
+  const { count, averageScore } = stats.reputation;
+  if (averageScore === null) return "no feedback yet";
+  return `${averageScore}/100 from ${count} review${count === 1 ? "" : "s"}`;
+}
+
+function formatTrend(change: number | null): string {
+  return change === null ? "" : ` (${formatChange(change)} 24h)`;
+}
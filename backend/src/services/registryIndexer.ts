@@ -0,0 +1,367 @@
+import { ethers } from "ethers";
+import cron from "node-cron";
+import { config } from "../utils/config";
+import { createStore } from "../utils/store";
+import { REGISTRY_ABI } from "../utils/registryAbi";
+import {
+  IndexedAgent,
+  MetadataChangeEvent,
+  RegistrationEvent,
+  TransferEvent,
+  UriChangeEvent,
+} from "../types";
+
+interface IndexerState {
+  lastBlock: number; // -1 before the first run
+  checkpoints: Array<{ blockNumber: number; blockHash: string }>;
+  registrations: RegistrationEvent[];
+  uriChanges: UriChangeEvent[];
+  metadataChanges: MetadataChangeEvent[];
+  transfers: TransferEvent[];
+}
+
+// Checkpoints kept for reorg detection (one is added per run)
+const MAX_CHECKPOINTS = 32;
+
+const store = createStore<IndexerState>("registry-index", () => ({
+  lastBlock: -1,
+  checkpoints: [],
+  registrations: [],
+  uriChanges: [],
+  metadataChanges: [],
+  transfers: [],
+}));
+
+const iface = new ethers.Interface(REGISTRY_ABI);
+const EVENT_TOPICS = [
+  iface.getEvent("Registered")!.topicHash,
+  iface.getEvent("AgentURIUpdated")!.topicHash,
+  iface.getEvent("MetadataSet")!.topicHash,
+  iface.getEvent("Transfer")!.topicHash,
+];
+
+let provider: ethers.JsonRpcProvider;
+let running = false;
+
+/**
+ * Creates the RPC provider, once. Returns false when indexing is
+ * disabled (or INDEXER_START_BLOCK unset) or REGISTRY_ADDRESS is missing.
+ */
+function setupIndexer(): boolean {
+  if (provider) return true;
+  if (!config.indexerEnabled || !config.registryAddress) return false;
+
+  provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  return true;
+}
+
+/**
+ * Start the registry event indexer for a long-running server.
+ * Call this once at server startup. Serverless deployments trigger
+ * syncRegistry() through the jobs endpoint instead.
+ */
+export function initIndexer(): void {
+  if (!setupIndexer()) {
+    console.warn(
+      "  Indexer not configured — skipping registry indexing.",
+      "Set REGISTRY_ADDRESS and INDEXER_START_BLOCK in .env"
+    );
+    return;
+  }
+
+  console.log(
+    `  Registry indexer initialized. Will sync every ${config.indexerIntervalMinutes}m`
+  );
+  console.log(`   Resuming after block: ${store.read().lastBlock}`);
+
+  cron.schedule(`*/${config.indexerIntervalMinutes} * * * *`, async () => {
+    await syncRegistry();
+  });
+
+  syncRegistry();
+}
+
+/**
+ * Index registry events from the last checkpoint up to the chain head.
+ *
+ * Every run re-scans the last INDEXER_CONFIRMATIONS blocks, so events
+ * dropped by a shallow reorg are replaced. Deeper reorgs are caught by
+ * comparing stored checkpoint hashes with the chain; indexing then
+ * rewinds to the newest checkpoint that is still canonical.
+ */
+export async function syncRegistry(): Promise<void> {
+  if (running || !setupIndexer()) return;
+  running = true;
+
+  try {
+    const head = await provider.getBlockNumber();
+    const fromBlock = await findResumeBlock(store.read());
+
+    // Readers keep the current index until the re-scan replaces it
+    const state = rollbackTo(store.read(), fromBlock);
+
+    for (
+      let start = fromBlock;
+      start <= head;
+      start += config.indexerBatchSize
+    ) {
+      const end = Math.min(start + config.indexerBatchSize - 1, head);
+      const logs = await provider.getLogs({
+        address: config.registryAddress,
+        topics: [EVENT_TOPICS],
+        fromBlock: start,
+        toBlock: end,
+      });
+
+      for (const log of logs) {
+        await applyLog(state, log);
+      }
+
+      state.lastBlock = end;
+      store.write(state);
+    }
+
+    const headBlock = await provider.getBlock(head);
+    if (headBlock?.hash) {
+      state.lastBlock = head;
+      state.checkpoints.push({ blockNumber: head, blockHash: headBlock.hash });
+      state.checkpoints = state.checkpoints.slice(-MAX_CHECKPOINTS);
+      store.write(state);
+    }
+  } catch (error) {
+    console.error("  Registry indexing failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+/**
+ * All agents seen on the registry, ordered by ID.
+ */
+export function listIndexedAgents(): IndexedAgent[] {
+  const state = store.read();
+  return state.registrations
+    .map((registration) => deriveAgent(state, registration))
+    .sort((a, b) => a.agentId - b.agentId);
+}
+
+/**
+ * Current indexed state of one agent.
+ */
+export function getIndexedAgent(agentId: number): IndexedAgent | undefined {
+  const state = store.read();
+  const registration = state.registrations.find((r) => r.agentId === agentId);
+  return registration ? deriveAgent(state, registration) : undefined;
+}
+
+/**
+ * Full change history of one agent, newest first.
+ */
+export function getAgentHistory(agentId: number): {
+  uriChanges: UriChangeEvent[];
+  metadataChanges: MetadataChangeEvent[];
+  transfers: TransferEvent[];
+} {
+  const state = store.read();
+  const newestFirst = <T extends { blockNumber: number; logIndex: number }>(
+    events: T[]
+  ) =>
+    events.sort(
+      (a, b) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex
+    );
+
+  return {
+    uriChanges: newestFirst(
+      state.uriChanges.filter((e) => e.agentId === agentId)
+    ),
+    metadataChanges: newestFirst(
+      state.metadataChanges.filter((e) => e.agentId === agentId)
+    ),
+    transfers: newestFirst(
+      state.transfers.filter((e) => e.agentId === agentId)
+    ),
+  };
+}
+
+/**
+ * Indexing progress, for health and status endpoints.
+ */
+export function getIndexerStatus(): { lastBlock: number; agents: number } {
+  const state = store.read();
+  return { lastBlock: state.lastBlock, agents: state.registrations.length };
+}
+
+async function findResumeBlock(state: IndexerState): Promise<number> {
+  // Set whenever the indexer runs (checked with the config)
+  const startBlock = config.indexerStartBlock!;
+  if (state.lastBlock < 0) {
+    return startBlock;
+  }
+
+  const windowStart = Math.max(
+    startBlock,
+    state.lastBlock - config.indexerConfirmations + 1
+  );
+  if (state.checkpoints.length === 0) {
+    return windowStart;
+  }
+
+  // Newest checkpoint that is still on the canonical chain
+  let safeBlock = -1;
+  for (let i = state.checkpoints.length - 1; i >= 0; i--) {
+    const checkpoint = state.checkpoints[i];
+    const block = await provider.getBlock(checkpoint.blockNumber);
+    if (block?.hash === checkpoint.blockHash) {
+      safeBlock = checkpoint.blockNumber;
+      break;
+    }
+    console.warn(`  Reorg detected at block ${checkpoint.blockNumber}`);
+  }
+
+  if (safeBlock < 0) {
+    // No checkpoint survived — rebuild from scratch
+    return startBlock;
+  }
+
+  return Math.min(windowStart, safeBlock + 1);
+}
+
+/**
+ * A copy of the index without anything from `fromBlock` on. The live
+ * state is left alone, so it still answers queries during the re-scan.
+ */
+function rollbackTo(state: IndexerState, fromBlock: number): IndexerState {
+  const keep = (e: { blockNumber: number }) => e.blockNumber < fromBlock;
+  return {
+    lastBlock: fromBlock - 1,
+    checkpoints: state.checkpoints.filter(keep),
+    registrations: state.registrations.filter(keep),
+    uriChanges: state.uriChanges.filter(keep),
+    metadataChanges: state.metadataChanges.filter(keep),
+    transfers: state.transfers.filter(keep),
+  };
+}
+
+async function applyLog(state: IndexerState, log: ethers.Log): Promise<void> {
+  const parsed = iface.parseLog(log);
+  if (!parsed) return;
+
+  const base = {
+    agentId: 0,
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+
+  switch (parsed.name) {
+    case "Registered":
+      state.registrations.push({
+        ...base,
+        agentId: Number(parsed.args.agentId),
+        tokenURI: parsed.args.tokenURI,
+        owner: parsed.args.owner,
+      });
+      break;
+
+    case "AgentURIUpdated": {
+      const tx = await provider.getTransaction(log.transactionHash);
+      state.uriChanges.push({
+        ...base,
+        agentId: Number(parsed.args.agentId),
+        uri: parsed.args.newURI,
+        from: tx?.from ?? "",
+      });
+      break;
+    }
+
+    case "MetadataSet": {
+      const tx = await provider.getTransaction(log.transactionHash);
+      state.metadataChanges.push({
+        ...base,
+        agentId: Number(parsed.args.agentId),
+        key: recoverMetadataKey(tx, parsed.args.key.hash),
+        keyHash: parsed.args.key.hash,
+        value: parsed.args.value,
+        from: tx?.from ?? "",
+      });
+      break;
+    }
+
+    case "Transfer":
+      state.transfers.push({
+        ...base,
+        agentId: Number(parsed.args.tokenId),
+        from: parsed.args.from,
+        to: parsed.args.to,
+      });
+      break;
+  }
+}
+
+/**
+ * Recover the plain metadata key from a direct setMetadata() call.
+ * Returns null for calls routed through other contracts.
+ */
+function recoverMetadataKey(
+  tx: ethers.TransactionResponse | null,
+  keyHash: string
+): string | null {
+  if (!tx) return null;
+
+  try {
+    const call = iface.parseTransaction({ data: tx.data });
+    if (call?.name !== "setMetadata") return null;
+    const key: string = call.args.key;
+    return ethers.id(key) === keyHash ? key : null;
+  } catch {
+    return null;
+  }
+}
+
+function deriveAgent(
+  state: IndexerState,
+  registration: RegistrationEvent
+): IndexedAgent {
+  const { agentId } = registration;
+  const uriChanges = state.uriChanges.filter((e) => e.agentId === agentId);
+  const metadataChanges = state.metadataChanges.filter(
+    (e) => e.agentId === agentId
+  );
+  const transfers = state.transfers.filter((e) => e.agentId === agentId);
+
+  const latest = <T extends { blockNumber: number; logIndex: number }>(
+    events: T[]
+  ): T | undefined =>
+    events.reduce<T | undefined>(
+      (acc, e) =>
+        !acc ||
+        e.blockNumber > acc.blockNumber ||
+        (e.blockNumber === acc.blockNumber && e.logIndex > acc.logIndex)
+          ? e
+          : acc,
+      undefined
+    );
+
+  const lastUri = latest(uriChanges);
+  const lastTransfer = latest(transfers);
+
+  const keys = new Set<string>();
+  for (const change of metadataChanges) {
+    keys.add(change.key ?? change.keyHash);
+  }
+
+  return {
+    agentId,
+    owner: lastTransfer?.to ?? registration.owner,
+    tokenURI: lastUri?.uri ?? registration.tokenURI,
+    registeredBlock: registration.blockNumber,
+    registeredTx: registration.transactionHash,
+    lastUpdatedBlock: Math.max(
+      registration.blockNumber,
+      latest([...uriChanges, ...metadataChanges, ...transfers])?.blockNumber ??
+        0
+    ),
+    uriUpdates: uriChanges.length,
+    metadataKeys: [...keys],
+  };
+}
@@ -0,0 +1,538 @@
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { createStore } from "../utils/store";
+import { canonicalJson } from "../utils/canonicalJson";
+import { decodeTag } from "../utils/bytes32";
+import { REPUTATION_ABI } from "../utils/reputationAbi";
+import {
+  FeedbackAuthorization,
+  FeedbackEntry,
+  ReputationSummary,
+} from "../types";
+
+type StoredEntry = Omit<FeedbackEntry, "revoked">;
+
+interface ReputationState {
+  lastBlock: number; // -1 before the first registry sync
+  entries: StoredEntry[];
+  // Kept apart from entries so a reorged-out revocation disappears too
+  revocations: Array<{
+    agentId: number;
+    clientAddress: string;
+    feedbackIndex: number;
+    blockNumber: number | null;
+  }>;
+}
+
+interface FeedbackFile {
+  agentId: number;
+  content: string; // canonical JSON, served byte for byte
+  createdAt: string;
+}
+
+const store = createStore<ReputationState>("reputation", () => ({
+  lastBlock: -1,
+  entries: [],
+  revocations: [],
+}));
+const fileStore = createStore<Record<string, FeedbackFile>>(
+  "feedback-files",
+  () => ({})
+);
+
+// feedbackAuth layout: abi.encode(agentId, clientAddress, indexLimit,
+// expiry, chainId, identityRegistry, signerAddress) ++ 65-byte signature
+const FEEDBACK_AUTH_TYPES = [
+  "uint256",
+  "address",
+  "uint64",
+  "uint256",
+  "uint256",
+  "address",
+  "address",
+];
+const FEEDBACK_AUTH_STRUCT_BYTES = FEEDBACK_AUTH_TYPES.length * 32;
+const SIGNATURE_BYTES = 65;
+const THIRTY_DAYS_MS = 30 * 24 * 3600 * 1000;
+
+const iface = new ethers.Interface(REPUTATION_ABI);
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+let provider: ethers.JsonRpcProvider;
+let registry: ethers.Contract;
+let signer: ethers.Wallet | null = null;
+let lastSyncAt = 0;
+let syncing = false;
+
+/**
+ * Creates the provider and reputation registry contract, once.
+ * Returns false when REPUTATION_REGISTRY_ADDRESS is missing, in which
+ * case feedback is kept in the local store instead.
+ */
+function setupRegistry(): boolean {
+  if (registry) return true;
+  if (!config.reputationRegistryAddress) return false;
+
+  provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  registry = new ethers.Contract(
+    config.reputationRegistryAddress,
+    REPUTATION_ABI,
+    provider
+  );
+  return true;
+}
+
+function getSigner(): ethers.Wallet | null {
+  if (!signer && config.feedbackSignerPrivateKey) {
+    signer = new ethers.Wallet(config.feedbackSignerPrivateKey);
+  }
+  return signer;
+}
+
+/**
+ * Whether feedback authorizations can be signed (they name the
+ * identity registry, so REGISTRY_ADDRESS is needed too).
+ */
+export function isFeedbackSignerConfigured(): boolean {
+  return !!config.feedbackSignerPrivateKey && !!config.registryAddress;
+}
+
+/**
+ * Whether feedback is recorded locally rather than on a registry.
+ */
+export function isLocalReputation(): boolean {
+  return !config.reputationRegistryAddress;
+}
+
+/**
+ * Score summary of an agent's feedback.
+ */
+export function getReputationSummary(agentId: number): ReputationSummary {
+  const entries = listFeedback(agentId).filter((e) => !e.revoked);
+  const since = Date.now() - THIRTY_DAYS_MS;
+  const recent = entries.filter((e) => Date.parse(e.createdAt) >= since);
+
+  const tags: ReputationSummary["tags"] = {};
+  for (const entry of entries) {
+    for (const tag of new Set([entry.tag1, entry.tag2])) {
+      if (!tag) continue;
+      const bucket = tags[tag] ?? { count: 0, averageScore: 0 };
+      bucket.averageScore =
+        (bucket.averageScore * bucket.count + entry.score) / (bucket.count + 1);
+      bucket.count++;
+      tags[tag] = bucket;
+    }
+  }
+  for (const bucket of Object.values(tags)) {
+    bucket.averageScore = round(bucket.averageScore);
+  }
+
+  return {
+    source: isLocalReputation() ? "local" : "registry",
+    registry: isLocalReputation()
+      ? null
+      : `eip155:${config.chainId}:${config.reputationRegistryAddress}`,
+    count: entries.length,
+    clients: new Set(entries.map((e) => e.clientAddress.toLowerCase())).size,
+    averageScore: average(entries),
+    last30d: { count: recent.length, averageScore: average(recent) },
+    tags,
+  };
+}
+
+/**
+ * Feedback entries of an agent from the active source, newest first.
+ */
+export function listFeedback(agentId: number): FeedbackEntry[] {
+  const state = store.read();
+  const fromRegistry = !isLocalReputation();
+  const revoked = new Set(
+    state.revocations
+      .filter((r) => r.agentId === agentId)
+      .map((r) => `${r.clientAddress.toLowerCase()}:${r.feedbackIndex}`)
+  );
+
+  return state.entries
+    .filter(
+      (e) => e.agentId === agentId && (e.blockNumber !== null) === fromRegistry
+    )
+    .map((e) => ({
+      ...e,
+      revoked: revoked.has(
+        `${e.clientAddress.toLowerCase()}:${e.feedbackIndex}`
+      ),
+    }))
+    .reverse();
+}
+
+/**
+ * Pull new feedback from the reputation registry, at most once per
+ * REPUTATION_SYNC_MINUTES. A no-op in local mode. Never throws.
+ */
+export async function syncReputation(): Promise<void> {
+  if (syncing || !setupRegistry()) return;
+  if (Date.now() - lastSyncAt < config.reputationSyncMinutes * 60 * 1000) {
+    return;
+  }
+  syncing = true;
+
+  try {
+    await syncFromRegistry();
+    lastSyncAt = Date.now();
+  } catch (error) {
+    console.error("  Reputation sync failed:", error);
+  } finally {
+    syncing = false;
+  }
+}
+
+/**
+ * Signs a feedbackAuth letting `clientAddress` give the agent one more
+ * piece of feedback. The caller checks that the client is eligible.
+ */
+export async function issueFeedbackAuth(
+  agentId: number,
+  clientAddress: string
+): Promise<FeedbackAuthorization> {
+  const wallet = getSigner();
+  if (!wallet || !config.registryAddress) {
+    throw new Error("Feedback signer not configured");
+  }
+
+  const client = ethers.getAddress(clientAddress);
+  const indexLimit = (await getLastIndex(agentId, client)) + 1;
+  const expiry =
+    Math.floor(Date.now() / 1000) + config.feedbackAuthTtlHours * 3600;
+  const fields = {
+    agentId,
+    clientAddress: client,
+    indexLimit,
+    expiry,
+    chainId: config.chainId,
+    identityRegistry: config.registryAddress,
+    signerAddress: wallet.address,
+  };
+
+  const encoded = abiCoder.encode(FEEDBACK_AUTH_TYPES, Object.values(fields));
+  const signature = await wallet.signMessage(
+    ethers.getBytes(ethers.keccak256(encoded))
+  );
+
+  return { ...fields, feedbackAuth: ethers.concat([encoded, signature]) };
+}
+
+/**
+ * Decodes a feedbackAuth and checks that this agent's signer issued it
+ * to `clientAddress` and that it has not expired.
+ * Throws with the reason otherwise, so routes can answer 400.
+ */
+export function verifyFeedbackAuth(
+  feedbackAuth: string,
+  agentId: number,
+  clientAddress: string
+): FeedbackAuthorization {
+  const wallet = getSigner();
+  if (!wallet) {
+    throw new Error("Feedback signer not configured");
+  }
+
+  let bytes: Uint8Array;
+  try {
+    bytes = ethers.getBytes(feedbackAuth);
+  } catch {
+    throw new Error("feedbackAuth is not hex");
+  }
+  if (bytes.length !== FEEDBACK_AUTH_STRUCT_BYTES + SIGNATURE_BYTES) {
+    throw new Error("feedbackAuth has the wrong length");
+  }
+
+  const encoded = bytes.slice(0, FEEDBACK_AUTH_STRUCT_BYTES);
+  const signature = ethers.hexlify(bytes.slice(FEEDBACK_AUTH_STRUCT_BYTES));
+  const [
+    authAgentId,
+    authClient,
+    indexLimit,
+    expiry,
+    chainId,
+    identityRegistry,
+    signerAddress,
+  ] = abiCoder.decode(FEEDBACK_AUTH_TYPES, encoded);
+
+  const recovered = ethers.verifyMessage(
+    ethers.getBytes(ethers.keccak256(encoded)),
+    signature
+  );
+  if (recovered !== signerAddress || recovered !== wallet.address) {
+    throw new Error("feedbackAuth was not signed by this agent");
+  }
+  if (Number(authAgentId) !== agentId) {
+    throw new Error("feedbackAuth is for another agent");
+  }
+  if (authClient.toLowerCase() !== clientAddress.toLowerCase()) {
+    throw new Error("feedbackAuth is for another client");
+  }
+  if (Number(chainId) !== config.chainId) {
+    throw new Error("feedbackAuth is for another chain");
+  }
+  if (Number(expiry) < Date.now() / 1000) {
+    throw new Error("feedbackAuth has expired");
+  }
+
+  return {
+    agentId,
+    clientAddress: authClient,
+    indexLimit: Number(indexLimit),
+    expiry: Number(expiry),
+    chainId: Number(chainId),
+    identityRegistry,
+    signerAddress,
+    feedbackAuth: ethers.hexlify(bytes),
+  };
+}
+
+/**
+ * Stores an off-chain feedback file and returns the URI and hash to
+ * pass to giveFeedback(). The file must carry a valid feedbackAuth for
+ * its agent and client. Throws on invalid files.
+ */
+export function storeFeedbackFile(
+  agentId: number,
+  file: Record<string, unknown>
+): { fileUri: string; fileHash: string } {
+  const clientAddress = String(file.clientAddress ?? "")
+    .split(":")
+    .pop() as string;
+  if (!ethers.isAddress(clientAddress)) {
+    throw new Error("clientAddress must be an address or CAIP-10 account");
+  }
+  if (Number(file.agentId) !== agentId) {
+    throw new Error("agentId does not match");
+  }
+  checkScore(file.score);
+  verifyFeedbackAuth(String(file.feedbackAuth ?? ""), agentId, clientAddress);
+
+  const content = canonicalJson(file);
+  const fileHash = ethers.keccak256(ethers.toUtf8Bytes(content));
+  fileStore.update((files) => {
+    files[fileHash] = {
+      agentId,
+      content,
+      createdAt: new Date().toISOString(),
+    };
+  });
+
+  return {
+    fileUri: `${config.baseUrl}/erc8004/reputation/feedback-files/${fileHash}`,
+    fileHash,
+  };
+}
+
+/**
+ * A stored feedback file, exactly as hashed.
+ */
+export function getFeedbackFile(fileHash: string): string | undefined {
+  return fileStore.read()[fileHash.toLowerCase()]?.content;
+}
+
+/**
+ * Records feedback in the local store, standing in for giveFeedback()
+ * when no reputation registry is configured. `signature` is the
+ * client's personal_sign of the canonical JSON of the other fields,
+ * which takes the place of the registry's msg.sender check.
+ * Throws on invalid feedback.
+ */
+export function recordLocalFeedback(input: {
+  agentId: number;
+  clientAddress: string;
+  score: number;
+  tag1?: string;
+  tag2?: string;
+  fileUri?: string;
+  fileHash?: string;
+  feedbackAuth: string;
+  signature: string;
+}): FeedbackEntry {
+  if (!isLocalReputation()) {
+    throw new Error("Feedback goes to the reputation registry");
+  }
+  if (!ethers.isAddress(input.clientAddress)) {
+    throw new Error("clientAddress must be an address");
+  }
+  checkScore(input.score);
+
+  const { signature, ...fields } = input;
+  let signedBy: string;
+  try {
+    signedBy = ethers.verifyMessage(canonicalJson(fields), signature);
+  } catch {
+    throw new Error("Invalid client signature");
+  }
+  if (signedBy.toLowerCase() !== input.clientAddress.toLowerCase()) {
+    throw new Error("Feedback was not signed by the client");
+  }
+
+  const auth = verifyFeedbackAuth(
+    input.feedbackAuth,
+    input.agentId,
+    input.clientAddress
+  );
+  const feedbackIndex = localIndex(input.agentId, auth.clientAddress) + 1;
+  if (feedbackIndex > auth.indexLimit) {
+    throw new Error("feedbackAuth index limit reached");
+  }
+
+  const entry: StoredEntry = {
+    agentId: input.agentId,
+    clientAddress: auth.clientAddress,
+    feedbackIndex,
+    score: input.score,
+    tag1: input.tag1 ?? "",
+    tag2: input.tag2 ?? "",
+    fileUri: input.fileUri ?? "",
+    fileHash: input.fileHash ?? ethers.ZeroHash,
+    createdAt: new Date().toISOString(),
+    blockNumber: null,
+    transactionHash: null,
+  };
+  store.update((state) => {
+    state.entries.push(entry);
+  });
+
+  return { ...entry, revoked: false };
+}
+
+/**
+ * Last feedback index the client has used for the agent.
+ */
+async function getLastIndex(agentId: number, client: string): Promise<number> {
+  if (!setupRegistry()) {
+    return localIndex(agentId, client);
+  }
+  return Number(await registry.getLastIndex(agentId, client));
+}
+
+function localIndex(agentId: number, client: string): number {
+  return store
+    .read()
+    .entries.filter(
+      (e) =>
+        e.agentId === agentId &&
+        e.blockNumber === null &&
+        e.clientAddress.toLowerCase() === client.toLowerCase()
+    ).length;
+}
+
+/**
+ * Index NewFeedback / FeedbackRevoked events, re-scanning the last
+ * INDEXER_CONFIRMATIONS blocks so shallow reorgs are corrected.
+ */
+async function syncFromRegistry(): Promise<void> {
+  const current = store.read();
+  const head = await provider.getBlockNumber();
+  // Set whenever REPUTATION_REGISTRY_ADDRESS is (checked with the config)
+  const startBlock = config.reputationStartBlock!;
+  const fromBlock =
+    current.lastBlock < 0
+      ? startBlock
+      : Math.max(
+          startBlock,
+          current.lastBlock - config.indexerConfirmations + 1
+        );
+
+  // Re-scan into a copy, written once it covers the re-scanned blocks:
+  // readers keep the current feedback until then, and a sync that fails
+  // before leaves it as it was
+  const keep = (e: { blockNumber: number | null }) =>
+    e.blockNumber === null || e.blockNumber < fromBlock;
+  const state: ReputationState = {
+    lastBlock: fromBlock - 1,
+    entries: current.entries.filter(keep),
+    revocations: current.revocations.filter(keep),
+  };
+
+  const topics = [
+    iface.getEvent("NewFeedback")!.topicHash,
+    iface.getEvent("FeedbackRevoked")!.topicHash,
+  ];
+  const timestamps = new Map<number, string>();
+
+  for (let start = fromBlock; start <= head; start += config.indexerBatchSize) {
+    const end = Math.min(start + config.indexerBatchSize - 1, head);
+    const logs = await provider.getLogs({
+      address: config.reputationRegistryAddress,
+      topics: [topics],
+      fromBlock: start,
+      toBlock: end,
+    });
+
+    for (const log of logs) {
+      const parsed = iface.parseLog(log);
+      if (!parsed) continue;
+      const agentId = Number(parsed.args.agentId);
+      const clientAddress: string = parsed.args.clientAddress;
+
+      if (parsed.name === "FeedbackRevoked") {
+        state.revocations.push({
+          agentId,
+          clientAddress,
+          feedbackIndex: Number(parsed.args.feedbackIndex),
+          blockNumber: log.blockNumber,
+        });
+        continue;
+      }
+
+      if (!timestamps.has(log.blockNumber)) {
+        const block = await provider.getBlock(log.blockNumber);
+        timestamps.set(
+          log.blockNumber,
+          new Date((block?.timestamp ?? 0) * 1000).toISOString()
+        );
+      }
+
+      const previous = state.entries.filter(
+        (e) =>
+          e.agentId === agentId &&
+          e.blockNumber !== null &&
+          e.clientAddress.toLowerCase() === clientAddress.toLowerCase()
+      ).length;
+      state.entries.push({
+        agentId,
+        clientAddress,
+        feedbackIndex: previous + 1,
+        score: Number(parsed.args.score),
+        tag1: decodeTag(parsed.args.tag1),
+        tag2: decodeTag(parsed.args.tag2),
+        fileUri: parsed.args.fileuri,
+        fileHash: parsed.args.filehash,
+        createdAt: timestamps.get(log.blockNumber)!,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+      });
+    }
+
+    state.lastBlock = end;
+    if (end >= current.lastBlock) store.write(state);
+  }
+  // The head moved back (a reorg to a shorter chain)
+  if (state.lastBlock < current.lastBlock) store.write(state);
+}
+
+function checkScore(score: unknown): void {
+  if (
+    typeof score !== "number" ||
+    !Number.isInteger(score) ||
+    score < 0 ||
+    score > 100
+  ) {
+    throw new Error("score must be an integer from 0 to 100");
+  }
+}
+
+function average(entries: StoredEntry[]): number | null {
+  if (entries.length === 0) return null;
+  return round(entries.reduce((sum, e) => sum + e.score, 0) / entries.length);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
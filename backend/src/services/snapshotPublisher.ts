@@ -0,0 +1,252 @@
+import fs from "fs";
+import path from "path";
+import axios from "axios";
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { canonicalJson } from "../utils/canonicalJson";
+import { createStore } from "../utils/store";
+import { encodeCar, rawBlock, RawBlock } from "../utils/cid";
+import { AgentProfile, AgentStats } from "../types";
+import { buildRegistration } from "./registrationBuilder";
+import { generateAgentCardSvg, resolveCardOptions } from "./svgGenerator";
+
+/**
+ * The registration JSON and SVG card of one stats snapshot, addressed
+ * by their IPFS CIDs. Built locally; nothing is stored until published.
+ */
+export interface SnapshotBuild {
+  agentId: number;
+  metadata: RawBlock;
+  image: RawBlock;
+  // keccak256 of what the snapshot shows, without the card's timestamp
+  contentHash: string;
+  statsUpdatedAt: string;
+}
+
+export interface PublishedSnapshot {
+  agentId: number;
+  uri: string; // ipfs://<metadataCid>
+  metadataCid: string;
+  imageCid: string;
+  contentHash: string;
+  size: number; // bytes, metadata and image
+  statsUpdatedAt: string;
+  publishedAt: string;
+  // Pushed to and pinned on IPFS_API_URL; otherwise only exported as CAR
+  pinned: boolean;
+  error?: string;
+}
+
+// Snapshot records kept, newest first; older ones and their blocks go
+const MAX_SNAPSHOTS = 500;
+
+// Stands in for the stats time when hashing a snapshot's content
+const EPOCH = new Date(0).toISOString();
+
+const blocksDir = path.join(config.dataDir, "ipfs-blocks");
+
+const store = createStore("snapshots", () => ({
+  snapshots: [] as PublishedSnapshot[],
+}));
+
+/**
+ * Builds an agent's snapshot from `stats`: the SVG card with the agent's
+ * default options, and the registration JSON with `image` pointing at
+ * the card's ipfs:// URI. The same stats always give the same CIDs.
+ *
+ * The card shows when the stats were fetched, so the CIDs change on
+ * every fetch; `contentHash` leaves that time out and only changes with
+ * the registration or the stats on the card.
+ */
+export function buildSnapshot(
+  agent: AgentProfile,
+  stats: AgentStats
+): SnapshotBuild {
+  const options = resolveCardOptions(agent, {});
+  const svg = generateAgentCardSvg(agent, stats, options);
+  const image = rawBlock(Buffer.from(svg, "utf8"));
+
+  const registration = buildRegistration(agent, stats);
+  const metadata = rawBlock(
+    Buffer.from(
+      JSON.stringify(
+        { ...registration, image: `ipfs://${image.cid}` },
+        null,
+        2
+      ),
+      "utf8"
+    )
+  );
+
+  const contentHash = ethers.keccak256(
+    ethers.toUtf8Bytes(
+      canonicalJson({
+        registration,
+        card: generateAgentCardSvg(
+          agent,
+          { ...stats, lastUpdated: EPOCH },
+          options
+        ),
+      })
+    )
+  );
+
+  return {
+    agentId: agent.agentId,
+    metadata,
+    image,
+    contentHash,
+    statsUpdatedAt: stats.lastUpdated,
+  };
+}
+
+/**
+ * The newest published snapshot of the agent with the same content as
+ * `build`, if its publish succeeded. The updater points the tokenURI
+ * there instead of publishing a copy that only differs in its time.
+ */
+export function findPublished(
+  build: SnapshotBuild
+): PublishedSnapshot | undefined {
+  const latest = store
+    .read()
+    .snapshots.find((snapshot) => snapshot.agentId === build.agentId);
+  return latest?.contentHash === build.contentHash && !latest.error
+    ? latest
+    : undefined;
+}
+
+/**
+ * Stores a snapshot's blocks for CAR export and, when IPFS_API_URL is
+ * set, pushes and pins them there. Throws when the push fails, after
+ * recording the snapshot with the error, so nothing points at content
+ * the node does not have.
+ */
+export async function publishSnapshot(
+  build: SnapshotBuild
+): Promise<PublishedSnapshot> {
+  fs.mkdirSync(blocksDir, { recursive: true });
+  for (const block of [build.metadata, build.image]) {
+    fs.writeFileSync(path.join(blocksDir, block.cid), block.data);
+  }
+
+  const snapshot: PublishedSnapshot = {
+    agentId: build.agentId,
+    uri: `ipfs://${build.metadata.cid}`,
+    metadataCid: build.metadata.cid,
+    imageCid: build.image.cid,
+    contentHash: build.contentHash,
+    size: build.metadata.data.length + build.image.data.length,
+    statsUpdatedAt: build.statsUpdatedAt,
+    publishedAt: new Date().toISOString(),
+    pinned: false,
+  };
+
+  try {
+    if (config.ipfsApiUrl) {
+      await pushBlock(build.image);
+      await pushBlock(build.metadata);
+      snapshot.pinned = true;
+    }
+  } catch (error) {
+    snapshot.error = (error as Error).message;
+    throw error;
+  } finally {
+    saveSnapshot(snapshot);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Published snapshots, newest first.
+ */
+export function listSnapshots(
+  options: { agentId?: number; limit?: number } = {}
+): PublishedSnapshot[] {
+  const { agentId, limit = 50 } = options;
+  return store
+    .read()
+    .snapshots.filter(
+      (snapshot) => agentId === undefined || snapshot.agentId === agentId
+    )
+    .slice(0, limit);
+}
+
+/**
+ * The latest snapshot published under a metadata CID.
+ */
+export function getSnapshot(cid: string): PublishedSnapshot | undefined {
+  return store
+    .read()
+    .snapshots.find((snapshot) => snapshot.metadataCid === cid);
+}
+
+/**
+ * A snapshot as a CAR file with the metadata and image blocks, both as
+ * roots. Undefined when the snapshot or its blocks are gone.
+ */
+export function exportSnapshotCar(cid: string): Buffer | undefined {
+  const snapshot = getSnapshot(cid);
+  if (!snapshot) return undefined;
+
+  const blocks: RawBlock[] = [];
+  for (const blockCid of [snapshot.metadataCid, snapshot.imageCid]) {
+    const file = path.join(blocksDir, blockCid);
+    if (!fs.existsSync(file)) return undefined;
+    blocks.push(rawBlock(fs.readFileSync(file)));
+  }
+
+  return encodeCar(blocks, blocks);
+}
+
+/**
+ * Puts one raw block on the IPFS node through the Kubo RPC API and pins
+ * it. The node must answer with the CID computed here.
+ */
+async function pushBlock(block: RawBlock): Promise<void> {
+  const form = new FormData();
+  form.append("file", new Blob([block.data]));
+
+  const response = await axios.post<{ Key: string }>(
+    `${config.ipfsApiUrl.replace(/\/$/, "")}/api/v0/block/put`,
+    form,
+    {
+      params: { "cid-codec": "raw", mhtype: "sha2-256", pin: true },
+      headers: config.ipfsApiAuthorization
+        ? { Authorization: config.ipfsApiAuthorization }
+        : {},
+      timeout: 30000,
+    }
+  );
+
+  if (response.data.Key !== block.cid) {
+    throw new Error(
+      `IPFS node stored ${response.data.Key}, expected ${block.cid}`
+    );
+  }
+}
+
+function saveSnapshot(snapshot: PublishedSnapshot): void {
+  let dropped: PublishedSnapshot[] = [];
+  const { snapshots } = store.update((data) => {
+    const all = [
+      snapshot,
+      ...data.snapshots.filter(
+        (old) => old.metadataCid !== snapshot.metadataCid
+      ),
+    ];
+    dropped = all.slice(MAX_SNAPSHOTS);
+    data.snapshots = all.slice(0, MAX_SNAPSHOTS);
+  });
+
+  // Delete blocks no kept snapshot refers to (cards can be shared)
+  const kept = new Set(
+    snapshots.flatMap((old) => [old.metadataCid, old.imageCid])
+  );
+  for (const old of dropped) {
+    for (const cid of [old.metadataCid, old.imageCid]) {
+      if (!kept.has(cid)) fs.rmSync(path.join(blocksDir, cid), { force: true });
+    }
+  }
+}
@@ -0,0 +1,174 @@
+import { config } from "../utils/config";
+import { ApiResponse, StatsIssue } from "../types";
+import { getLatestSnapshot } from "./statsHistory";
+
+type NumericField = Exclude<
+  keyof ApiResponse,
+  "currentLendingPool" | "timestamp"
+>;
+
+// Fields that count things and must be whole numbers
+const COUNT_FIELDS: NumericField[] = [
+  "totalActiveVaults",
+  "activeVaults24h",
+  "totalTransactions",
+  "transactions24h",
+];
+
+// Fields that may be negative
+const SIGNED_FIELDS: NumericField[] = ["avgAPY"];
+
+// Cumulative fields that only ever grow
+const COUNTER_FIELDS: NumericField[] = ["totalTransactions", "totalVolume"];
+
+const NUMERIC_FIELDS: NumericField[] = [
+  "totalAUM",
+  "totalActiveVaults",
+  "activeVaults24h",
+  "totalTransactions",
+  "transactions24h",
+  "avgAPY",
+  "totalVolume",
+];
+
+// Consecutive sanity rejections per agent
+const rejections = new Map<number, number>();
+
+/**
+ * Checks the shape of one provider's payload: fields it reports must
+ * have the right type and range, and `required` fields must be there.
+ * Returns one issue per offending field (none when the payload is valid).
+ */
+export function validatePayload(
+  provider: string,
+  raw: unknown,
+  required: Array<keyof ApiResponse>
+): StatsIssue[] {
+  const issue = (field: string, value: unknown, message: string) => ({
+    provider,
+    field,
+    rule: "schema" as const,
+    value,
+    message,
+  });
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return [issue("*", raw, "Payload is not a JSON object")];
+  }
+
+  const data = raw as Record<string, unknown>;
+  const issues: StatsIssue[] = [];
+
+  for (const field of required) {
+    if (data[field] == null) {
+      issues.push(issue(field, data[field], "Missing required field"));
+    }
+  }
+
+  for (const field of NUMERIC_FIELDS) {
+    const value = data[field];
+    if (value == null) continue;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push(issue(field, value, "Must be a finite number"));
+    } else if (value < 0 && !SIGNED_FIELDS.includes(field)) {
+      issues.push(issue(field, value, "Must not be negative"));
+    } else if (COUNT_FIELDS.includes(field) && !Number.isInteger(value)) {
+      issues.push(issue(field, value, "Must be a whole number"));
+    }
+  }
+
+  if (
+    data.currentLendingPool != null &&
+    typeof data.currentLendingPool !== "string"
+  ) {
+    issues.push(
+      issue("currentLendingPool", data.currentLendingPool, "Must be a string")
+    );
+  }
+  if (
+    data.timestamp != null &&
+    (typeof data.timestamp !== "string" || isNaN(Date.parse(data.timestamp)))
+  ) {
+    issues.push(issue("timestamp", data.timestamp, "Must be an ISO timestamp"));
+  }
+
+  return issues;
+}
+
+/**
+ * Applies the sanity rules to a combined payload, against the agent's
+ * last accepted snapshot:
+ * - TVL must not drop by more than STATS_MAX_TVL_DROP_PERCENT
+ * - APY must be within STATS_MIN_APY..STATS_MAX_APY
+ * - cumulative counters must not go backwards
+ *
+ * Returns the broken rules. After STATS_ACCEPT_AFTER_REJECTIONS
+ * rejections in a row the payload is accepted anyway, so a real change
+ * (a large withdrawal, an upstream reset) is not hidden forever.
+ */
+export function checkSanity(
+  agentId: number,
+  data: Partial<ApiResponse>
+): StatsIssue[] {
+  const issues: StatsIssue[] = [];
+  const last = getLatestSnapshot(agentId)?.data;
+
+  if (
+    last?.totalAUM &&
+    data.totalAUM != null &&
+    data.totalAUM < last.totalAUM * (1 - config.statsMaxTvlDropPercent / 100)
+  ) {
+    issues.push({
+      provider: null,
+      field: "totalAUM",
+      rule: "tvl-drop",
+      value: data.totalAUM,
+      message: `TVL dropped more than ${config.statsMaxTvlDropPercent}% since the last poll (was ${last.totalAUM})`,
+    });
+  }
+
+  if (
+    data.avgAPY != null &&
+    (data.avgAPY < config.statsMinApy || data.avgAPY > config.statsMaxApy)
+  ) {
+    issues.push({
+      provider: null,
+      field: "avgAPY",
+      rule: "apy-bounds",
+      value: data.avgAPY,
+      message: `APY must be between ${config.statsMinApy}% and ${config.statsMaxApy}%`,
+    });
+  }
+
+  if (config.statsRejectCounterDecrease && last) {
+    for (const field of COUNTER_FIELDS) {
+      const previous = last[field];
+      const current = data[field];
+      if (previous != null && current != null && current < previous) {
+        issues.push({
+          provider: null,
+          field,
+          rule: "counter-decrease",
+          value: current,
+          message: `Counter went backwards (was ${previous})`,
+        });
+      }
+    }
+  }
+
+  if (issues.length === 0) {
+    rejections.delete(agentId);
+    return [];
+  }
+
+  const count = (rejections.get(agentId) ?? 0) + 1;
+  if (count >= config.statsAcceptAfterRejections) {
+    console.warn(
+      `  Accepting stats for agent #${agentId} after ${count} rejections in a row`
+    );
+    rejections.delete(agentId);
+    return [];
+  }
+  rejections.set(agentId, count);
+  return issues;
+}
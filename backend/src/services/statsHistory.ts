@@ -0,0 +1,214 @@
+import fs from "fs";
+import path from "path";
+import { config } from "../utils/config";
+import { ApiResponse, SeriesPoint, StatsSnapshot, StatsTrend } from "../types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Metrics that can be queried as a series, mapped to upstream fields.
+ */
+export const HISTORY_METRICS = {
+  tvl: "totalAUM",
+  apy: "avgAPY",
+  vaults: "totalActiveVaults",
+  activeVaults: "activeVaults24h",
+  rebalances: "totalTransactions",
+  rebalances24h: "transactions24h",
+  volume: "totalVolume",
+} as const;
+
+export type HistoryMetric = keyof typeof HISTORY_METRICS;
+export type HistoryInterval = "1h" | "1d";
+
+const INTERVAL_MS: Record<HistoryInterval, number> = {
+  "1h": HOUR_MS,
+  "1d": DAY_MS,
+};
+
+// One JSON Lines file per agent, held in memory once read
+const historyDir = path.join(config.dataDir, "stats-history");
+const loaded = new Map<number, StatsSnapshot[]>();
+const compactedAt = new Map<number, number>();
+
+/**
+ * Saves a fetched upstream payload and applies retention.
+ *
+ * Snapshots are appended to the agent's file; retention rewrites it at
+ * most once an hour. Snapshots younger than STATS_RAW_RETENTION_HOURS
+ * are kept as-is. Older ones are downsampled to the last snapshot of
+ * each hour, and after STATS_HOURLY_RETENTION_DAYS to the last of each
+ * day. Anything older than STATS_RETENTION_DAYS is dropped.
+ */
+export function recordSnapshot(
+  agentId: number,
+  data: Partial<ApiResponse>
+): void {
+  const now = Date.now();
+  const snapshots = agentSnapshots(agentId);
+  const snapshot: StatsSnapshot = {
+    agentId,
+    capturedAt: new Date(now).toISOString(),
+    data,
+  };
+
+  fs.mkdirSync(historyDir, { recursive: true });
+  fs.appendFileSync(historyFile(agentId), JSON.stringify(snapshot) + "\n");
+  snapshots.push(snapshot);
+
+  if (now - (compactedAt.get(agentId) ?? 0) >= HOUR_MS) {
+    const kept = compact(snapshots, now);
+    if (kept.length < snapshots.length) {
+      const tmpPath = `${historyFile(agentId)}.tmp`;
+      fs.writeFileSync(
+        tmpPath,
+        kept.map((entry) => JSON.stringify(entry) + "\n").join("")
+      );
+      fs.renameSync(tmpPath, historyFile(agentId));
+      loaded.set(agentId, kept);
+    }
+    compactedAt.set(agentId, now);
+  }
+}
+
+/**
+ * Returns a numeric series for one metric between two instants.
+ * With an interval, points are bucketed and each bucket holds the last
+ * value observed in it. Snapshots without the metric (a provider did
+ * not report it) are left out rather than read as 0.
+ */
+export function getSeries(
+  agentId: number,
+  metric: HistoryMetric,
+  from: Date,
+  to: Date,
+  interval?: HistoryInterval
+): SeriesPoint[] {
+  const field = HISTORY_METRICS[metric];
+  const points = agentSnapshots(agentId)
+    .filter((snapshot) => {
+      const t = Date.parse(snapshot.capturedAt);
+      return (
+        t >= from.getTime() && t <= to.getTime() && snapshot.data[field] != null
+      );
+    })
+    .map((snapshot) => ({
+      t: snapshot.capturedAt,
+      value: Number(snapshot.data[field]),
+    }));
+
+  if (!interval) {
+    return points;
+  }
+
+  const bucketMs = INTERVAL_MS[interval];
+  const buckets = new Map<number, number>();
+  for (const point of points) {
+    const bucket = Math.floor(Date.parse(point.t) / bucketMs) * bucketMs;
+    buckets.set(bucket, point.value);
+  }
+
+  return [...buckets.entries()].map(([bucket, value]) => ({
+    t: new Date(bucket).toISOString(),
+    value,
+  }));
+}
+
+/**
+ * 24h and 7d changes of TVL (relative) and APY (absolute, as a decimal),
+ * measured against the newest snapshot at least that old.
+ */
+export function getTrends(
+  agentId: number,
+  current: Partial<ApiResponse>
+): { tvl: StatsTrend; avgApy: StatsTrend } {
+  const snapshots = agentSnapshots(agentId);
+  const now = Date.now();
+  const dayAgo = snapshotBefore(snapshots, now - DAY_MS);
+  const weekAgo = snapshotBefore(snapshots, now - 7 * DAY_MS);
+
+  // Metrics a provider did not report have no trend
+  const relative = (past?: number, present?: number) =>
+    past && present != null ? (present - past) / past : null;
+  // APY is a percentage upstream; trends use decimals like AgentStats
+  const absolute = (past?: number, present?: number) =>
+    past != null && present != null ? (present - past) / 100 : null;
+
+  return {
+    tvl: {
+      change24h: relative(dayAgo?.data.totalAUM, current.totalAUM),
+      change7d: relative(weekAgo?.data.totalAUM, current.totalAUM),
+    },
+    avgApy: {
+      change24h: absolute(dayAgo?.data.avgAPY, current.avgAPY),
+      change7d: absolute(weekAgo?.data.avgAPY, current.avgAPY),
+    },
+  };
+}
+
+/**
+ * The most recent stored payload of an agent.
+ */
+export function getLatestSnapshot(agentId: number): StatsSnapshot | undefined {
+  const snapshots = agentSnapshots(agentId);
+  return snapshots[snapshots.length - 1];
+}
+
+function agentSnapshots(agentId: number): StatsSnapshot[] {
+  let snapshots = loaded.get(agentId);
+  if (!snapshots) {
+    const file = historyFile(agentId);
+    snapshots = fs.existsSync(file)
+      ? fs
+          .readFileSync(file, "utf8")
+          .split("\n")
+          .filter(Boolean)
+          .map((line) => JSON.parse(line) as StatsSnapshot)
+      : [];
+    loaded.set(agentId, snapshots);
+  }
+  return snapshots;
+}
+
+function historyFile(agentId: number): string {
+  return path.join(historyDir, `${agentId}.jsonl`);
+}
+
+function snapshotBefore(
+  snapshots: StatsSnapshot[],
+  cutoff: number
+): StatsSnapshot | undefined {
+  let found: StatsSnapshot | undefined;
+  for (const snapshot of snapshots) {
+    if (Date.parse(snapshot.capturedAt) <= cutoff) {
+      found = snapshot;
+    }
+  }
+  return found;
+}
+
+function compact(snapshots: StatsSnapshot[], now: number): StatsSnapshot[] {
+  const rawCutoff = now - config.statsRawRetentionHours * HOUR_MS;
+  const hourlyCutoff = now - config.statsHourlyRetentionDays * DAY_MS;
+  const retentionCutoff = now - config.statsRetentionDays * DAY_MS;
+
+  // Last snapshot per bucket wins; raw snapshots keep their own slot
+  const kept = new Map<string, StatsSnapshot>();
+  for (const snapshot of snapshots) {
+    const t = Date.parse(snapshot.capturedAt);
+    if (t < retentionCutoff) continue;
+
+    const slot =
+      t >= rawCutoff
+        ? `raw:${t}`
+        : t >= hourlyCutoff
+        ? `hour:${Math.floor(t / HOUR_MS)}`
+        : `day:${Math.floor(t / DAY_MS)}`;
+    kept.set(slot, snapshot);
+  }
+
+  return [...kept.values()].sort(
+    (a, b) => Date.parse(a.capturedAt) - Date.parse(b.capturedAt)
+  );
+}
@@ -0,0 +1,265 @@
+import axios from "axios";
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { createCounter, createHistogram } from "../utils/metrics";
+import {
+  AgentProfile,
+  ApiResponse,
+  StatsDiscrepancy,
+  StatsField,
+  StatsIssue,
+  StatsProvenance,
+} from "../types";
+import { getDefaultAgent } from "./agentCatalog";
+import { validatePayload } from "./statsGuard";
+import {
+  isVaultFactoryConfigured,
+  listVaults,
+  syncVaults,
+} from "./vaultFactory";
+
+/**
+ * A source of raw agent stats. Providers report the upstream
+ * (ApiResponse) fields they know and leave the others out; answers
+ * without the `required` fields are rejected. Providers with `serves`
+ * are skipped for agents it returns false for.
+ */
+export interface StatsProvider {
+  name: string;
+  required: Array<keyof ApiResponse>;
+  serves?(agent: AgentProfile): boolean;
+  fetch(agent: AgentProfile): Promise<Partial<ApiResponse>>;
+}
+
+/**
+ * Upstream fields and the AgentStats fields they feed.
+ */
+const STATS_FIELDS: Record<keyof ApiResponse, StatsField> = {
+  totalAUM: "tvl",
+  totalActiveVaults: "totalVaults",
+  activeVaults24h: "activeVaults",
+  totalTransactions: "totalRebalances",
+  transactions24h: "last24hRebalances",
+  avgAPY: "avgApy",
+  totalVolume: "totalDeposited",
+  currentLendingPool: "protocolsUsed",
+  timestamp: "lastRebalanceAt",
+};
+
+// Vault balance reads sent to the RPC at once
+const VAULT_READ_BATCH = 20;
+
+let provider: ethers.JsonRpcProvider;
+
+const providerDuration = createHistogram(
+  "erc8004_stats_provider_duration_seconds",
+  "Stats provider fetch latency, by provider"
+);
+const providerResults = createCounter(
+  "erc8004_stats_provider_results_total",
+  "Stats provider fetches by provider and result (ok, error, invalid)"
+);
+
+/**
+ * The agent's daily summary API (statsApiUrl). Reports every field.
+ */
+const restProvider: StatsProvider = {
+  name: "rest",
+  required: ["totalAUM", "totalActiveVaults", "totalTransactions", "avgAPY"],
+  async fetch(agent) {
+    // Unchecked JSON; fetchStats validates it
+    const response = await axios.get<Partial<ApiResponse>>(agent.statsApiUrl, {
+      timeout: 10000,
+    });
+    return response.data;
+  },
+};
+
+/**
+ * Vaults deployed by VAULT_FACTORY_ADDRESS and their balances, read
+ * over RPC_URL. Reports TVL (the sum of VAULT_ASSETS_FUNCTION over all
+ * vaults) and the number of deployed vaults. The factory is the default
+ * agent's (AGENT_ID), so other catalog agents do not use it.
+ */
+const onchainProvider: StatsProvider = {
+  name: "onchain",
+  required: ["totalAUM", "totalActiveVaults"],
+  serves: (agent) => agent.agentId === getDefaultAgent().agentId,
+  async fetch() {
+    if (!isVaultFactoryConfigured()) {
+      throw new Error("VAULT_FACTORY_ADDRESS is not set");
+    }
+    provider ??= new ethers.JsonRpcProvider(config.rpcUrl);
+
+    await syncVaults();
+    const vaults = listVaults();
+    const fragment = ethers.FunctionFragment.from(config.vaultAssetsFunction);
+
+    let total = 0n;
+    for (let i = 0; i < vaults.length; i += VAULT_READ_BATCH) {
+      const balances: bigint[] = await Promise.all(
+        vaults
+          .slice(i, i + VAULT_READ_BATCH)
+          .map((v) =>
+            new ethers.Contract(v.vault, [fragment], provider).getFunction(
+              fragment.name
+            )()
+          )
+      );
+      total = balances.reduce((sum, balance) => sum + balance, total);
+    }
+
+    return {
+      totalAUM: Number(ethers.formatUnits(total, config.vaultAssetDecimals)),
+      totalActiveVaults: vaults.length,
+    };
+  },
+};
+
+const PROVIDERS: Record<string, StatsProvider> = {
+  rest: restProvider,
+  onchain: onchainProvider,
+};
+
+/**
+ * Fetches an agent's stats from every provider in STATS_PROVIDERS.
+ *
+ * Answers that fail validation (see validatePayload) are dropped and
+ * their problems returned as `issues`. Each field is taken from the
+ * first remaining provider, in priority order, that reports it. In
+ * crosscheck mode, numeric fields reported by several
+ * providers are compared and listed as discrepancies when they differ
+ * by more than STATS_CROSSCHECK_TOLERANCE_PERCENT. `data` is null when
+ * no provider answered. Throws on unknown provider names.
+ */
+export async function fetchStats(agent: AgentProfile): Promise<{
+  data: Partial<ApiResponse> | null;
+  provenance: StatsProvenance;
+  issues: StatsIssue[];
+}> {
+  const providers = getProviders().filter((p) => !p.serves || p.serves(agent));
+  const provenance: StatsProvenance = {
+    mode:
+      config.statsCompositeMode === "crosscheck" ? "crosscheck" : "priority",
+    providers: providers.map((p) => p.name),
+    fields: {},
+    errors: {},
+    discrepancies: [],
+  };
+
+  const results = await Promise.allSettled(
+    providers.map(async (p) => {
+      const done = providerDuration.startTimer({ provider: p.name });
+      try {
+        return await p.fetch(agent);
+      } finally {
+        done();
+      }
+    })
+  );
+  const answers: Array<{ name: string; data: Partial<ApiResponse> }> = [];
+  const issues: StatsIssue[] = [];
+  results.forEach((result, i) => {
+    const { name, required } = providers[i];
+    if (result.status === "fulfilled") {
+      const invalid = validatePayload(name, result.value, required);
+      if (invalid.length === 0) {
+        providerResults.inc({ provider: name, result: "ok" });
+        answers.push({ name, data: result.value });
+        return;
+      }
+      providerResults.inc({ provider: name, result: "invalid" });
+      console.warn(
+        `  Rejected "${name}" stats for agent #${agent.agentId}:`,
+        invalid.map(
+          (issue) =>
+            `${issue.field}=${JSON.stringify(issue.value)} (${issue.message})`
+        )
+      );
+      provenance.errors[name] = `Invalid payload: ${invalid
+        .map((issue) => issue.field)
+        .join(", ")}`;
+      issues.push(...invalid);
+    } else {
+      providerResults.inc({ provider: name, result: "error" });
+      console.error(
+        `  Stats provider "${name}" failed for agent #${agent.agentId}:`,
+        result.reason
+      );
+      provenance.errors[name] =
+        (result.reason as Error)?.message ?? String(result.reason);
+    }
+  });
+
+  if (answers.length === 0) {
+    return { data: null, provenance, issues };
+  }
+
+  // The primary answer is kept whole, so a single REST provider still
+  // stores the upstream payload as it came
+  const data: Partial<ApiResponse> = { ...answers[0].data };
+  for (const key of Object.keys(STATS_FIELDS) as Array<keyof ApiResponse>) {
+    const answer = answers.find((a) => a.data[key] != null);
+    if (!answer) continue;
+    (data as Record<string, unknown>)[key] = answer.data[key];
+    provenance.fields[STATS_FIELDS[key]] = answer.name;
+
+    if (provenance.mode === "crosscheck") {
+      const discrepancy = crossCheck(key, answers);
+      if (discrepancy) {
+        console.warn(
+          `  Stats providers disagree on ${discrepancy.field} for agent #${agent.agentId}:`,
+          discrepancy.values
+        );
+        provenance.discrepancies.push(discrepancy);
+      }
+    }
+  }
+
+  return { data, provenance, issues };
+}
+
+function getProviders(): StatsProvider[] {
+  return config.statsProviders
+    .split(",")
+    .map((name) => name.trim())
+    .filter(Boolean)
+    .map((name) => {
+      const provider = PROVIDERS[name];
+      if (!provider) {
+        throw new Error(
+          `Unknown stats provider "${name}". Use: ${Object.keys(PROVIDERS).join(
+            ", "
+          )}`
+        );
+      }
+      return provider;
+    });
+}
+
+/**
+ * Compares one numeric field across the providers that report it.
+ */
+function crossCheck(
+  key: keyof ApiResponse,
+  answers: Array<{ name: string; data: Partial<ApiResponse> }>
+): StatsDiscrepancy | null {
+  const values: Record<string, number> = {};
+  for (const answer of answers) {
+    const value = answer.data[key];
+    if (typeof value === "number") values[answer.name] = value;
+  }
+
+  const numbers = Object.values(values);
+  if (numbers.length < 2) return null;
+
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+  const difference =
+    max === min ? 0 : (max - min) / Math.max(Math.abs(min), Math.abs(max));
+  if (difference <= config.statsCrosscheckTolerancePercent / 100) {
+    return null;
+  }
+
+  return { field: STATS_FIELDS[key], values, difference };
+}
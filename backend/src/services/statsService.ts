@@ -1,68 +1,239 @@
-import axios from "axios";
+import cron from "node-cron";
 import { config } from "../utils/config";
-import { AgentStats, ApiResponse } from "../types";
+import { createCounter, createGauge } from "../utils/metrics";
+import {
+  AgentProfile,
+  AgentStats,
+  ApiResponse,
+  DataQuality,
+  StatsIssue,
+  StatsProvenance,
+} from "../types";
+import { getDefaultAgent, listAgents } from "./agentCatalog";
+import { getLatestSnapshot, getTrends, recordSnapshot } from "./statsHistory";
+import { getLiveness, recordPoll } from "./livenessService";
+import { getReputationSummary, syncReputation } from "./reputationService";
+import { fetchStats } from "./statsProviders";
+import { checkSanity } from "./statsGuard";
 
-// In-memory cache with TTL
-let cachedStats: AgentStats | null = null;
-let cacheTimestamp = 0;
-const CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+// In-memory cache, one entry per agent: the stats last served and when
+// they were fetched. Failed fetches are cached too (as stale or
+// unavailable stats), so an upstream outage is retried once per TTL.
+const statsCache = new Map<number, { stats: AgentStats; timestamp: number }>();
+
+// Fetches in progress, one per agent, shared by concurrent callers
+const inflight = new Map<number, Promise<AgentStats>>();
+
+const cacheRequests = createCounter(
+  "erc8004_stats_cache_requests_total",
+  "getStats calls answered from the cache (hit), stale while refreshing (stale), by a new fetch (miss) or by one in flight (coalesced)"
+);
+const rejections = createCounter(
+  "erc8004_stats_rejections_total",
+  "Stats payloads rejected by a sanity rule, by rule"
+);
+const tvlGauge = createGauge("erc8004_agent_tvl_usd", "Agent TVL in USD");
+const apyGauge = createGauge(
+  "erc8004_agent_apy",
+  "Agent average APY as a decimal (0.041 = 4.1%)"
+);
+const staleGauge = createGauge(
+  "erc8004_agent_stats_stale",
+  "1 while an agent's stats are stale or unavailable, else 0"
+);
 
 /**
- * Fetches live stats from the daily summary API.
- * Uses the field mappings from the implementation plan:
- * - data.totalAUM → TVL
+ * Fetches live stats for an agent from the configured stats providers
+ * (see fetchStats). Upstream fields map to stats as follows:
+ * - data.totalAUM → TVL (USD)
  * - data.totalActiveVaults → total vaults
  * - data.activeVaults24h → active vaults
  * - data.totalTransactions → total rebalances
  * - data.transactions24h → 24h rebalances
- * - data.avgAPY → avg APY
- * - data.totalVolume → total deposited
+ * - data.avgAPY → avg APY (percent upstream, a decimal here)
+ * - data.totalVolume → total deposited (USD)
  * - data.currentLendingPool → protocols used (parsed)
+ * Fields no provider reported are null (or 0 for counts).
+ *
+ * Payloads that fail validation or the sanity rules (see statsGuard)
+ * are rejected; the last good stats are served instead, with
+ * `dataQuality.status` "stale" and the issues found.
+ *
+ * Stats are cached for STATS_CACHE_TTL_SECONDS. After that, and for up
+ * to STATS_STALE_WHILE_REVALIDATE_SECONDS more, the cached stats are
+ * returned right away while a background fetch refreshes them.
+ * Concurrent callers share one fetch per agent, so a burst of requests
+ * reaches the stats providers once.
  */
-export async function getStats(): Promise<AgentStats> {
-  const now = Date.now();
+export async function getStats(
+  agent: AgentProfile = getDefaultAgent()
+): Promise<AgentStats> {
+  const cached = statsCache.get(agent.agentId);
+  const age = cached ? Date.now() - cached.timestamp : Infinity;
+
+  if (cached && age < config.statsCacheTtlSeconds * 1000) {
+    cacheRequests.inc({ result: "hit" });
+    return cached.stats;
+  }
 
-  // Return cached if fresh
-  if (cachedStats && now - cacheTimestamp < CACHE_TTL_MS) {
-    return cachedStats;
+  if (
+    cached &&
+    age <
+      (config.statsCacheTtlSeconds + config.statsStaleWhileRevalidateSeconds) *
+        1000
+  ) {
+    cacheRequests.inc({ result: "stale" });
+    refresh(agent);
+    return cached.stats;
   }
 
+  cacheRequests.inc({
+    result: inflight.has(agent.agentId) ? "coalesced" : "miss",
+  });
+  return refresh(agent);
+}
+
+/**
+ * Like getStats, but waits for the refresh instead of returning stale
+ * stats. For scheduled polls, the updater and validation evidence, which
+ * need current numbers and may run where background work is cut off.
+ */
+export async function refreshStats(
+  agent: AgentProfile = getDefaultAgent()
+): Promise<AgentStats> {
+  const cached = statsCache.get(agent.agentId);
+  if (
+    cached &&
+    Date.now() - cached.timestamp < config.statsCacheTtlSeconds * 1000
+  ) {
+    cacheRequests.inc({ result: "hit" });
+    return cached.stats;
+  }
+
+  cacheRequests.inc({
+    result: inflight.has(agent.agentId) ? "coalesced" : "miss",
+  });
+  return refresh(agent);
+}
+
+/**
+ * Fetches an agent's stats, or joins the fetch already in flight.
+ * Fetch failures resolve to the last good stats. Anything else that
+ * throws (a store that cannot be read) resolves to the cached stats,
+ * so the background refresh of stale stats never rejects; without
+ * cached stats the error is passed on.
+ */
+function refresh(agent: AgentProfile): Promise<AgentStats> {
+  const pending = inflight.get(agent.agentId);
+  if (pending) return pending;
+
+  // Feedback syncs in the background; the summary reads the local index
+  syncReputation();
+
+  const fetching = loadStats(agent, Date.now())
+    .then((stats) => {
+      const agentId = { agent_id: agent.agentId };
+      if (stats.tvl !== null) tvlGauge.set(agentId, stats.tvl);
+      if (stats.avgApy !== null) apyGauge.set(agentId, stats.avgApy);
+      staleGauge.set(agentId, stats.dataQuality.status === "ok" ? 0 : 1);
+      return stats;
+    })
+    .catch((error) => {
+      console.error(
+        `Failed to refresh stats for agent #${agent.agentId}:`,
+        error
+      );
+      const cached = statsCache.get(agent.agentId);
+      if (!cached) throw error;
+      return cached.stats;
+    })
+    .finally(() => inflight.delete(agent.agentId));
+  inflight.set(agent.agentId, fetching);
+  return fetching;
+}
+
+async function loadStats(
+  agent: AgentProfile,
+  now: number
+): Promise<AgentStats> {
+  let fetched: Awaited<ReturnType<typeof fetchStats>> | null = null;
+  let broken: StatsIssue[] = [];
   try {
-    const response = await axios.get<ApiResponse>(
-      config.statsApiUrl,
-      {
-        timeout: 10000,
-      }
-    );
+    fetched = await fetchStats(agent);
+    broken = fetched.data ? checkSanity(agent.agentId, fetched.data) : [];
+  } catch (error) {
+    console.error(`Failed to fetch stats for agent #${agent.agentId}:`, error);
+  }
 
-    const data = response.data;
-
-    const stats: AgentStats = {
-      tvl: formatUsd(data.totalAUM ?? 0),
-      totalVaults: data.totalActiveVaults ?? 0,
-      activeVaults: data.activeVaults24h ?? 0,
-      totalRebalances: data.totalTransactions ?? 0,
-      last24hRebalances: data.transactions24h ?? 0,
-      avgApy: formatPercent(data.avgAPY ?? 0),
-      totalDeposited: formatUsd(data.totalVolume ?? 0),
-      totalWithdrawn: "—", // Not available in API
-      protocolsUsed: parseProtocols(data.currentLendingPool),
-      lastRebalanceAt: data.timestamp ?? new Date().toISOString(),
-      uptimePercent: "99.9%", // Hardcoded as not in API
-      lastUpdated: new Date().toISOString(),
-    };
+  if (broken.length > 0) {
+    for (const issue of broken) rejections.inc({ rule: issue.rule });
+    console.warn(
+      `  Rejected stats for agent #${agent.agentId}:`,
+      broken.map((issue) => `${issue.field}=${issue.value} (${issue.message})`)
+    );
+  }
 
-    cachedStats = stats;
-    cacheTimestamp = now;
-    return stats;
+  // Each poll is recorded once; rejected payloads count as failed
+  // polls and are not stored
+  const accepted = broken.length === 0 ? fetched?.data ?? null : null;
+  try {
+    recordPoll(agent.agentId, accepted);
   } catch (error) {
-    console.error("Failed to fetch agent stats:", error);
+    console.error(`  Failed to record poll of agent #${agent.agentId}:`, error);
+  }
+  if (!fetched || !accepted) {
+    return cache(
+      agent,
+      getLastGoodStats(agent, fetched?.provenance ?? null, [
+        ...(fetched?.issues ?? []),
+        ...broken,
+      ]),
+      now
+    );
+  }
 
-    // Return cached data if available, otherwise fallback
-    if (cachedStats) return cachedStats;
+  const capturedAt = new Date().toISOString();
+  const stats = buildStats(agent, accepted, fetched.provenance, {
+    status: "ok",
+    lastGoodAt: capturedAt,
+    issues: fetched.issues,
+  });
 
-    return getFallbackStats();
+  try {
+    recordSnapshot(agent.agentId, accepted);
+  } catch (error) {
+    console.error(
+      `  Failed to store stats snapshot of agent #${agent.agentId}:`,
+      error
+    );
   }
+  return cache(agent, stats, now);
+}
+
+function cache(
+  agent: AgentProfile,
+  stats: AgentStats,
+  now: number
+): AgentStats {
+  statsCache.set(agent.agentId, { stats, timestamp: now });
+  return stats;
+}
+
+/**
+ * Polls every agent's stats on a schedule, so liveness and history get
+ * regular samples even when nobody requests the metadata.
+ * Call this once at server startup.
+ */
+export function initStatsPolling(): void {
+  cron.schedule(`*/${config.livenessPollMinutes} * * * *`, async () => {
+    for (const agent of listAgents()) {
+      try {
+        await refreshStats(agent);
+      } catch {
+        // Logged by refresh; the next poll tries again
+      }
+    }
+  });
 }
 
 /**
@@ -98,30 +269,111 @@ function parseProtocols(lendingPoolString: string | undefined): string[] {
   return found.length > 0 ? found : ["Morpho", "Aerodrome", "Merkl"];
 }
 
-function formatUsd(value: number): string {
-  return `$${Number(value).toLocaleString("en-US", {
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  })}`;
+function buildStats(
+  agent: AgentProfile,
+  data: Partial<ApiResponse>,
+  provenance: StatsProvenance,
+  dataQuality: DataQuality
+): AgentStats {
+  const liveness = getLiveness(agent.agentId);
+
+  return {
+    tvl: data.totalAUM ?? null,
+    totalVaults: data.totalActiveVaults ?? 0,
+    activeVaults: data.activeVaults24h ?? 0,
+    totalRebalances: data.totalTransactions ?? 0,
+    last24hRebalances: data.transactions24h ?? 0,
+    // Percent to decimal, rounded so 4.1 becomes 0.041 and not 0.04099…
+    avgApy: data.avgAPY != null ? Math.round(data.avgAPY * 1e6) / 1e8 : null,
+    totalDeposited: data.totalVolume ?? null,
+    totalWithdrawn: null, // Not available in API
+    protocolsUsed: parseProtocols(data.currentLendingPool),
+    lastRebalanceAt: data.timestamp ?? null,
+    uptime: liveness.uptime["30d"],
+    lastUpdated: new Date().toISOString(),
+    trends: getTrends(agent.agentId, data),
+    liveness,
+    reputation: getReputationSummary(agent.agentId),
+    provenance,
+    dataQuality,
+  };
+}
+
+/**
+ * Stats from the last payload that passed validation: the cached stats,
+ * or after a restart the latest stored snapshot. Falls back to
+ * placeholders when there is neither.
+ */
+function getLastGoodStats(
+  agent: AgentProfile,
+  provenance: StatsProvenance | null,
+  issues: StatsIssue[]
+): AgentStats {
+  const cached = statsCache.get(agent.agentId)?.stats;
+  if (cached && cached.dataQuality.status !== "unavailable") {
+    const liveness = getLiveness(agent.agentId);
+    return {
+      ...cached,
+      uptime: liveness.uptime["30d"],
+      liveness,
+      reputation: getReputationSummary(agent.agentId),
+      provenance: provenance
+        ? { ...cached.provenance, errors: provenance.errors }
+        : cached.provenance,
+      dataQuality: { ...cached.dataQuality, status: "stale", issues },
+    };
+  }
+
+  const snapshot = getLatestSnapshot(agent.agentId);
+  if (snapshot) {
+    return buildStats(
+      agent,
+      snapshot.data,
+      { ...emptyProvenance(), ...provenance, fields: {}, discrepancies: [] },
+      { status: "stale", lastGoodAt: snapshot.capturedAt, issues }
+    );
+  }
+
+  return getFallbackStats(agent.agentId, provenance, issues);
 }
 
-function formatPercent(value: number): string {
-  return `${Number(value).toFixed(1)}%`;
+function emptyProvenance(): StatsProvenance {
+  return {
+    mode: "priority",
+    providers: [],
+    fields: {},
+    errors: {},
+    discrepancies: [],
+  };
 }
 
-function getFallbackStats(): AgentStats {
+function getFallbackStats(
+  agentId: number,
+  provenance: StatsProvenance | null,
+  issues: StatsIssue[]
+): AgentStats {
+  const liveness = getLiveness(agentId);
+
   return {
-    tvl: "—",
+    tvl: null,
     totalVaults: 0,
     activeVaults: 0,
     totalRebalances: 0,
     last24hRebalances: 0,
-    avgApy: "—",
-    totalDeposited: "—",
-    totalWithdrawn: "—",
+    avgApy: null,
+    totalDeposited: null,
+    totalWithdrawn: null,
     protocolsUsed: ["Morpho", "Aerodrome", "Merkl"],
-    lastRebalanceAt: "—",
-    uptimePercent: "—",
+    lastRebalanceAt: null,
+    uptime: liveness.uptime["30d"],
     lastUpdated: new Date().toISOString(),
+    trends: {
+      tvl: { change24h: null, change7d: null },
+      avgApy: { change24h: null, change7d: null },
+    },
+    liveness,
+    reputation: getReputationSummary(agentId),
+    provenance: provenance ?? emptyProvenance(),
+    dataQuality: { status: "unavailable", lastGoodAt: null, issues },
   };
 }
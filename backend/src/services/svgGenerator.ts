@@ -1,39 +1,332 @@
-import { AgentStats } from "../types";
+import {
+  AgentProfile,
+  AgentStats,
+  CardLayoutName,
+  CardOptions,
+  CardThemeName,
+  CardTile,
+} from "../types";
 import { config } from "../utils/config";
+import {
+  formatCount,
+  formatDateTime,
+  formatPercent,
+  formatUsd,
+  FormatOptions,
+} from "../utils/format";
+import {
+  fitFontSize,
+  measureText,
+  TextStyle,
+  truncateText,
+} from "../utils/textMeasure";
+import { CARD_LAYOUTS, CardLayout } from "./cardLayouts";
+import { CARD_THEMES, CardTheme } from "./cardThemes";
+
+const SANS = "Arial, Helvetica, sans-serif";
+const MONO = "monospace, 'Courier New'";
+
+const BADGE_HEIGHT = 26;
+const BADGE_ROW_GAP = 8;
+
+// Large amounts are abbreviated ($8.0M) so they fit their tile
+const CARD_FORMAT: FormatOptions = { notation: "auto" };
+
+interface TileContent {
+  label: string;
+  value: string;
+  suffix?: string; // smaller text after the value
+  color: (theme: CardTheme, stats: AgentStats) => string;
+  glow?: boolean;
+  status?: boolean; // show the liveness status in the tile corner
+}
+
+const TILES: Record<CardTile, (stats: AgentStats) => TileContent> = {
+  tvl: (stats) => ({
+    label: "TVL",
+    value: formatUsd(stats.tvl, CARD_FORMAT),
+    color: (theme) => theme.value,
+    glow: true,
+  }),
+  vaults: (stats) => ({
+    label: "VAULTS DEPLOYED",
+    value: formatCount(stats.totalVaults, CARD_FORMAT),
+    suffix: `(${formatCount(stats.activeVaults, CARD_FORMAT)} active)`,
+    color: (theme) => theme.value,
+  }),
+  apy: (stats) => ({
+    label: "AVG APY",
+    value: formatPercent(stats.avgApy, CARD_FORMAT),
+    color: (theme) => theme.highlight,
+  }),
+  rebalances: (stats) => ({
+    label: "TOTAL REBALANCES",
+    value: formatCount(stats.totalRebalances, CARD_FORMAT),
+    color: (theme) => theme.value,
+  }),
+  rebalances24h: (stats) => ({
+    label: "24H REBALANCES",
+    value: formatCount(stats.last24hRebalances, CARD_FORMAT),
+    color: (theme) => theme.value,
+  }),
+  uptime: (stats) => ({
+    label: "UPTIME (30D)",
+    value: formatPercent(stats.uptime, CARD_FORMAT),
+    color: (theme, s) => theme.status[s.liveness.status],
+    status: true,
+  }),
+  reputation: ({ reputation }) => ({
+    label: "REPUTATION",
+    value:
+      reputation.averageScore === null ? "—" : `${reputation.averageScore}/100`,
+    suffix:
+      reputation.averageScore === null
+        ? undefined
+        : `(${reputation.count} reviews)`,
+    color: (theme) => theme.highlight,
+  }),
+};
+
+/**
+ * Picks the card layout, theme and tiles for a request.
+ * Query values win over the agent's `card` defaults, which win over the
+ * CARD_LAYOUT / CARD_THEME / CARD_TILES settings.
+ * Throws on unknown names so routes can answer 400.
+ */
+export function resolveCardOptions(
+  agent: AgentProfile,
+  overrides: { layout?: string; theme?: string; tiles?: string } = {}
+): CardOptions {
+  const layout =
+    overrides.layout || agent.card?.layout || config.cardLayout || "full";
+  const theme =
+    overrides.theme || agent.card?.theme || config.cardTheme || "ocean";
+
+  if (!Object.hasOwn(CARD_LAYOUTS, layout)) {
+    throw new Error(
+      `Unknown layout "${layout}". Use one of: ${Object.keys(CARD_LAYOUTS).join(
+        ", "
+      )}`
+    );
+  }
+  if (!Object.hasOwn(CARD_THEMES, theme)) {
+    throw new Error(
+      `Unknown theme "${theme}". Use one of: ${Object.keys(CARD_THEMES).join(
+        ", "
+      )}`
+    );
+  }
+
+  const tiles = (
+    overrides.tiles
+      ? overrides.tiles.split(",")
+      : agent.card?.tiles ?? config.cardTiles.split(",")
+  )
+    .map((tile) => tile.trim())
+    .filter(Boolean);
+  for (const tile of tiles) {
+    if (!Object.hasOwn(TILES, tile)) {
+      throw new Error(
+        `Unknown tile "${tile}". Use any of: ${Object.keys(TILES).join(", ")}`
+      );
+    }
+  }
+
+  return {
+    layout: layout as CardLayoutName,
+    theme: theme as CardThemeName,
+    tiles: tiles as CardTile[],
+  };
+}
 
 /**
  * Generates a dynamic SVG agent card with live protocol stats.
  * This SVG is what wallets and NFT explorers render as the NFT image.
+ *
+ * Layout geometry and colours come from the named layout and theme;
+ * text that could overflow (agent name, tile values, proof link,
+ * reputation, protocol badges) is measured and shrunk or truncated to fit.
  */
-export function generateAgentCardSvg(stats: AgentStats): string {
+export function generateAgentCardSvg(
+  agent: AgentProfile,
+  stats: AgentStats,
+  options: CardOptions = resolveCardOptions(agent)
+): string {
+  const layout = CARD_LAYOUTS[options.layout];
+  const theme = CARD_THEMES[options.theme];
+  const { width, height, padding } = layout;
+  const contentWidth = width - 2 * padding;
+
   // Format the last updated time nicely
-  const updatedAt = new Date(stats.lastUpdated);
-  const updatedStr = updatedAt.toLocaleString("en-US", {
-    month: "short",
-    day: "numeric",
-    year: "numeric",
-    hour: "2-digit",
-    minute: "2-digit",
-    timeZoneName: "short",
+  const updatedStr = formatDateTime(stats.lastUpdated, CARD_FORMAT);
+
+  const parts: string[] = [];
+
+  // Header: eyebrow, agent name
+  let y = padding;
+  if (layout.eyebrowSize > 0) {
+    y += layout.eyebrowSize - 2;
+    parts.push(`  <text x="${padding}" y="${y}" font-family="${MONO}" font-size="${layout.eyebrowSize}"
+        fill="${theme.eyebrow}" opacity="0.6" letter-spacing="3">ERC-8004 AGENT IDENTITY</text>`);
+    y += 10;
+  }
+
+  const titleStyle: TextStyle = { fontSize: layout.titleSize, bold: true };
+  const titleSize = fitFontSize(
+    agent.name,
+    contentWidth,
+    titleStyle,
+    Math.round(layout.titleSize * 0.6)
+  );
+  const title = truncateText(agent.name, contentWidth, {
+    ...titleStyle,
+    fontSize: titleSize,
   });
+  y += layout.titleSize;
+  parts.push(`  <text x="${padding}" y="${y}" font-family="${SANS}" font-size="${titleSize}"
+        fill="${theme.title}" font-weight="bold">${escapeXml(title)}</text>`);
+
+  // Chain and protocol badges
+  if (layout.badgeRows > 0) {
+    const badges = generateBadges(
+      [`${config.chainName} Mainnet`, ...stats.protocolsUsed],
+      padding,
+      y + 15,
+      contentWidth,
+      layout.badgeRows,
+      theme
+    );
+    parts.push(badges.svg);
+    y = badges.bottom;
+  }
 
-  // Generate protocol badges dynamically
-  const protocolBadges = generateProtocolBadges(stats.protocolsUsed);
+  // Divider line
+  y += 17;
+  parts.push(dividerLine(layout, y, theme));
+  y += 17;
+
+  // Stats grid
+  const tiles = (
+    options.tiles.length ? options.tiles : layout.defaultTiles
+  ).slice(0, layout.maxTiles);
+  const tileWidth =
+    (contentWidth - (layout.tileColumns - 1) * layout.tileGap) /
+    layout.tileColumns;
+  tiles.forEach((tile, i) => {
+    const col = i % layout.tileColumns;
+    const row = Math.floor(i / layout.tileColumns);
+    parts.push(
+      generateTile(
+        TILES[tile](stats),
+        padding + col * (tileWidth + layout.tileGap),
+        y + row * (layout.tileHeight + layout.tileGap),
+        tileWidth,
+        layout,
+        theme,
+        stats
+      )
+    );
+  });
+  const rows = Math.ceil(tiles.length / layout.tileColumns);
+  y += rows * layout.tileHeight + Math.max(rows - 1, 0) * layout.tileGap;
+
+  // Proof links section
+  if (layout.showProof) {
+    y += 18;
+    parts.push(dividerLine(layout, y, theme));
+
+    // Three columns: proof link, rebalance cycle, reputation
+    const column = contentWidth / 3;
+    const cycleX = padding + column;
+    const reputationX = padding + 2 * column;
+    const proofStyle: TextStyle = { fontSize: 14, mono: true };
+    const proofText = truncateText(
+      config.duneUrl.replace(/^https?:\/\//, ""),
+      column - 20,
+      proofStyle
+    );
+    const labelY = y + 27;
+    const linkY = y + 50;
+    const cycle = `Every ${config.rebalanceIntervalHours} hours`;
+    const { averageScore, count } = stats.reputation;
+    const reputationText = truncateText(
+      averageScore === null
+        ? "No feedback yet"
+        : `${averageScore}/100 (${count})`,
+      column - 20,
+      proofStyle
+    );
+    parts.push(`  <text x="${padding}" y="${labelY}" font-family="${SANS}" font-size="12"
+        fill="${theme.label}" letter-spacing="1">ON-CHAIN PROOF</text>
+  <text x="${padding}" y="${linkY}" font-family="${MONO}" font-size="14"
+        fill="${theme.link}">${escapeXml(proofText)}</text>
+
+  <text x="${cycleX}" y="${labelY}" font-family="${SANS}" font-size="12"
+        fill="${theme.label}" letter-spacing="1">REBALANCE CYCLE</text>
+  <text x="${cycleX}" y="${linkY}" font-family="${MONO}" font-size="14"
+        fill="${theme.value}">${cycle}</text>
+
+  <text x="${reputationX}" y="${labelY}" font-family="${SANS}" font-size="12"
+        fill="${theme.label}" letter-spacing="1">REPUTATION</text>
+  <text x="${reputationX}" y="${linkY}" font-family="${MONO}" font-size="14"
+        fill="${theme.highlight}">${escapeXml(reputationText)}</text>`);
+  }
+
+  // Footer
+  const statusColor = theme.status[stats.liveness.status];
+  if (layout.showFooter) {
+    const footerStyle: TextStyle = { fontSize: 11, mono: true };
+    const footerWidth = contentWidth - 80;
+    const idLine = truncateText(
+      `Agent ID: #${agent.agentId} • Registry: ${truncateAddress(
+        config.registryAddress
+      )}`,
+      footerWidth,
+      footerStyle
+    );
+    const updatedLine = truncateText(
+      `Last updated: ${updatedStr}`,
+      footerWidth,
+      footerStyle
+    );
+    const idY = height - 35;
+    const updatedY = height - 17;
+    parts.push(`  <text x="${padding}" y="${idY}" font-family="${MONO}" font-size="11"
+        fill="${theme.footer}">${escapeXml(idLine)}</text>
+  <text x="${padding}" y="${updatedY}" font-family="${MONO}" font-size="11"
+        fill="${theme.footer}">${escapeXml(updatedLine)}</text>`);
+  }
+
+  // Live indicator follows the liveness status
+  const liveX = width - 65;
+  const liveY = height - 25;
+  parts.push(`  <circle cx="${liveX}" cy="${liveY}" r="5" fill="${statusColor}" opacity="0.8">
+    <animate attributeName="opacity" values="0.4;1;0.4" dur="2s" repeatCount="indefinite" />
+  </circle>
+  <text x="${liveX + 11}" y="${liveY + 5}" font-family="${SANS}" font-size="11"
+        fill="${statusColor}">LIVE</text>`);
+
+  const [bg0, bg1, bg2] = theme.background;
+  const [tileOpacityFrom, tileOpacityTo] = theme.tileOpacity;
+  const radius = layout.radius;
+  const borderRadius = radius - 1;
+  const borderWidth = width - 2;
+  const borderHeight = height - 2;
 
   return `<?xml version="1.0" encoding="UTF-8"?>
-<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 800 500" width="800" height="500">
+<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">
   <defs>
-    <!-- Background gradient — ocean/surf theme -->
+    <!-- Background gradient -->
     <linearGradient id="bg" x1="0%" y1="0%" x2="100%" y2="100%">
-      <stop offset="0%" style="stop-color:#0a1628;stop-opacity:1" />
-      <stop offset="50%" style="stop-color:#0f2847;stop-opacity:1" />
-      <stop offset="100%" style="stop-color:#1a3a5c;stop-opacity:1" />
+      <stop offset="0%" style="stop-color:${bg0};stop-opacity:1" />
+      <stop offset="50%" style="stop-color:${bg1};stop-opacity:1" />
+      <stop offset="100%" style="stop-color:${bg2};stop-opacity:1" />
     </linearGradient>
 
     <!-- Accent gradient for stat cards -->
     <linearGradient id="accent" x1="0%" y1="0%" x2="100%" y2="0%">
-      <stop offset="0%" style="stop-color:#00d4ff;stop-opacity:0.15" />
-      <stop offset="100%" style="stop-color:#0099ff;stop-opacity:0.08" />
+      <stop offset="0%" style="stop-color:${theme.tileFrom};stop-opacity:${tileOpacityFrom}" />
+      <stop offset="100%" style="stop-color:${theme.tileTo};stop-opacity:${tileOpacityTo}" />
     </linearGradient>
 
     <!-- Glow effect -->
@@ -47,121 +340,205 @@ export function generateAgentCardSvg(stats: AgentStats): string {
   </defs>
 
   <!-- Background -->
-  <rect width="800" height="500" rx="16" fill="url(#bg)" />
+  <rect width="${width}" height="${height}" rx="${radius}" fill="url(#bg)" />
 
   <!-- Subtle border -->
-  <rect width="798" height="498" x="1" y="1" rx="15" fill="none"
-        stroke="#00d4ff" stroke-opacity="0.2" stroke-width="1" />
-
-  <!-- Header section -->
-  <text x="40" y="52" font-family="monospace, 'Courier New'" font-size="14"
-        fill="#00d4ff" opacity="0.6" letter-spacing="3">ERC-8004 AGENT IDENTITY</text>
-
-  <!-- Surf emoji + Agent name -->
-  <text x="40" y="90" font-family="Arial, Helvetica, sans-serif" font-size="28"
-        fill="#ffffff" font-weight="bold">${escapeXml(config.agentName)}</text>
-
-  <!-- Chain badge -->
-  <rect x="40" y="105" width="130" height="26" rx="13" fill="#0052ff" opacity="0.3" />
-  <text x="60" y="123" font-family="Arial, sans-serif" font-size="13"
-        fill="#4d9fff" font-weight="600">${escapeXml(config.chainName)} Mainnet</text>
-
-  <!-- Protocol badges -->
-${protocolBadges}
-
-  <!-- Divider line -->
-  <line x1="40" y1="148" x2="760" y2="148" stroke="#00d4ff" stroke-opacity="0.15" />
-
-  <!-- Stats Grid — Row 1 -->
-  <!-- TVL -->
-  <rect x="40" y="165" width="230" height="80" rx="10" fill="url(#accent)" />
-  <text x="60" y="195" font-family="Arial, sans-serif" font-size="12"
-        fill="#7eb8d0" letter-spacing="1">TVL</text>
-  <text x="60" y="228" font-family="Arial, sans-serif" font-size="28"
-        fill="#ffffff" font-weight="bold" filter="url(#glow)">${escapeXml(stats.tvl)}</text>
-
-  <!-- Vaults -->
-  <rect x="285" y="165" width="230" height="80" rx="10" fill="url(#accent)" />
-  <text x="305" y="195" font-family="Arial, sans-serif" font-size="12"
-        fill="#7eb8d0" letter-spacing="1">VAULTS DEPLOYED</text>
-  <text x="305" y="228" font-family="Arial, sans-serif" font-size="28"
-        fill="#ffffff" font-weight="bold">${stats.totalVaults}</text>
-  <text x="370" y="228" font-family="Arial, sans-serif" font-size="14"
-        fill="#7eb8d0"> (${stats.activeVaults} active)</text>
-
-  <!-- APY -->
-  <rect x="530" y="165" width="230" height="80" rx="10" fill="url(#accent)" />
-  <text x="550" y="195" font-family="Arial, sans-serif" font-size="12"
-        fill="#7eb8d0" letter-spacing="1">AVG APY</text>
-  <text x="550" y="228" font-family="Arial, sans-serif" font-size="28"
-        fill="#00ff88" font-weight="bold">${escapeXml(stats.avgApy)}</text>
-
-  <!-- Stats Grid — Row 2 -->
-  <!-- Rebalances -->
-  <rect x="40" y="260" width="230" height="80" rx="10" fill="url(#accent)" />
-  <text x="60" y="290" font-family="Arial, sans-serif" font-size="12"
-        fill="#7eb8d0" letter-spacing="1">TOTAL REBALANCES</text>
-  <text x="60" y="323" font-family="Arial, sans-serif" font-size="28"
-        fill="#ffffff" font-weight="bold">${stats.totalRebalances.toLocaleString()}</text>
-
-  <!-- 24h Rebalances -->
-  <rect x="285" y="260" width="230" height="80" rx="10" fill="url(#accent)" />
-  <text x="305" y="290" font-family="Arial, sans-serif" font-size="12"
-        fill="#7eb8d0" letter-spacing="1">24H REBALANCES</text>
-  <text x="305" y="323" font-family="Arial, sans-serif" font-size="28"
-        fill="#ffffff" font-weight="bold">${stats.last24hRebalances}</text>
-
-  <!-- Uptime -->
-  <rect x="530" y="260" width="230" height="80" rx="10" fill="url(#accent)" />
-  <text x="550" y="290" font-family="Arial, sans-serif" font-size="12"
-        fill="#7eb8d0" letter-spacing="1">UPTIME</text>
-  <text x="550" y="323" font-family="Arial, sans-serif" font-size="28"
-        fill="#00ff88" font-weight="bold">${escapeXml(stats.uptimePercent)}</text>
-
-  <!-- Divider line -->
-  <line x1="40" y1="358" x2="760" y2="358" stroke="#00d4ff" stroke-opacity="0.15" />
-
-  <!-- Proof links section -->
-  <text x="40" y="385" font-family="Arial, sans-serif" font-size="12"
-        fill="#7eb8d0" letter-spacing="1">ON-CHAIN PROOF</text>
-  <text x="40" y="408" font-family="monospace, 'Courier New'" font-size="14"
-        fill="#00d4ff">dune.com/example/stats</text>
-
-  <text x="400" y="385" font-family="Arial, sans-serif" font-size="12"
-        fill="#7eb8d0" letter-spacing="1">REBALANCE CYCLE</text>
-  <text x="400" y="408" font-family="monospace, 'Courier New'" font-size="14"
-        fill="#ffffff">Every 12 hours</text>
-
-  <!-- Footer -->
-  <text x="40" y="465" font-family="monospace, 'Courier New'" font-size="11"
-        fill="#4a6a80">Agent ID: #${config.agentId} • Registry: ${truncateAddress(config.registryAddress)}</text>
-
-  <text x="40" y="483" font-family="monospace, 'Courier New'" font-size="11"
-        fill="#4a6a80">Last updated: ${escapeXml(updatedStr)}</text>
-
-  <!-- Live indicator -->
-  <circle cx="735" cy="475" r="5" fill="#00ff88" opacity="0.8">
-    <animate attributeName="opacity" values="0.4;1;0.4" dur="2s" repeatCount="indefinite" />
-  </circle>
-  <text x="746" y="480" font-family="Arial, sans-serif" font-size="11"
-        fill="#00ff88">LIVE</text>
+  <rect width="${borderWidth}" height="${borderHeight}" x="1" y="1" rx="${borderRadius}" fill="none"
+        stroke="${theme.border}" stroke-opacity="${theme.borderOpacity}" stroke-width="1" />
+
+${parts.join("\n\n")}
 </svg>`;
 }
 
-function generateProtocolBadges(protocols: string[]): string {
-  const badges: string[] = [];
-  let xPos = 180;
-
-  for (const protocol of protocols.slice(0, 3)) {
-    // Max 3 badges
-    const width = protocol.length * 8 + 24;
-    badges.push(`  <rect x="${xPos}" y="105" width="${width}" height="26" rx="13" fill="#00d4ff" opacity="0.1" />
-  <text x="${xPos + 12}" y="123" font-family="Arial, sans-serif" font-size="12"
-        fill="#00d4ff">${escapeXml(protocol)}</text>`);
-    xPos += width + 8;
+/**
+ * Lays out the chain badge followed by protocol badges, wrapping onto
+ * up to `maxRows` rows. Badges that do not fit are replaced by a
+ * trailing "+N" badge.
+ */
+function generateBadges(
+  labels: string[],
+  left: number,
+  top: number,
+  maxWidth: number,
+  maxRows: number,
+  theme: CardTheme
+): { svg: string; bottom: number } {
+  const chainStyle: TextStyle = { fontSize: 13, bold: true };
+  const protocolStyle: TextStyle = { fontSize: 12 };
+  const widths = labels.map((label, i) =>
+    i === 0
+      ? measureText(label, chainStyle) + 40
+      : measureText(label, protocolStyle) + 24
+  );
+
+  // Positions for the given badge widths, or null if they need too many rows
+  const flow = (badgeWidths: number[]) => {
+    const positions: Array<{ x: number; y: number }> = [];
+    let x = left;
+    let row = 0;
+    for (const w of badgeWidths) {
+      if (x + w > left + maxWidth && x > left) {
+        row++;
+        x = left;
+      }
+      if (row >= maxRows) return null;
+      positions.push({ x, y: top + row * (BADGE_HEIGHT + BADGE_ROW_GAP) });
+      x += w + 8;
+    }
+    return positions;
+  };
+
+  // Show every badge if possible, otherwise as many as fit plus "+N"
+  let shown = labels.length;
+  let more = "";
+  let positions = flow(widths);
+  while (!positions && shown > 1) {
+    shown--;
+    more = `+${labels.length - shown}`;
+    positions = flow([
+      ...widths.slice(0, shown),
+      measureText(more, protocolStyle) + 24,
+    ]);
+  }
+  if (!positions) {
+    shown = 1;
+    more = "";
+    positions = [{ x: left, y: top }];
+  }
+
+  const badges = positions.map(({ x, y }, i) =>
+    i === 0
+      ? badge(x, y, widths[0], labels[0], chainStyle.fontSize, theme, true)
+      : i < shown
+      ? badge(x, y, widths[i], labels[i], protocolStyle.fontSize, theme, false)
+      : badge(
+          x,
+          y,
+          measureText(more, protocolStyle) + 24,
+          more,
+          protocolStyle.fontSize,
+          theme,
+          false
+        )
+  );
+
+  const lastRowY = positions.reduce((max, p) => Math.max(max, p.y), top);
+  return { svg: badges.join("\n"), bottom: lastRowY + BADGE_HEIGHT };
+}
+
+function badge(
+  x: number,
+  y: number,
+  width: number,
+  label: string,
+  fontSize: number,
+  theme: CardTheme,
+  chain: boolean
+): string {
+  const w = width.toFixed(0);
+  const textX = x + (chain ? 20 : 12);
+  const textY = y + 18;
+  const stroke = theme.tileStroke
+    ? ` stroke="${theme.tileStroke}" stroke-width="1"`
+    : "";
+
+  return chain
+    ? `  <rect x="${x}" y="${y}" width="${w}" height="${BADGE_HEIGHT}" rx="13" fill="${theme.chainFill}" opacity="0.3"${stroke} />
+  <text x="${textX}" y="${textY}" font-family="${SANS}" font-size="${fontSize}"
+        fill="${theme.chainText}" font-weight="600">${escapeXml(label)}</text>`
+    : `  <rect x="${x}" y="${y}" width="${w}" height="${BADGE_HEIGHT}" rx="13" fill="${theme.badgeFill}" opacity="0.1"${stroke} />
+  <text x="${textX}" y="${textY}" font-family="${SANS}" font-size="${fontSize}"
+        fill="${theme.badgeText}">${escapeXml(label)}</text>`;
+}
+
+function generateTile(
+  content: TileContent,
+  x: number,
+  y: number,
+  width: number,
+  layout: CardLayout,
+  theme: CardTheme,
+  stats: AgentStats
+): string {
+  const inset = Math.round(layout.tileHeight / 4);
+  const innerWidth = width - 2 * inset;
+  const labelY = y + Math.round(layout.tileHeight * 0.375);
+  const valueY = y + Math.round(layout.tileHeight * 0.79);
+  const color = content.color(theme, stats);
+  const stroke = theme.tileStroke
+    ? ` stroke="${theme.tileStroke}" stroke-width="1"`
+    : "";
+
+  // Status text (uptime tile) shares the label line when both fit;
+  // otherwise the value colour alone conveys the status
+  const labelStyle: TextStyle = {
+    fontSize: layout.tileLabelSize,
+    letterSpacing: 1,
+  };
+  const status = content.status ? stats.liveness.status.toUpperCase() : "";
+  const statusWidth = status
+    ? measureText(status, { fontSize: layout.tileLabelSize - 1 }) + 8
+    : 0;
+  const statusText =
+    measureText(content.label, labelStyle) + statusWidth <= innerWidth
+      ? status
+      : "";
+  const label = truncateText(content.label, innerWidth, labelStyle);
+
+  const valueStyle: TextStyle = { fontSize: layout.tileValueSize, bold: true };
+  const suffixSize = Math.round(layout.tileValueSize / 2);
+  const suffixWidth = content.suffix
+    ? measureText(` ${content.suffix}`, { fontSize: suffixSize }) + 6
+    : 0;
+  const showSuffix = !!content.suffix && suffixWidth < innerWidth / 2;
+  const valueSize = fitFontSize(
+    content.value,
+    innerWidth - (showSuffix ? suffixWidth : 0),
+    valueStyle,
+    Math.round(layout.tileValueSize * 0.5)
+  );
+  const value = truncateText(
+    content.value,
+    innerWidth - (showSuffix ? suffixWidth : 0),
+    { ...valueStyle, fontSize: valueSize }
+  );
+
+  const textX = x + inset;
+  const tileHeight = layout.tileHeight;
+  const labelSize = layout.tileLabelSize;
+  const glow = content.glow && theme.glow ? ` filter="url(#glow)"` : "";
+
+  const lines = [
+    `  <rect x="${x}" y="${y}" width="${width}" height="${tileHeight}" rx="10" fill="url(#accent)"${stroke} />`,
+    `  <text x="${textX}" y="${labelY}" font-family="${SANS}" font-size="${labelSize}"
+        fill="${theme.label}" letter-spacing="1">${escapeXml(label)}</text>`,
+    `  <text x="${textX}" y="${valueY}" font-family="${SANS}" font-size="${valueSize}"
+        fill="${color}" font-weight="bold"${glow}>${escapeXml(value)}</text>`,
+  ];
+
+  if (content.suffix && showSuffix) {
+    const valueWidth = measureText(value, {
+      ...valueStyle,
+      fontSize: valueSize,
+    });
+    const suffixX = (textX + valueWidth + 6).toFixed(0);
+    lines.push(`  <text x="${suffixX}" y="${valueY}" font-family="${SANS}" font-size="${suffixSize}"
+        fill="${theme.label}">${escapeXml(content.suffix)}</text>`);
   }
 
-  return badges.join("\n");
+  if (statusText) {
+    const statusX = x + width - inset;
+    const statusSize = labelSize - 1;
+    lines.push(`  <text x="${statusX}" y="${labelY}" font-family="${SANS}" font-size="${statusSize}"
+        fill="${color}" text-anchor="end">${statusText}</text>`);
+  }
+
+  return lines.join("\n");
+}
+
+function dividerLine(layout: CardLayout, y: number, theme: CardTheme): string {
+  const x2 = layout.width - layout.padding;
+  return `  <line x1="${layout.padding}" y1="${y}" x2="${x2}" y2="${y}" stroke="${theme.divider}" stroke-opacity="0.15" />`;
 }
 
 function escapeXml(str: string): string {
@@ -1,23 +1,163 @@
 import { ethers } from "ethers";
 import cron from "node-cron";
 import { config } from "../utils/config";
+import { canonicalJson } from "../utils/canonicalJson";
+import { createStore } from "../utils/store";
+import { REGISTRY_ABI } from "../utils/registryAbi";
+import {
+  createCounter,
+  createGauge,
+  createHistogram,
+  onCollect,
+} from "../utils/metrics";
+import { AgentProfile } from "../types";
+import { getMetadataUrl, listAgents } from "./agentCatalog";
+import { buildRegistration } from "./registrationBuilder";
+import { refreshStats } from "./statsService";
+import { buildDataUri, summarizeUri } from "./dataUriService";
+import {
+  buildSnapshot,
+  findPublished,
+  publishSnapshot,
+  SnapshotBuild,
+} from "./snapshotPublisher";
 
-// Minimal ABI — only what we need
-const REGISTRY_ABI = [
-  "function setAgentURI(uint256 agentId, string calldata newURI) external",
-  "function tokenURI(uint256 tokenId) external view returns (string)",
-];
+// A replacement outbids the stuck transaction by 25%; nodes reject
+// replacements that bid less than 10% more
+const REPLACEMENT_BUMP_PERCENT = 25n;
+const MIN_REPLACEMENT_BUMP_PERCENT = 10n;
+
+// Update records kept in the history (oldest are dropped)
+const MAX_HISTORY = 1000;
+
+// Scrapes reuse the wallet balance read within this window
+const BALANCE_TTL_MS = 60 * 1000;
 
 let provider: ethers.JsonRpcProvider;
 let wallet: ethers.Wallet;
 let registry: ethers.Contract;
+let running = false;
+let balanceReadAt = 0;
+let schedule: string | null = null; // cron expression, when this process schedules runs
+
+const updates = createCounter(
+  "erc8004_updater_updates_total",
+  "Agent tokenURI updates by outcome (updated, skipped, deferred, dry-run, failed) and trigger"
+);
+const updateDuration = createHistogram(
+  "erc8004_updater_update_duration_seconds",
+  "Time to check and update one agent's tokenURI, including confirmation",
+  [0.1, 0.5, 1, 5, 15, 30, 60, 120, 300, 600]
+);
+const gasUsed = createCounter(
+  "erc8004_updater_gas_used_total",
+  "Gas used by confirmed setAgentURI transactions"
+);
+const feesPaid = createCounter(
+  "erc8004_updater_fees_eth_total",
+  "Fees paid for confirmed setAgentURI transactions, in ETH"
+);
+const walletBalance = createGauge(
+  "erc8004_updater_wallet_balance_eth",
+  "Balance of the updater wallet, in ETH"
+);
+const pausedGauge = createGauge(
+  "erc8004_updater_paused",
+  "1 while the updater is paused, else 0"
+);
+
+// The balance is read from the chain at most once per BALANCE_TTL_MS
+onCollect(async () => {
+  pausedGauge.set({}, store.read().paused ? 1 : 0);
+  if (!setupUpdater() || Date.now() - balanceReadAt < BALANCE_TTL_MS) return;
+  await readBalance();
+});
+
+/** What started an update: the schedule, the boot-time run or an admin */
+export type UpdateTrigger = "cron" | "startup" | "admin";
+
+export interface UpdateJobResult {
+  agentId: number;
+  status: "updated" | "skipped" | "deferred" | "dry-run" | "failed";
+  uri: string;
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  fee?: string; // in ETH
+  error?: string;
+}
+
+/** One agent update, as kept in the update history */
+export interface UpdateRecord extends UpdateJobResult {
+  id: number;
+  trigger: UpdateTrigger;
+  startedAt: string;
+  finishedAt: string;
+}
+
+export interface UpdaterStatus {
+  configured: boolean;
+  paused: boolean;
+  running: boolean;
+  dryRun: boolean;
+  wallet: string | null;
+  balance: string | null; // in ETH, null when it cannot be read
+  registry: string;
+  schedule: string | null;
+  nextRunAt: string | null; // null when runs come from an external scheduler
+  lastRun: UpdateRecord | null;
+}
+
+/** One setMetadata() write of a metadata batch */
+export interface MetadataWriteResult {
+  key: string;
+  value: string; // hex-encoded bytes
+  status: "updated" | "deferred" | "dry-run" | "failed";
+  txHash?: string;
+  blockNumber?: number;
+  gasUsed?: string;
+  fee?: string; // in ETH
+  error?: string;
+}
+
+interface UpdaterState {
+  paused: boolean;
+  nextId: number;
+  history: UpdateRecord[];
+}
+
+const store = createStore<UpdaterState>("updater", () => ({
+  paused: false,
+  nextId: 1,
+  history: [],
+}));
+
+interface Fees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
 
 /**
- * Initialize the on-chain updater.
- * Call this once at server startup.
+ * Connects the updater wallet to the registry, once.
+ * Returns false when UPDATER_PRIVATE_KEY or REGISTRY_ADDRESS is missing.
+ */
+function setupUpdater(): boolean {
+  if (registry) return true;
+  if (!config.updaterPrivateKey || !config.registryAddress) return false;
+
+  provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  wallet = new ethers.Wallet(config.updaterPrivateKey, provider);
+  registry = new ethers.Contract(config.registryAddress, REGISTRY_ABI, wallet);
+  return true;
+}
+
+/**
+ * Initialize the on-chain updater for a long-running server.
+ * Call this once at server startup. Serverless deployments trigger
+ * runUpdateJob() through the jobs endpoint instead.
  */
 export function initUpdater(): void {
-  if (!config.updaterPrivateKey || !config.registryAddress) {
+  if (!setupUpdater()) {
     console.warn(
       "  Updater not configured — skipping auto-update setup.",
       "Set UPDATER_PRIVATE_KEY and REGISTRY_ADDRESS in .env"
@@ -25,74 +165,554 @@ export function initUpdater(): void {
     return;
   }
 
-  provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  wallet = new ethers.Wallet(config.updaterPrivateKey, provider);
-  registry = new ethers.Contract(config.registryAddress, REGISTRY_ABI, wallet);
-
   console.log(
-    `  Auto-updater initialized. Will update every ${config.updateIntervalHours}h`
+    `  Auto-updater initialized. Will check every ${config.updateIntervalHours}h`
   );
   console.log(`   Updater wallet: ${wallet.address}`);
   console.log(`   Registry: ${config.registryAddress}`);
-  console.log(`   Agent ID: ${config.agentId}`);
+  console.log(`   Max fee: ${config.updaterMaxFeeGwei} gwei`);
+  if (config.updaterDryRun) {
+    console.log("   Dry run: transactions are logged, not sent");
+  }
+  console.log(
+    `   Agents: ${listAgents()
+      .map((agent) => `#${agent.agentId}`)
+      .join(", ")}`
+  );
 
   // Schedule the cron job
   // Convert hours to cron expression: "0 */N * * *" = every N hours
   const cronExpression = `0 */${config.updateIntervalHours} * * *`;
+  schedule = cronExpression;
 
   cron.schedule(cronExpression, async () => {
-    await updateTokenURI();
+    await runUpdateJob("cron");
   });
 
-  // Also run once at startup (after a short delay to let server warm up)
-  setTimeout(() => updateTokenURI(), 10000);
+  // Also run once at startup (after a short delay to let server warm up).
+  // The job is idempotent, so restarts do not send extra transactions.
+  setTimeout(() => runUpdateJob("startup"), 10000);
 }
 
 /**
- * Calls setAgentURI() on-chain with a cache-busting version.
+ * The scheduled update, safe to trigger any number of times.
  *
- * The base URL stays the same (our metadata endpoint) — we just
- * append a version query param so indexers see it as a "new" URI
- * and re-fetch the metadata.
+ * Each agent's tokenURI carries a hash of its rendered metadata, so an
+ * agent is only updated when what indexers would fetch has changed.
+ * Every agent's outcome is saved to the update history. Nothing runs
+ * while the updater is paused, and overlapping runs in one process are
+ * dropped.
  */
-async function updateTokenURI(): Promise<void> {
+export async function runUpdateJob(
+  trigger: UpdateTrigger = "cron",
+  agents: AgentProfile[] = listAgents()
+): Promise<UpdateJobResult[]> {
+  if (!setupUpdater() || running || store.read().paused) {
+    return [];
+  }
+  running = true;
+
   try {
-    const version = Math.floor(Date.now() / 1000);
-    const newURI = `${config.baseUrl}/erc8004/metadata?v=${version}`;
+    const results: UpdateJobResult[] = [];
+    // One agent after another so the updater wallet's nonces stay in order
+    for (const agent of agents) {
+      const startedAt = new Date().toISOString();
+      const done = updateDuration.startTimer({});
+      const result = await updateTokenURI(agent);
+      done();
+      recordUpdate(trigger, startedAt, result);
+      results.push(result);
+    }
+    return results;
+  } finally {
+    running = false;
+  }
+}
 
-    console.log(`  Updating tokenURI for agent #${config.agentId}...`);
-    console.log(`   New URI: ${newURI}`);
+/**
+ * Whether UPDATER_PRIVATE_KEY and REGISTRY_ADDRESS are set.
+ */
+export function isUpdaterConfigured(): boolean {
+  return setupUpdater();
+}
 
-    // Check current gas price to avoid overpaying
-    const feeData = await provider.getFeeData();
-    console.log(
-      `   Gas price: ${ethers.formatUnits(feeData.gasPrice ?? 0, "gwei")} gwei`
-    );
+/**
+ * Whether an update run is in progress in this process.
+ */
+export function isUpdateRunning(): boolean {
+  return running;
+}
+
+/**
+ * Stops or restarts on-chain writes. Persisted, so it survives restarts.
+ */
+export function setUpdaterPaused(paused: boolean): void {
+  store.update((state) => {
+    state.paused = paused;
+  });
+  console.log(`  Updater ${paused ? "paused" : "resumed"}`);
+}
+
+export function isUpdaterPaused(): boolean {
+  return store.read().paused;
+}
+
+/**
+ * Update history, newest first, optionally for one agent.
+ */
+export function listUpdates(
+  options: { agentId?: number; limit?: number } = {}
+): UpdateRecord[] {
+  return store
+    .read()
+    .history.filter(
+      (r) => options.agentId === undefined || r.agentId === options.agentId
+    )
+    .reverse()
+    .slice(0, options.limit ?? 50);
+}
+
+export function getUpdate(id: number): UpdateRecord | undefined {
+  return store.read().history.find((r) => r.id === id);
+}
+
+/**
+ * Wallet, schedule and pause state of the updater, for operators.
+ */
+export async function getUpdaterStatus(): Promise<UpdaterStatus> {
+  const configured = setupUpdater();
+  let balance: string | null = null;
+  if (configured) {
+    try {
+      balance = await readBalance();
+    } catch (error) {
+      console.error("  Failed to read updater balance:", error);
+    }
+  }
+
+  const state = store.read();
+  return {
+    configured,
+    paused: state.paused,
+    running,
+    dryRun: config.updaterDryRun,
+    wallet: configured ? wallet.address : null,
+    balance,
+    registry: config.registryAddress,
+    schedule,
+    nextRunAt: schedule && !state.paused ? nextRunAt(new Date()) : null,
+    lastRun: state.history[state.history.length - 1] ?? null,
+  };
+}
+
+/**
+ * Writes metadata values of one agent from the updater wallet, one
+ * setMetadata() transaction per key, with the fee ceiling, retries and
+ * dry-run setting of tokenURI updates. Holds the update lock, so it
+ * never interleaves with an update run. After a failed write the rest
+ * of the batch is deferred. Throws when the updater is not configured
+ * or already running.
+ */
+export async function sendMetadataBatch(
+  agent: AgentProfile,
+  entries: Array<{ key: string; value: string }>,
+  dryRun = config.updaterDryRun
+): Promise<MetadataWriteResult[]> {
+  if (!setupUpdater()) throw new Error("Updater not configured");
+  if (running) throw new Error("An update is already running");
+  running = true;
+
+  try {
+    const results: MetadataWriteResult[] = [];
+    const fees = entries.length > 0 ? await getFees() : null;
 
-    const tx = await registry.setAgentURI(config.agentId, newURI, {
-      // Base mainnet gas is very cheap, but set a reasonable cap
-      gasLimit: 100000,
+    for (const { key, value } of entries) {
+      const failed = results.some((result) => result.status === "failed");
+      if (!fees || failed) {
+        results.push({ key, value, status: "deferred" });
+        continue;
+      }
+
+      try {
+        const args = [agent.agentId, key, value] as const;
+        const estimate = await registry.setMetadata.estimateGas(...args);
+        const gasLimit =
+          (estimate * BigInt(100 + config.updaterGasHeadroomPercent)) / 100n;
+
+        if (dryRun) {
+          const request = await registry.setMetadata.populateTransaction(
+            ...args,
+            { gasLimit, ...fees }
+          );
+          console.log(`   Dry run — would set ${key}:`, {
+            from: wallet.address,
+            to: request.to,
+            data: request.data,
+            gasLimit: gasLimit.toString(),
+          });
+          results.push({ key, value, status: "dry-run" });
+          continue;
+        }
+
+        console.log(
+          `  Setting metadata "${key}" of agent #${agent.agentId}...`
+        );
+        const receipt = await sendWithRetry(
+          (overrides) => registry.setMetadata(...args, overrides),
+          gasLimit,
+          fees
+        );
+        console.log(
+          `     Confirmed in block ${receipt.blockNumber} (gas used: ${receipt.gasUsed})`
+        );
+        results.push({
+          key,
+          value,
+          status: "updated",
+          txHash: receipt.hash,
+          blockNumber: receipt.blockNumber,
+          gasUsed: receipt.gasUsed.toString(),
+          fee: ethers.formatEther(receipt.fee),
+        });
+      } catch (error) {
+        console.error(`  Failed to set metadata "${key}":`, error);
+        results.push({
+          key,
+          value,
+          status: "failed",
+          error: (error as Error).message,
+        });
+      }
+    }
+    return results;
+  } finally {
+    running = false;
+  }
+}
+
+function recordUpdate(
+  trigger: UpdateTrigger,
+  startedAt: string,
+  result: UpdateJobResult
+): void {
+  updates.inc({ status: result.status, trigger });
+  if (result.gasUsed) gasUsed.inc({}, Number(result.gasUsed));
+  if (result.fee) feesPaid.inc({}, Number(result.fee));
+
+  store.update((state) => {
+    state.history.push({
+      ...result,
+      uri: summarizeUri(result.uri),
+      id: state.nextId++,
+      trigger,
+      startedAt,
+      finishedAt: new Date().toISOString(),
     });
+    state.history = state.history.slice(-MAX_HISTORY);
+  });
+}
+
+/**
+ * The updater wallet's balance in ETH, also kept in the balance gauge.
+ */
+async function readBalance(): Promise<string> {
+  balanceReadAt = Date.now();
+  const balance = ethers.formatEther(await provider.getBalance(wallet.address));
+  walletBalance.set({ wallet: wallet.address }, Number(balance));
+  return balance;
+}
+
+/**
+ * Next tick of the updater schedule: the top of every Nth hour (N =
+ * UPDATE_INTERVAL_HOURS), server time.
+ */
+function nextRunAt(now: Date): string {
+  const next = new Date(now);
+  next.setMinutes(0, 0, 0);
+  do {
+    next.setHours(next.getHours() + 1);
+  } while (next.getHours() % config.updateIntervalHours !== 0);
+  return next.toISOString();
+}
+
+/**
+ * The tokenURI an agent should have now, per TOKEN_URI_MODE:
+ * - http: the metadata endpoint with a short hash of the registration
+ *   JSON it currently serves
+ * - ipfs: the ipfs:// URI of a snapshot built from the current stats,
+ *   returned with the snapshot to publish before sending, or the last
+ *   published snapshot when its content is unchanged
+ * - data: a self-contained data: URI with the registration JSON and a
+ *   compact card, or the http URI when it is over the size/gas budget
+ */
+async function getTargetUri(
+  agent: AgentProfile
+): Promise<{ uri: string; snapshot: SnapshotBuild | null }> {
+  const stats = await refreshStats(agent);
+
+  if (config.tokenUriMode === "ipfs") {
+    const snapshot = buildSnapshot(agent, stats);
+    const published = findPublished(snapshot);
+    if (published) return { uri: published.uri, snapshot: null };
+    return { uri: `ipfs://${snapshot.metadata.cid}`, snapshot };
+  }
+  if (config.tokenUriMode === "data") {
+    const build = buildDataUri(agent, stats);
+    if (!build.overBudget) return { uri: build.uri, snapshot: null };
+    console.warn(
+      `   data: URI for agent #${agent.agentId} is over budget (${build.overBudget}); using the HTTP URI`
+    );
+  } else if (config.tokenUriMode !== "http") {
+    throw new Error(`Unknown TOKEN_URI_MODE "${config.tokenUriMode}"`);
+  }
+
+  const hash = ethers.keccak256(
+    ethers.toUtf8Bytes(canonicalJson(buildRegistration(agent, stats)))
+  );
+  return {
+    uri: `${getMetadataUrl(agent)}?v=${hash.slice(2, 18)}`,
+    snapshot: null,
+  };
+}
+
+/**
+ * Points an agent's tokenURI at its current metadata version.
+ *
+ * Skipped when the on-chain tokenURI already is that version, deferred
+ * when the network fee is above UPDATER_MAX_FEE_GWEI, and only logged in
+ * dry-run mode. In ipfs mode the snapshot is published right before the
+ * transaction; a failed push fails the update. Never throws.
+ */
+async function updateTokenURI(agent: AgentProfile): Promise<UpdateJobResult> {
+  let newURI = "";
+  try {
+    const target = await getTargetUri(agent);
+    newURI = target.uri;
+    const current: string = await registry.tokenURI(agent.agentId);
+    if (current === newURI) {
+      return { agentId: agent.agentId, status: "skipped", uri: current };
+    }
+
+    console.log(`  Updating tokenURI for agent #${agent.agentId}...`);
+    console.log(`   New URI: ${summarizeUri(newURI)}`);
+
+    const fees = await getFees();
+    if (!fees) {
+      return { agentId: agent.agentId, status: "deferred", uri: newURI };
+    }
 
-    console.log(`   Tx submitted: ${tx.hash}`);
-    const receipt = await tx.wait();
+    const estimate = await registry.setAgentURI.estimateGas(
+      agent.agentId,
+      newURI
+    );
+    const gasLimit =
+      (estimate * BigInt(100 + config.updaterGasHeadroomPercent)) / 100n;
+
+    if (config.updaterDryRun) {
+      const request = await registry.setAgentURI.populateTransaction(
+        agent.agentId,
+        newURI,
+        { gasLimit, ...fees }
+      );
+      console.log("   Dry run — would send:", {
+        from: wallet.address,
+        to: request.to,
+        data: request.data,
+        nonce: await wallet.getNonce("pending"),
+        gasLimit: gasLimit.toString(),
+        maxFeePerGas: ethers.formatUnits(fees.maxFeePerGas, "gwei") + " gwei",
+        maxPriorityFeePerGas:
+          ethers.formatUnits(fees.maxPriorityFeePerGas, "gwei") + " gwei",
+      });
+      return { agentId: agent.agentId, status: "dry-run", uri: newURI };
+    }
+
+    if (target.snapshot) {
+      const snapshot = await publishSnapshot(target.snapshot);
+      if (!snapshot.pinned) {
+        console.warn(
+          `   Snapshot ${snapshot.metadataCid} is not pinned; pin its CAR file`
+        );
+      }
+    }
+
+    const receipt = await sendWithRetry(
+      (overrides) => registry.setAgentURI(agent.agentId, newURI, overrides),
+      gasLimit,
+      fees
+    );
     console.log(
-      `     Confirmed in block ${receipt?.blockNumber} (gas used: ${receipt?.gasUsed})`
+      `     Confirmed in block ${receipt.blockNumber} (gas used: ${receipt.gasUsed})`
     );
+    return {
+      agentId: agent.agentId,
+      status: "updated",
+      uri: newURI,
+      txHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+      fee: ethers.formatEther(receipt.fee),
+    };
   } catch (error) {
-    console.error("  Failed to update tokenURI:", error);
+    console.error(`  Failed to update tokenURI of #${agent.agentId}:`, error);
+
+    // Don't crash the server — the next run tries again
+    return {
+      agentId: agent.agentId,
+      status: "failed",
+      uri: newURI,
+      error: (error as Error).message,
+    };
+  }
+}
+
+/**
+ * EIP-1559 fees for the next transaction, with maxFeePerGas capped at
+ * UPDATER_MAX_FEE_GWEI. Returns null (defer) when the current base fee
+ * plus tip is already above the ceiling.
+ */
+async function getFees(): Promise<Fees | null> {
+  const ceiling = ethers.parseUnits(config.updaterMaxFeeGwei, "gwei");
+  const [feeData, block] = await Promise.all([
+    provider.getFeeData(),
+    provider.getBlock("latest"),
+  ]);
+
+  const priority = feeData.maxPriorityFeePerGas ?? feeData.gasPrice ?? 0n;
+  const maxFee = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+  const current = (block?.baseFeePerGas ?? feeData.gasPrice ?? 0n) + priority;
+
+  console.log(
+    `   Network fee: ${ethers.formatUnits(current, "gwei")} gwei (ceiling ${
+      config.updaterMaxFeeGwei
+    } gwei)`
+  );
+  if (current > ceiling) {
+    console.warn("   Fee above ceiling — deferring update");
+    return null;
+  }
+
+  return {
+    maxFeePerGas: maxFee < ceiling ? maxFee : ceiling,
+    maxPriorityFeePerGas: priority,
+  };
+}
+
+/**
+ * Sends a registry call (`send` with the given overrides) and waits for
+ * it to be mined, retrying with exponential backoff
+ * (UPDATER_RETRY_BASE_MS × 2^attempt).
+ *
+ * Every attempt reuses one nonce, so at most one transaction can land.
+ * A transaction not mined within UPDATER_TX_TIMEOUT_SECONDS is replaced
+ * with higher fees (still capped at the ceiling); if the nonce has been
+ * used meanwhile, the receipt of whichever attempt was mined is returned.
+ */
+async function sendWithRetry(
+  send: (
+    overrides: ethers.Overrides
+  ) => Promise<ethers.ContractTransactionResponse>,
+  gasLimit: bigint,
+  initialFees: Fees
+): Promise<ethers.TransactionReceipt> {
+  const ceiling = ethers.parseUnits(config.updaterMaxFeeGwei, "gwei");
+  const nonce = await wallet.getNonce("pending");
+  const sent: string[] = [];
+  let fees = initialFees;
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= config.updaterMaxRetries; attempt++) {
+    if (attempt > 0) {
+      const delay = config.updaterRetryBaseMs * 2 ** (attempt - 1);
+      console.log(`   Retry ${attempt} in ${delay}ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+
+      const mined = await findMined(sent);
+      if (mined) return mined;
+    }
+
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      const tx = await send({ nonce, gasLimit, ...fees });
+      sent.push(tx.hash);
+      console.log(`   Tx submitted: ${tx.hash} (nonce ${nonce})`);
+
+      receipt = await provider.waitForTransaction(
+        tx.hash,
+        1,
+        config.updaterTxTimeoutSeconds * 1000
+      );
+    } catch (error) {
+      lastError = error;
 
-    // Don't crash the server — just log and retry next interval
+      if (ethers.isError(error, "NONCE_EXPIRED")) {
+        // The nonce is used — by one of our attempts or by another sender
+        const mined = await findMined(sent);
+        if (mined) return mined;
+        throw error;
+      }
+      if (
+        ethers.isError(error, "TIMEOUT") ||
+        ethers.isError(error, "REPLACEMENT_UNDERPRICED")
+      ) {
+        const bumped = bumpFees(fees, ceiling);
+        if (!bumped) {
+          throw new Error(
+            "Transaction stuck and the fee ceiling leaves no room to replace it"
+          );
+        }
+        console.warn("   Transaction stuck — replacing with higher fees");
+        fees = bumped;
+      } else {
+        console.warn("   Send failed:", (error as Error).message);
+      }
+      continue;
+    }
+
+    if (receipt?.status !== 1) {
+      throw new Error(
+        `Transaction ${receipt?.hash ?? sent[sent.length - 1]} reverted`
+      );
+    }
+    return receipt;
+  }
+
+  throw lastError ?? new Error("Update failed");
+}
+
+/**
+ * Fees for a replacement transaction, REPLACEMENT_BUMP_PERCENT higher
+ * and capped at the ceiling, or null when the cap leaves less than the
+ * MIN_REPLACEMENT_BUMP_PERCENT increase nodes accept.
+ */
+function bumpFees(fees: Fees, ceiling: bigint): Fees | null {
+  const bump = (value: bigint) =>
+    (value * (100n + REPLACEMENT_BUMP_PERCENT)) / 100n + 1n;
+  const maxFeePerGas = bump(fees.maxFeePerGas);
+  const capped = maxFeePerGas < ceiling ? maxFeePerGas : ceiling;
+  if (
+    capped * 100n <
+    fees.maxFeePerGas * (100n + MIN_REPLACEMENT_BUMP_PERCENT)
+  ) {
+    return null;
   }
+
+  const priority = bump(fees.maxPriorityFeePerGas);
+  return {
+    maxFeePerGas: capped,
+    maxPriorityFeePerGas: priority < capped ? priority : capped,
+  };
 }
 
 /**
- * Manually trigger an update (for admin endpoints or testing).
+ * Receipt of the first of our sent transactions that was mined.
  */
-export async function triggerUpdate(): Promise<string> {
-  if (!registry) {
-    return "Updater not configured";
+async function findMined(
+  hashes: string[]
+): Promise<ethers.TransactionReceipt | null> {
+  for (const hash of hashes) {
+    const receipt = await provider.getTransactionReceipt(hash);
+    if (receipt?.status === 1) return receipt;
   }
-  await updateTokenURI();
-  return "Update triggered";
+  return null;
 }
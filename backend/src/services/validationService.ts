@@ -0,0 +1,316 @@
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { createStore } from "../utils/store";
+import { canonicalJson } from "../utils/canonicalJson";
+import { decodeTag } from "../utils/bytes32";
+import { VALIDATION_ABI } from "../utils/validationAbi";
+import { AgentProfile, StatsEvidence, ValidationRecord } from "../types";
+import { refreshStats } from "./statsService";
+import { getLatestSnapshot } from "./statsHistory";
+
+interface EvidenceDocument {
+  agentId: number;
+  capturedAt: string; // snapshot the document was frozen from
+  content: string; // canonical JSON, served byte for byte
+  createdAt: string;
+}
+
+const store = createStore<{ records: ValidationRecord[] }>(
+  "validation",
+  () => ({ records: [] })
+);
+const evidenceStore = createStore<Record<string, EvidenceDocument>>(
+  "validation-evidence",
+  () => ({})
+);
+
+const iface = new ethers.Interface(VALIDATION_ABI);
+
+let registry: ethers.Contract;
+let lastSyncAt = 0;
+let syncing = false;
+
+/**
+ * Creates the validation registry contract, once. Returns false when
+ * VALIDATION_REGISTRY_ADDRESS is missing; validators then answer with
+ * signed responses only.
+ */
+function setupRegistry(): boolean {
+  if (registry) return true;
+  if (!config.validationRegistryAddress) return false;
+
+  registry = new ethers.Contract(
+    config.validationRegistryAddress,
+    VALIDATION_ABI,
+    new ethers.JsonRpcProvider(config.rpcUrl)
+  );
+  return true;
+}
+
+/**
+ * CAIP-10 address of the validation registry, or null without one.
+ */
+export function getValidationRegistry(): string | null {
+  return config.validationRegistryAddress
+    ? `eip155:${config.chainId}:${config.validationRegistryAddress}`
+    : null;
+}
+
+/**
+ * Freezes the agent's latest accepted stats, the upstream payload they
+ * were built from and the providers that reported each field into a
+ * canonical evidence document, stored under its keccak256. A snapshot
+ * is frozen once: asking again before the next accepted poll returns
+ * the same document, while the same numbers captured later get a new
+ * one. Throws when no payload has been fetched yet.
+ */
+export async function freezeEvidence(
+  agent: AgentProfile
+): Promise<{ evidence: StatsEvidence; hash: string; uri: string }> {
+  const stats = await refreshStats(agent);
+  const snapshot = getLatestSnapshot(agent.agentId);
+  if (!snapshot) {
+    throw new Error(`No stats fetched yet for agent #${agent.agentId}`);
+  }
+
+  const frozen = Object.entries(evidenceStore.read()).find(
+    ([, document]) =>
+      document.agentId === agent.agentId &&
+      document.capturedAt === snapshot.capturedAt
+  );
+  if (frozen) {
+    const [hash, document] = frozen;
+    return {
+      evidence: JSON.parse(document.content) as StatsEvidence,
+      hash,
+      uri: getEvidenceUrl(hash),
+    };
+  }
+
+  const { data } = snapshot;
+  const claims = {
+    tvlUsd: data.totalAUM,
+    avgApyPercent: data.avgAPY,
+    totalVaults: data.totalActiveVaults,
+    activeVaults: data.activeVaults24h,
+    totalRebalances: data.totalTransactions,
+    rebalances24h: data.transactions24h,
+  };
+  const evidence: StatsEvidence = {
+    version: 1,
+    agentRegistry: `eip155:${config.chainId}:${config.registryAddress}`,
+    agentId: agent.agentId,
+    capturedAt: snapshot.capturedAt,
+    source: {
+      url: agent.statsApiUrl,
+      response: data,
+      provenance: stats.provenance,
+    },
+    // Metrics the source did not report are left out, not claimed as 0
+    claims: Object.fromEntries(
+      Object.entries(claims).filter(([, value]) => value != null)
+    ),
+    stats,
+    proof: config.duneUrl,
+  };
+
+  const content = canonicalJson(evidence);
+  const hash = ethers.keccak256(ethers.toUtf8Bytes(content));
+  evidenceStore.update((documents) => {
+    documents[hash] ??= {
+      agentId: agent.agentId,
+      capturedAt: snapshot.capturedAt,
+      content,
+      createdAt: new Date().toISOString(),
+    };
+  });
+
+  return { evidence, hash, uri: getEvidenceUrl(hash) };
+}
+
+/**
+ * A stored evidence document, exactly as hashed.
+ */
+export function getEvidence(hash: string): string | undefined {
+  return evidenceStore.read()[hash.toLowerCase()]?.content;
+}
+
+/**
+ * Freezes fresh evidence and records a validation request for it; a
+ * request for an already frozen snapshot and the same validator
+ * returns the existing record. Returns the record and, with a validation registry configured, the
+ * validationRequest() transaction for the agent owner to send.
+ * Throws when no validator is given or configured.
+ */
+export async function requestValidation(
+  agent: AgentProfile,
+  validatorAddress = config.validatorAddress
+): Promise<{
+  record: ValidationRecord;
+  transaction: { to: string; data: string; chainId: number } | null;
+}> {
+  if (!ethers.isAddress(validatorAddress)) {
+    throw new Error("validatorAddress must be an address");
+  }
+  const validator = ethers.getAddress(validatorAddress);
+  const { hash, uri } = await freezeEvidence(agent);
+
+  let record = store
+    .read()
+    .records.find(
+      (r) => r.requestHash === hash && r.validatorAddress === validator
+    );
+  if (!record) {
+    record = {
+      requestHash: hash,
+      agentId: agent.agentId,
+      validatorAddress: validator,
+      requestUri: uri,
+      requestedAt: new Date().toISOString(),
+      response: null,
+      responseUri: "",
+      responseHash: ethers.ZeroHash,
+      tag: "",
+      respondedAt: null,
+      respondedVia: null,
+    };
+    const created = record;
+    store.update((state) => {
+      state.records.push(created);
+    });
+  }
+
+  const transaction = config.validationRegistryAddress
+    ? {
+        to: config.validationRegistryAddress,
+        data: iface.encodeFunctionData("validationRequest", [
+          validator,
+          agent.agentId,
+          uri,
+          hash,
+        ]),
+        chainId: config.chainId,
+      }
+    : null;
+
+  return { record, transaction };
+}
+
+/**
+ * Records a validator's off-chain response. `signature` is the
+ * validator's personal_sign of the canonical JSON of the other fields.
+ * Throws on unknown requests and invalid responses or signatures.
+ */
+export function recordSignedResponse(input: {
+  requestHash: string;
+  response: number;
+  responseUri?: string;
+  responseHash?: string;
+  tag?: string;
+  signature: string;
+}): ValidationRecord {
+  const { signature, ...fields } = input;
+  const requestHash = String(fields.requestHash ?? "").toLowerCase();
+  const record = store
+    .read()
+    .records.find((r) => r.requestHash === requestHash);
+  if (!record) {
+    throw new Error("Unknown validation request");
+  }
+  if (
+    typeof fields.response !== "number" ||
+    !Number.isInteger(fields.response) ||
+    fields.response < 0 ||
+    fields.response > 100
+  ) {
+    throw new Error("response must be an integer from 0 to 100");
+  }
+
+  let signedBy: string;
+  try {
+    signedBy = ethers.verifyMessage(canonicalJson(fields), signature);
+  } catch {
+    throw new Error("Invalid validator signature");
+  }
+  if (signedBy !== record.validatorAddress) {
+    throw new Error("Response was not signed by the requested validator");
+  }
+
+  store.update(() => {
+    record.response = fields.response;
+    record.responseUri = fields.responseUri ?? "";
+    record.responseHash = fields.responseHash ?? ethers.ZeroHash;
+    record.tag = fields.tag ?? "";
+    record.respondedAt = new Date().toISOString();
+    record.respondedVia = "signature";
+  });
+  return record;
+}
+
+/**
+ * Validation requests of an agent, newest first.
+ */
+export function listValidations(agentId: number): ValidationRecord[] {
+  return store
+    .read()
+    .records.filter((r) => r.agentId === agentId)
+    .reverse();
+}
+
+/**
+ * The newest answered validation request of an agent.
+ */
+export function getLatestValidation(agentId: number): ValidationRecord | null {
+  return (
+    listValidations(agentId)
+      .filter((r) => r.respondedAt !== null)
+      .sort(
+        (a, b) => Date.parse(b.respondedAt!) - Date.parse(a.respondedAt!)
+      )[0] ?? null
+  );
+}
+
+/**
+ * Read the registry status of every recorded request, at most once per
+ * VALIDATION_SYNC_MINUTES. A no-op without a validation registry.
+ * Never throws.
+ */
+export async function syncValidation(): Promise<void> {
+  if (syncing || !config.validationEnabled || !setupRegistry()) return;
+  if (Date.now() - lastSyncAt < config.validationSyncMinutes * 60 * 1000) {
+    return;
+  }
+  syncing = true;
+
+  try {
+    const { records } = store.read();
+    for (const record of records) {
+      const status = await registry.getValidationStatus(record.requestHash);
+      const lastUpdate = Number(status.lastUpdate);
+      if (lastUpdate === 0) continue; // not requested on-chain, or no answer
+
+      const respondedAt = new Date(lastUpdate * 1000).toISOString();
+      if (
+        record.respondedVia === "registry" &&
+        record.respondedAt === respondedAt
+      ) {
+        continue;
+      }
+      store.update(() => {
+        record.response = Number(status.response);
+        record.tag = decodeTag(status.tag);
+        record.respondedAt = respondedAt;
+        record.respondedVia = "registry";
+      });
+    }
+    lastSyncAt = Date.now();
+  } catch (error) {
+    console.error("  Validation sync failed:", error);
+  } finally {
+    syncing = false;
+  }
+}
+
+function getEvidenceUrl(hash: string): string {
+  return `${config.baseUrl}/erc8004/validation/evidence/${hash}`;
+}
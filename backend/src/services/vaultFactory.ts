@@ -0,0 +1,120 @@
+import { ethers } from "ethers";
+import { config } from "../utils/config";
+import { createStore } from "../utils/store";
+
+interface VaultFactoryState {
+  lastBlock: number; // -1 before the first run
+  vaults: Array<{ owner: string; vault: string; blockNumber: number }>;
+}
+
+const store = createStore<VaultFactoryState>("vault-factory", () => ({
+  lastBlock: -1,
+  vaults: [],
+}));
+
+let provider: ethers.JsonRpcProvider;
+let iface: ethers.Interface;
+let syncing: Promise<void> | null = null;
+
+/**
+ * Creates the RPC provider, once. Returns false when
+ * VAULT_FACTORY_ADDRESS is missing.
+ */
+function setupVaultFactory(): boolean {
+  if (provider) return true;
+  if (!config.vaultFactoryAddress) return false;
+
+  provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  iface = new ethers.Interface([config.vaultCreatedEvent]);
+  return true;
+}
+
+/**
+ * Whether vault ownership can be checked at all.
+ */
+export function isVaultFactoryConfigured(): boolean {
+  return !!config.vaultFactoryAddress;
+}
+
+/**
+ * Index vault deployments (VAULT_CREATED_EVENT, whose first two
+ * arguments are the owner and the vault) up to the chain head.
+ * Concurrent callers share one run; the last INDEXER_CONFIRMATIONS
+ * blocks are re-scanned every time.
+ */
+export function syncVaults(): Promise<void> {
+  if (!setupVaultFactory()) return Promise.resolve();
+  if (!syncing) {
+    syncing = runSync().finally(() => {
+      syncing = null;
+    });
+  }
+  return syncing;
+}
+
+/**
+ * Whether the address owns at least one vault from the factory.
+ */
+export async function isVaultClient(address: string): Promise<boolean> {
+  await syncVaults();
+  const owner = address.toLowerCase();
+  return store.read().vaults.some((v) => v.owner.toLowerCase() === owner);
+}
+
+/**
+ * Vaults indexed so far, oldest first. Call syncVaults() first for an
+ * up-to-date list.
+ */
+export function listVaults(): VaultFactoryState["vaults"] {
+  return store.read().vaults;
+}
+
+async function runSync(): Promise<void> {
+  const current = store.read();
+  const head = await provider.getBlockNumber();
+  // Set whenever VAULT_FACTORY_ADDRESS is (checked with the config)
+  const startBlock = config.vaultFactoryStartBlock!;
+  const fromBlock =
+    current.lastBlock < 0
+      ? startBlock
+      : Math.max(
+          startBlock,
+          current.lastBlock - config.indexerConfirmations + 1
+        );
+
+  // Re-scan into a copy, written once it covers the re-scanned blocks:
+  // readers keep the current vaults until then, and a sync that fails
+  // before leaves them as they were
+  const state: VaultFactoryState = {
+    lastBlock: fromBlock - 1,
+    vaults: current.vaults.filter((v) => v.blockNumber < fromBlock),
+  };
+  const topic = iface.fragments
+    .filter((f): f is ethers.EventFragment => f.type === "event")
+    .map((f) => f.topicHash)[0];
+
+  for (let start = fromBlock; start <= head; start += config.indexerBatchSize) {
+    const end = Math.min(start + config.indexerBatchSize - 1, head);
+    const logs = await provider.getLogs({
+      address: config.vaultFactoryAddress,
+      topics: [topic],
+      fromBlock: start,
+      toBlock: end,
+    });
+
+    for (const log of logs) {
+      const parsed = iface.parseLog(log);
+      if (!parsed) continue;
+      state.vaults.push({
+        owner: parsed.args[0],
+        vault: parsed.args[1],
+        blockNumber: log.blockNumber,
+      });
+    }
+
+    state.lastBlock = end;
+    if (end >= current.lastBlock) store.write(state);
+  }
+  // The head moved back (a reorg to a shorter chain)
+  if (state.lastBlock < current.lastBlock) store.write(state);
+}
@@ -1,16 +1,184 @@
+/**
+ * Live stats of an agent as raw values (null when unknown). Format them
+ * for display with formatStats (utils/format.ts).
+ */
 export interface AgentStats {
-  tvl: string;               // e.g., "$236,413"
+  tvl: number | null;        // USD, e.g., 236413
   totalVaults: number;       // e.g., 108
   activeVaults: number;      // e.g., 2 (active in last 24h)
   totalRebalances: number;   // e.g., 4030
   last24hRebalances: number; // e.g., 12
-  avgApy: string;            // e.g., "4.1%"
-  totalDeposited: string;    // e.g., "$8,037,433"
-  totalWithdrawn: string;    // e.g., "—" (not in API)
+  avgApy: number | null;     // decimal, e.g., 0.041 = 4.1%
+  totalDeposited: number | null; // USD, e.g., 8037433
+  totalWithdrawn: number | null; // USD (not in API)
   protocolsUsed: string[];   // e.g., ["Morpho", "Aerodrome", "Merkl"]
-  lastRebalanceAt: string;   // ISO timestamp
-  uptimePercent: string;     // e.g., "99.9%"
+  lastRebalanceAt: string | null; // ISO timestamp
+  uptime: number | null;     // rolling 30d fraction, e.g., 0.999
   lastUpdated: string;       // ISO timestamp
+  trends: {
+    tvl: StatsTrend;         // relative change, e.g. 0.05 = +5%
+    avgApy: StatsTrend;      // change in APY, e.g. -0.003 = -0.3 points
+  };
+  liveness: LivenessReport;
+  reputation: ReputationSummary;
+  provenance: StatsProvenance;
+  dataQuality: DataQuality;
+}
+
+export type LivenessStatus = "healthy" | "degraded" | "stalled" | "unknown";
+
+/**
+ * Observed liveness of an agent. Uptime values are fractions (0.999)
+ * of the observed time in each window, or null without observations.
+ */
+export interface LivenessReport {
+  status: LivenessStatus;
+  lastActivityAt: string | null;     // last observed rebalance (ISO)
+  nextRebalanceDueAt: string | null; // lastActivityAt + rebalance cycle
+  uptime: {
+    "24h": number | null;
+    "7d": number | null;
+    "30d": number | null;
+  };
+  apiAvailability24h: number | null; // share of successful stats polls
+}
+
+/**
+ * AgentStats with amounts, percentages, counts and times formatted for
+ * one locale ("—" when unknown), as served by /erc8004/stats?format=display.
+ */
+export interface DisplayStats
+  extends Omit<
+    AgentStats,
+    | "tvl"
+    | "totalVaults"
+    | "activeVaults"
+    | "totalRebalances"
+    | "last24hRebalances"
+    | "avgApy"
+    | "totalDeposited"
+    | "totalWithdrawn"
+    | "lastRebalanceAt"
+    | "uptime"
+    | "lastUpdated"
+    | "trends"
+  > {
+  tvl: string;               // e.g., "$236,413"
+  totalVaults: string;
+  activeVaults: string;
+  totalRebalances: string;   // e.g., "4,030"
+  last24hRebalances: string;
+  avgApy: string;            // e.g., "4.1%"
+  totalDeposited: string;    // e.g., "$8.0M" in compact notation
+  totalWithdrawn: string;
+  lastRebalanceAt: string;
+  uptime: string;            // e.g., "99.9%"
+  lastUpdated: string;
+  trends: {
+    tvl: { change24h: string; change7d: string }; // e.g., "+5.0%"
+    avgApy: { change24h: string; change7d: string }; // e.g., "-0.3 pts"
+  };
+}
+
+/** Change of a metric against stored history (null without history) */
+export interface StatsTrend {
+  change24h: number | null;
+  change7d: number | null;
+}
+
+/** AgentStats fields that stats providers supply */
+export type StatsField =
+  | "tvl"
+  | "totalVaults"
+  | "activeVaults"
+  | "totalRebalances"
+  | "last24hRebalances"
+  | "avgApy"
+  | "totalDeposited"
+  | "protocolsUsed"
+  | "lastRebalanceAt";
+
+/**
+ * Where the stats came from: the provider behind each field, providers
+ * that failed, and (in crosscheck mode) fields the providers disagree on.
+ */
+export interface StatsProvenance {
+  mode: "priority" | "crosscheck";
+  providers: string[];       // Configured providers, in priority order
+  fields: Partial<Record<StatsField, string>>; // Field → provider
+  errors: Record<string, string>; // Provider → error of its last fetch
+  discrepancies: StatsDiscrepancy[];
+}
+
+/** A field whose providers differ by more than the tolerance */
+export interface StatsDiscrepancy {
+  field: StatsField;
+  values: Record<string, number>; // Provider → reported value
+  difference: number;        // Largest relative difference, e.g. 0.12 = 12%
+}
+
+/**
+ * Whether the stats are fresh. "stale" stats are the last payload that
+ * passed validation, served because the latest one failed or was
+ * rejected; "unavailable" means no payload ever passed.
+ */
+export interface DataQuality {
+  status: "ok" | "stale" | "unavailable";
+  lastGoodAt: string | null; // When the shown numbers were fetched
+  issues: StatsIssue[];      // Problems found in the latest fetch
+}
+
+/** A field of a stats payload that failed validation or a sanity rule */
+export interface StatsIssue {
+  provider: string | null;   // null for rules on the combined payload
+  field: string;
+  rule: "schema" | "tvl-drop" | "apy-bounds" | "counter-decrease";
+  value: unknown;
+  message: string;
+}
+
+/** A fetched upstream payload, kept for the time-series history */
+export interface StatsSnapshot {
+  agentId: number;
+  capturedAt: string;        // ISO timestamp
+  data: Partial<ApiResponse>; // Fields the stats providers reported
+}
+
+/** One point of a numeric time series */
+export interface SeriesPoint {
+  t: string;                 // ISO timestamp (bucket start when downsampled)
+  value: number;
+}
+
+/**
+ * One agent served by this backend. The catalog holds one of these per
+ * agent registered on the shared AgentIdentityRegistry.
+ */
+export interface AgentProfile {
+  agentId: number;           // Token ID on the registry
+  name: string;              // Display name
+  wallet: string;            // Wallet the agent transacts from ("" if unset)
+  statsApiUrl: string;       // Daily summary API for this agent
+  description: string;       // Static description (live stats are appended)
+  card?: Partial<CardOptions>; // Card defaults for this agent
+}
+
+export type CardLayoutName = "full" | "compact" | "square";
+export type CardThemeName = "ocean" | "light" | "high-contrast";
+export type CardTile =
+  | "tvl"
+  | "vaults"
+  | "apy"
+  | "rebalances"
+  | "rebalances24h"
+  | "uptime"
+  | "reputation";
+
+/** How the SVG agent card is drawn */
+export interface CardOptions {
+  layout: CardLayoutName;
+  theme: CardThemeName;
+  tiles: CardTile[];         // Empty means the layout's default tiles
 }
 
 export interface ERC8004Registration {
@@ -29,6 +197,162 @@ export interface ERC8004Registration {
   }>;
   supportedTrust: string[];
   agentWallet?: Record<string, string>;
+  reputation?: {
+    registry: string | null;   // CAIP-10 address, null for the local store
+    endpoint: string;          // Full summary and feedback
+    count: number;
+    averageScore: number | null;
+  };
+  validation?: {
+    registry: string | null;   // CAIP-10 address, null when responses are off-chain only
+    endpoint: string;          // All requests and responses
+    latest: ValidationRecord | null; // Newest answered request
+  };
+}
+
+/**
+ * Frozen stats snapshot a validator re-checks. Its keccak256 over the
+ * canonical JSON is the requestHash of a validation request.
+ */
+export interface StatsEvidence {
+  version: 1;
+  agentRegistry: string;     // CAIP-10 address of the identity registry
+  agentId: number;
+  capturedAt: string;        // When the source payload was fetched
+  source: {
+    url: string;             // Agent stats API (used by the "rest" provider)
+    response: Partial<ApiResponse>;
+    provenance: StatsProvenance; // Provider that reported each field
+  };
+  claims: Partial<{          // The published numbers, unformatted; metrics
+    tvlUsd: number;          // the source did not report are left out
+    avgApyPercent: number;
+    totalVaults: number;
+    activeVaults: number;
+    totalRebalances: number;
+    rebalances24h: number;
+  }>;
+  stats: AgentStats;         // As shown in metadata and the card
+  proof: string;             // On-chain proof dashboard
+}
+
+/** A validation request and, once answered, the validator's response */
+export interface ValidationRecord {
+  requestHash: string;       // keccak256 of the evidence document
+  agentId: number;
+  validatorAddress: string;
+  requestUri: string;        // Content-addressed evidence URL
+  requestedAt: string;
+  response: number | null;   // 0–100, null while pending
+  responseUri: string;
+  responseHash: string;
+  tag: string;
+  respondedAt: string | null;
+  respondedVia: "registry" | "signature" | null;
+}
+
+/**
+ * Aggregated feedback for an agent. Scores are 0–100 as in the
+ * ERC-8004 reputation registry; revoked feedback is not counted.
+ */
+export interface ReputationSummary {
+  source: "registry" | "local";
+  registry: string | null;   // CAIP-10 address of the reputation registry
+  count: number;
+  clients: number;           // Distinct client addresses
+  averageScore: number | null; // null without feedback
+  last30d: { count: number; averageScore: number | null };
+  tags: Record<string, { count: number; averageScore: number }>;
+}
+
+/** One feedback entry, from the reputation registry or the local store */
+export interface FeedbackEntry {
+  agentId: number;
+  clientAddress: string;
+  feedbackIndex: number;     // 1-based, per agent and client
+  score: number;             // 0–100
+  tag1: string;
+  tag2: string;
+  fileUri: string;           // Off-chain feedback file ("" if none)
+  fileHash: string;          // keccak256 of the file (bytes32)
+  revoked: boolean;
+  createdAt: string;         // ISO timestamp
+  blockNumber: number | null; // null for local entries
+  transactionHash: string | null;
+}
+
+/**
+ * A feedbackAuth signed by the agent, allowing one client to give
+ * feedback up to `indexLimit`. `feedbackAuth` is the ABI-encoded
+ * struct followed by the signature, as passed to giveFeedback().
+ */
+export interface FeedbackAuthorization {
+  agentId: number;
+  clientAddress: string;
+  indexLimit: number;
+  expiry: number;            // unix seconds
+  chainId: number;
+  identityRegistry: string;
+  signerAddress: string;
+  feedbackAuth: string;
+}
+
+/** Registered event, as indexed from the registry */
+export interface RegistrationEvent {
+  agentId: number;
+  tokenURI: string;
+  owner: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/** AgentURIUpdated event, with the sender of the transaction */
+export interface UriChangeEvent {
+  agentId: number;
+  uri: string;
+  from: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * MetadataSet event. The key is an indexed string, so the log only
+ * carries its hash; the plain key is recovered from the transaction
+ * calldata and is null when that is not possible.
+ */
+export interface MetadataChangeEvent {
+  agentId: number;
+  key: string | null;
+  keyHash: string;
+  value: string; // hex-encoded bytes
+  from: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/** ERC-721 Transfer event, used to track the current owner */
+export interface TransferEvent {
+  agentId: number;
+  from: string;
+  to: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/** Current state of an agent, derived from its indexed events */
+export interface IndexedAgent {
+  agentId: number;
+  owner: string;
+  tokenURI: string;
+  registeredBlock: number;
+  registeredTx: string;
+  lastUpdatedBlock: number;
+  uriUpdates: number;
+  metadataKeys: string[];
 }
 
 export interface ApiResponse {
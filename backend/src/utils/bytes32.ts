@@ -0,0 +1,14 @@
+import { ethers } from "ethers";
+
+/**
+ * Reads a bytes32 tag as used by the ERC-8004 reputation and validation
+ * registries. Tags are usually short strings; anything else stays hex.
+ */
+export function decodeTag(tag: string): string {
+  if (tag === ethers.ZeroHash) return "";
+  try {
+    return ethers.decodeBytes32String(tag);
+  } catch {
+    return tag;
+  }
+}
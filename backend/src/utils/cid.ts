@@ -0,0 +1,120 @@
+import crypto from "crypto";
+
+/**
+ * A raw IPFS block: the bytes and their CIDv1 (raw codec, sha2-256),
+ * the same CID `ipfs add --cid-version=1 --raw-leaves` gives a file
+ * that fits in one block.
+ */
+export interface RawBlock {
+  cid: string; // multibase base32, e.g. "bafkrei…"
+  cidBytes: Uint8Array;
+  data: Uint8Array;
+}
+
+const CID_VERSION = 0x01;
+const RAW_CODEC = 0x55;
+const SHA2_256 = 0x12;
+
+// Largest block IPFS nodes accept from block/put
+export const MAX_BLOCK_SIZE = 1024 * 1024;
+
+const BASE32_ALPHABET = "abcdefghijklmnopqrstuvwxyz234567";
+
+/**
+ * Computes the CID of `data` as a single raw block. Throws when it does
+ * not fit in one block.
+ */
+export function rawBlock(data: Uint8Array): RawBlock {
+  if (data.length > MAX_BLOCK_SIZE) {
+    throw new Error(
+      `${data.length} bytes exceeds the ${MAX_BLOCK_SIZE}-byte IPFS block limit`
+    );
+  }
+
+  const digest = crypto.createHash("sha256").update(data).digest();
+  const cidBytes = Uint8Array.from([
+    CID_VERSION,
+    RAW_CODEC,
+    SHA2_256,
+    digest.length,
+    ...digest,
+  ]);
+  return { cid: "b" + base32(cidBytes), cidBytes, data };
+}
+
+/**
+ * Encodes blocks as a CARv1 archive (https://ipld.io/specs/transport/car/carv1/)
+ * that `ipfs dag import` or a pinning service can load. Every root is
+ * pinned on import, so pass each block that must stay available.
+ */
+export function encodeCar(roots: RawBlock[], blocks: RawBlock[]): Buffer {
+  // Header: the DAG-CBOR map { roots: [CID…], version: 1 }. Keys are in
+  // DAG-CBOR order (shorter first); CIDs are tag 42 over 0x00 + CID bytes.
+  const header = Buffer.concat([
+    Buffer.from([0xa2]),
+    cborText("roots"),
+    cborHead(4, roots.length),
+    ...roots.map((root) =>
+      Buffer.concat([
+        Buffer.from([0xd8, 42]),
+        cborHead(2, root.cidBytes.length + 1),
+        Buffer.from([0x00]),
+        root.cidBytes,
+      ])
+    ),
+    cborText("version"),
+    Buffer.from([0x01]),
+  ]);
+
+  return Buffer.concat([
+    varint(header.length),
+    header,
+    ...blocks.flatMap((block) => [
+      varint(block.cidBytes.length + block.data.length),
+      block.cidBytes,
+      block.data,
+    ]),
+  ]);
+}
+
+// RFC 4648 base32, lowercase and unpadded, as multibase "b" uses it
+function base32(bytes: Uint8Array): string {
+  let out = "";
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+    value &= (1 << bits) - 1;
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+// Unsigned LEB128, as CAR section lengths are written
+function varint(value: number): Buffer {
+  const bytes: number[] = [];
+  do {
+    let byte = value & 0x7f;
+    value = Math.floor(value / 128);
+    if (value > 0) byte |= 0x80;
+    bytes.push(byte);
+  } while (value > 0);
+  return Buffer.from(bytes);
+}
+
+// CBOR initial byte(s) for a major type and a length below 2^16
+function cborHead(major: number, length: number): Buffer {
+  if (length < 24) return Buffer.from([(major << 5) | length]);
+  if (length < 256) return Buffer.from([(major << 5) | 24, length]);
+  return Buffer.from([(major << 5) | 25, length >> 8, length & 0xff]);
+}
+
+function cborText(text: string): Buffer {
+  const bytes = Buffer.from(text, "utf8");
+  return Buffer.concat([cborHead(3, bytes.length), bytes]);
+}
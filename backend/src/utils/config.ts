@@ -1,37 +1,317 @@
 import dotenv from "dotenv";
+import {
+  address,
+  addressRoles,
+  amount,
+  decimal,
+  flag,
+  integer,
+  listOf,
+  loadConfig,
+  oneOf,
+  privateKey,
+  redactConfig,
+  text,
+  url,
+} from "./configSchema";
 dotenv.config();
 
-export const config = {
+const CARD_LAYOUTS = ["full", "compact", "square"];
+const WALLET_ROLES = ["read", "operate", "transact"];
+const ADMIN_ROLES = [...WALLET_ROLES, "none"];
+
+/**
+ * Every setting, its env var and how it is validated. Values come from
+ * the environment, then the CONFIG_PROFILE file (backend/config), then
+ * the defaults below. Invalid values stop the server at startup.
+ */
+const SETTINGS = {
   // Server
-  port: parseInt(process.env.PORT || "3001"),
-  baseUrl: process.env.BASE_URL || "https://api.example.com",
+  port: integer("PORT", 3001, { min: 1, max: 65535 }),
+  baseUrl: url("BASE_URL", "https://api.example.com"),
 
   // Chain
-  rpcUrl: process.env.RPC_URL || "https://mainnet.base.org",
-  chainId: parseInt(process.env.CHAIN_ID || "8453"),
-  chainName: process.env.CHAIN_NAME || "Base",
+  rpcUrl: url("RPC_URL", "https://mainnet.base.org", { secret: true }),
+  chainId: integer("CHAIN_ID", 8453, { min: 1 }),
+  chainName: text("CHAIN_NAME", "Base"),
 
   // Contracts
-  registryAddress: process.env.REGISTRY_ADDRESS || "",
-  agentId: parseInt(process.env.AGENT_ID || "1"),
+  registryAddress: address("REGISTRY_ADDRESS"),
+  agentId: integer("AGENT_ID", 1, { min: 0 }),
 
   // Wallet (for auto-updater to call setAgentURI)
-  updaterPrivateKey: process.env.UPDATER_PRIVATE_KEY || "",
+  updaterPrivateKey: privateKey("UPDATER_PRIVATE_KEY"),
 
   // Stats data source
-  statsApiUrl:
-    process.env.STATS_API_URL ||
-    "https://api.example.com/api/summary/daily",
+  statsApiUrl: url(
+    "STATS_API_URL",
+    "https://api.example.com/api/summary/daily"
+  ),
+
+  // Stats cache: fresh for STATS_CACHE_TTL_SECONDS, then served stale
+  // for up to STATS_STALE_WHILE_REVALIDATE_SECONDS more while a single
+  // background fetch refreshes it
+  statsCacheTtlSeconds: integer("STATS_CACHE_TTL_SECONDS", 300, { min: 0 }),
+  statsStaleWhileRevalidateSeconds: integer(
+    "STATS_STALE_WHILE_REVALIDATE_SECONDS",
+    3600,
+    { min: 0 }
+  ),
+
+  // Stats providers, in priority order: "rest" (each agent's stats API)
+  // and "onchain" (vault factory reads). With several, each field comes
+  // from the first provider that reports it; "crosscheck" also compares
+  // the providers and flags differences beyond the tolerance.
+  statsProviders: listOf("STATS_PROVIDERS", "rest", ["rest", "onchain"]),
+  statsCompositeMode: oneOf("STATS_COMPOSITE_MODE", "priority", [
+    "priority",
+    "crosscheck",
+  ]),
+  statsCrosscheckTolerancePercent: decimal(
+    "STATS_CROSSCHECK_TOLERANCE_PERCENT",
+    5,
+    { min: 0 }
+  ),
+
+  // Sanity rules for fetched stats. Payloads breaking them are rejected
+  // and the last good one is kept, until the change has persisted for
+  // STATS_ACCEPT_AFTER_REJECTIONS fetches in a row.
+  statsMaxTvlDropPercent: decimal("STATS_MAX_TVL_DROP_PERCENT", 50, {
+    min: 0,
+    max: 100,
+  }),
+  statsMinApy: decimal("STATS_MIN_APY", 0),
+  statsMaxApy: decimal("STATS_MAX_APY", 100),
+  statsRejectCounterDecrease: flag("STATS_REJECT_COUNTER_DECREASE", true),
+  statsAcceptAfterRejections: integer("STATS_ACCEPT_AFTER_REJECTIONS", 12, {
+    min: 1,
+  }),
+
+  // Vault reads for the onchain stats provider (ERC-4626 by default,
+  // USDC-denominated)
+  vaultAssetsFunction: text(
+    "VAULT_ASSETS_FUNCTION",
+    "function totalAssets() view returns (uint256)"
+  ),
+  vaultAssetDecimals: integer("VAULT_ASSET_DECIMALS", 6, { min: 0, max: 36 }),
 
   // Agent info
-  agentName: process.env.AGENT_NAME || "DeFAI Yield Agent",
-  agentWallet: process.env.AGENT_WALLET || "",
-  websiteUrl: process.env.WEBSITE_URL || "https://example.com",
-  duneUrl: process.env.DUNE_URL || "https://dune.com/example/stats",
+  agentName: text("AGENT_NAME", "DeFAI Yield Agent"),
+  agentWallet: address("AGENT_WALLET"),
+  agentDescription: text("AGENT_DESCRIPTION"),
+  websiteUrl: url("WEBSITE_URL", "https://example.com"),
+  duneUrl: url("DUNE_URL", "https://dune.com/example/stats"),
+
+  // Default agent card look (overridable per agent and per request)
+  cardLayout: oneOf("CARD_LAYOUT", "full", CARD_LAYOUTS),
+  cardTheme: oneOf("CARD_THEME", "ocean", ["ocean", "light", "high-contrast"]),
+  cardTiles: text("CARD_TILES"),
+
+  // Locale the card and metadata text format numbers and dates for
+  displayLocale: text("DISPLAY_LOCALE", "en-US"),
+
+  // Format of the `image` URL in metadata: svg, png or webp
+  imageFormat: oneOf("IMAGE_FORMAT", "svg", ["svg", "png", "webp"]),
+
+  // Cache-Control for metadata and card images. Responses also carry a
+  // strong ETag and Last-Modified, so clients revalidate with a 304.
+  metadataCacheControl: text(
+    "METADATA_CACHE_CONTROL",
+    "public, max-age=60, stale-while-revalidate=300"
+  ),
+  imageCacheControl: text(
+    "IMAGE_CACHE_CONTROL",
+    "public, max-age=300, stale-while-revalidate=600"
+  ),
+
+  // Per-client-IP rate limit on metadata and card images: RATE_LIMIT_MAX
+  // requests per window (0 disables)
+  rateLimitMax: integer("RATE_LIMIT_MAX", 120, { min: 0 }),
+  rateLimitWindowSeconds: integer("RATE_LIMIT_WINDOW_SECONDS", 60, { min: 1 }),
+
+  // Express "trust proxy" setting, so client IPs are read from
+  // X-Forwarded-For behind a proxy: a hop count, "true", or addresses
+  trustProxy: text("TRUST_PROXY", process.env.VERCEL ? "1" : ""),
+
+  // Agent catalog — JSON array of agent profiles, inline or from a file.
+  // When neither is set, the single-agent settings above form the catalog.
+  agentsJson: text("AGENTS_JSON"),
+  agentsFile: text("AGENTS_FILE"),
+
+  // Update interval in hours (a cron step, so at most 24)
+  updateIntervalHours: integer("UPDATE_INTERVAL_HOURS", 6, { min: 1, max: 24 }),
+
+  // What the updater points tokenURIs at: "http" (the versioned
+  // metadata URL), "ipfs" (a content-addressed snapshot of the
+  // metadata and card) or "data" (the metadata itself, as a data: URI)
+  tokenUriMode: oneOf("TOKEN_URI_MODE", "http", ["http", "ipfs", "data"]),
+
+  // data: tokenURIs embed the card in this layout; over either budget
+  // the updater writes the http URI instead
+  dataUriCardLayout: oneOf("DATA_URI_CARD_LAYOUT", "compact", CARD_LAYOUTS),
+  dataUriMaxBytes: integer("DATA_URI_MAX_BYTES", 8000, { min: 1 }),
+  dataUriMaxGas: integer("DATA_URI_MAX_GAS", 6000000, { min: 21000 }),
+
+  // Kubo-compatible RPC API that snapshots are pushed to and pinned on,
+  // e.g. http://127.0.0.1:5001. Without it snapshots are only exported
+  // as CAR files, to be pinned elsewhere.
+  ipfsApiUrl: url("IPFS_API_URL", "", { secret: true }),
+  ipfsApiAuthorization: text("IPFS_API_AUTHORIZATION", "", { secret: true }),
+  ipfsGatewayUrl: url("IPFS_GATEWAY_URL", "https://ipfs.io/ipfs/"),
+
+  // Updater transaction policy
+  updaterDryRun: flag("UPDATER_DRY_RUN", false),
+  updaterMaxFeeGwei: amount("UPDATER_MAX_FEE_GWEI", "1"),
+  updaterGasHeadroomPercent: integer("UPDATER_GAS_HEADROOM_PERCENT", 25, {
+    min: 0,
+  }),
+  updaterMaxRetries: integer("UPDATER_MAX_RETRIES", 3, { min: 0 }),
+  updaterRetryBaseMs: integer("UPDATER_RETRY_BASE_MS", 2000, { min: 0 }),
+  updaterTxTimeoutSeconds: integer("UPDATER_TX_TIMEOUT_SECONDS", 120, {
+    min: 1,
+  }),
+
+  // Local data directory for the embedded store (only /tmp is writable
+  // on Vercel)
+  dataDir: text("DATA_DIR", process.env.VERCEL ? "/tmp/erc8004" : "./data"),
 
-  // Update interval in hours
-  updateIntervalHours: parseInt(process.env.UPDATE_INTERVAL_HOURS || "6"),
+  // Liveness: expected rebalance cycle and how late counts as a problem
+  rebalanceIntervalHours: integer("REBALANCE_INTERVAL_HOURS", 12, { min: 1 }),
+  livenessGraceHours: integer("LIVENESS_GRACE_HOURS", 6, { min: 0 }),
+  livenessStalledHours: integer("LIVENESS_STALLED_HOURS", 36, { min: 1 }),
+  livenessPollMinutes: integer("LIVENESS_POLL_MINUTES", 5, { min: 1, max: 59 }),
 
-  // Admin API key for protected endpoints
-  adminApiKey: process.env.ADMIN_API_KEY || "",
+  // Stats history retention: raw snapshots, then hourly, then daily
+  statsRawRetentionHours: integer("STATS_RAW_RETENTION_HOURS", 48, { min: 1 }),
+  statsHourlyRetentionDays: integer("STATS_HOURLY_RETENTION_DAYS", 30, {
+    min: 1,
+  }),
+  statsRetentionDays: integer("STATS_RETENTION_DAYS", 365, { min: 1 }),
+
+  // Registry event indexer. Unset, it runs when INDEXER_START_BLOCK is
+  // set (the registry's deployment block; scanning from genesis takes
+  // days)
+  indexerEnabled: flag("INDEXER_ENABLED", null),
+  indexerStartBlock: integer("INDEXER_START_BLOCK", null, { min: 0 }),
+  indexerConfirmations: integer("INDEXER_CONFIRMATIONS", 12, { min: 0 }),
+  indexerBatchSize: integer("INDEXER_BATCH_SIZE", 2000, { min: 1 }),
+  indexerIntervalMinutes: integer("INDEXER_INTERVAL_MINUTES", 5, {
+    min: 1,
+    max: 59,
+  }),
+
+  // Reputation: feedback is aggregated from the ERC-8004 reputation
+  // registry at this address, or kept locally when it is unset
+  reputationRegistryAddress: address("REPUTATION_REGISTRY_ADDRESS"),
+  reputationStartBlock: integer("REPUTATION_START_BLOCK", null, { min: 0 }),
+  reputationSyncMinutes: integer("REPUTATION_SYNC_MINUTES", 5, { min: 0 }),
+
+  // Key that signs feedback authorizations (the agent owner or an
+  // approved operator; defaults to the updater key)
+  feedbackSignerPrivateKey: privateKey("FEEDBACK_SIGNER_PRIVATE_KEY"),
+  feedbackAuthTtlHours: integer("FEEDBACK_AUTH_TTL_HOURS", 168, { min: 1 }),
+
+  // Vault factory: owners of vaults it deployed may leave feedback
+  vaultFactoryAddress: address("VAULT_FACTORY_ADDRESS"),
+  vaultFactoryStartBlock: integer("VAULT_FACTORY_START_BLOCK", null, {
+    min: 0,
+  }),
+  vaultCreatedEvent: text(
+    "VAULT_CREATED_EVENT",
+    "event VaultCreated(address indexed owner, address indexed vault)"
+  ),
+
+  // Validation: stats evidence for third-party validators, optionally
+  // tracked on an ERC-8004 validation registry
+  validationEnabled: flag("VALIDATION_ENABLED", false),
+  validationRegistryAddress: address("VALIDATION_REGISTRY_ADDRESS"),
+  validatorAddress: address("VALIDATOR_ADDRESS"),
+  validationSyncMinutes: integer("VALIDATION_SYNC_MINUTES", 5, { min: 0 }),
+
+  // Registration conformance check at startup: "warn" logs problems,
+  // "fail" exits when a registration has errors, "off" skips it
+  startupValidation: oneOf("STARTUP_VALIDATION", "warn", [
+    "off",
+    "warn",
+    "fail",
+  ]),
+
+  // How often the served registration re-reads on-chain metadata keys
+  metadataSyncMinutes: integer("METADATA_SYNC_MINUTES", 15, { min: 0 }),
+
+  // Admin API: a static key sent in the x-api-key header (full access),
+  // and wallets that sign in with a signed challenge. ADMIN_WALLETS
+  // grants roles to addresses ("0xabc:transact,0xdef:read"); owners and
+  // approved operators of a catalog agent on the registry get the
+  // owner/operator roles ("none" disables).
+  adminApiKey: text("ADMIN_API_KEY", "", { secret: true }),
+  adminWallets: addressRoles("ADMIN_WALLETS", WALLET_ROLES),
+  adminOwnerRole: oneOf("ADMIN_OWNER_ROLE", "transact", ADMIN_ROLES),
+  adminOperatorRole: oneOf("ADMIN_OPERATOR_ROLE", "operate", ADMIN_ROLES),
+  adminSessionTtlHours: integer("ADMIN_SESSION_TTL_HOURS", 12, { min: 1 }),
+
+  // Bearer token for /metrics (metrics are public when unset)
+  metricsToken: text("METRICS_TOKEN", "", { secret: true }),
+
+  // Bearer token the scheduler sends to /erc8004/jobs/* (Vercel Cron
+  // sends CRON_SECRET automatically)
+  cronSecret: text("CRON_SECRET", "", { secret: true }),
 };
+
+const loaded = loadConfig(SETTINGS, [
+  (values) =>
+    values.statsMinApy <= values.statsMaxApy
+      ? null
+      : "STATS_MIN_APY is above STATS_MAX_APY",
+  (values) =>
+    values.livenessGraceHours < values.livenessStalledHours
+      ? null
+      : "LIVENESS_GRACE_HOURS must be below LIVENESS_STALLED_HOURS",
+  (values) =>
+    values.indexerEnabled !== true ||
+    !values.registryAddress ||
+    values.indexerStartBlock !== null
+      ? null
+      : "INDEXER_START_BLOCK is required with INDEXER_ENABLED=true (the deployment block of REGISTRY_ADDRESS)",
+  (values) =>
+    !values.reputationRegistryAddress || values.reputationStartBlock !== null
+      ? null
+      : "REPUTATION_START_BLOCK is required with REPUTATION_REGISTRY_ADDRESS (its deployment block)",
+  (values) =>
+    !values.vaultFactoryAddress || values.vaultFactoryStartBlock !== null
+      ? null
+      : "VAULT_FACTORY_START_BLOCK is required with VAULT_FACTORY_ADDRESS (its deployment block)",
+]);
+
+export const config = {
+  ...loaded.values,
+
+  // Named profile the settings were loaded with (CONFIG_PROFILE)
+  configProfile: loaded.profile,
+
+  indexerEnabled:
+    loaded.values.indexerEnabled ?? loaded.values.indexerStartBlock !== null,
+
+  // Defaults to the updater key
+  feedbackSignerPrivateKey:
+    loaded.values.feedbackSignerPrivateKey || loaded.values.updaterPrivateKey,
+
+  // Without DUNE_URL the registration serves the on-chain duneDashboard
+  duneUrlConfigured: loaded.sources.duneUrl !== "default",
+};
+
+/**
+ * The effective config for operators: every setting with secrets
+ * redacted, where it came from, and the profile in use.
+ */
+export function describeConfig(): {
+  profile: string | null;
+  values: Record<string, unknown>;
+  sources: Record<string, string>;
+} {
+  return {
+    profile: config.configProfile,
+    values: redactConfig(SETTINGS, config),
+    sources: loaded.sources,
+  };
+}
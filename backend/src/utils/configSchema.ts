@@ -0,0 +1,352 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+
+/** Where a setting's effective value came from */
+export type ConfigSource = "env" | "profile" | "default";
+
+/**
+ * One setting: the env var it is read from, and how its raw value is
+ * parsed. `parse` gets undefined when neither the environment nor the
+ * profile sets it, and throws a message when the value is invalid.
+ * Secrets are redacted when the config is printed; "url" secrets keep
+ * their origin.
+ */
+export interface Setting<T> {
+  env: string;
+  parse(raw: string | undefined): T;
+  secret?: boolean | "url";
+}
+
+type Values<S> = { [K in keyof S]: S[K] extends Setting<infer T> ? T : never };
+
+export interface LoadedConfig<S> {
+  profile: string | null;
+  values: Values<S>;
+  sources: Record<keyof S, ConfigSource>;
+}
+
+// Named profiles live here as <name>.json (from src/utils and dist/utils)
+const PROFILES_DIR = path.join(__dirname, "../../config");
+
+/**
+ * Reads every setting from the environment, then from the profile
+ * named by CONFIG_PROFILE (a file in backend/config, or a path to a
+ * JSON file), then its default. Throws one error listing every invalid
+ * value, unknown profile key and failed cross-check.
+ */
+export function loadConfig<S extends Record<string, Setting<unknown>>>(
+  settings: S,
+  checks: Array<(values: Values<S>) => string | null> = []
+): LoadedConfig<S> {
+  const problems: string[] = [];
+  const profileName = process.env.CONFIG_PROFILE || null;
+  const profile = profileName ? readProfile(profileName, problems) : {};
+
+  const known = new Set(Object.values(settings).map((entry) => entry.env));
+  for (const key of Object.keys(profile)) {
+    if (!known.has(key)) problems.push(`${key}: not a setting (profile)`);
+  }
+
+  const values = {} as Values<S>;
+  const sources = {} as Record<keyof S, ConfigSource>;
+  for (const [name, setting] of Object.entries(settings)) {
+    // Empty values count as unset, as in .env templates
+    const fromEnv = process.env[setting.env] || undefined;
+    const raw = fromEnv ?? (profile[setting.env] || undefined);
+    sources[name as keyof S] =
+      fromEnv !== undefined ? "env" : raw !== undefined ? "profile" : "default";
+    try {
+      values[name as keyof S] = setting.parse(raw) as Values<S>[keyof S];
+    } catch (error) {
+      problems.push(`${setting.env}: ${(error as Error).message}`);
+    }
+  }
+
+  if (problems.length === 0) {
+    for (const check of checks) {
+      const problem = check(values);
+      if (problem) problems.push(problem);
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid configuration${
+        profileName ? ` (profile ${profileName})` : ""
+      }:\n` + problems.map((problem) => `  - ${problem}`).join("\n")
+    );
+  }
+
+  return { profile: profileName, values, sources };
+}
+
+/**
+ * The effective values with secrets replaced by "[redacted]" (unset
+ * secrets stay empty), for printing.
+ */
+export function redactConfig<S extends Record<string, Setting<unknown>>>(
+  settings: S,
+  values: Values<S>
+): Record<string, unknown> {
+  const redacted: Record<string, unknown> = {};
+  for (const [name, setting] of Object.entries(settings)) {
+    const value = values[name as keyof S];
+    if (!setting.secret || value === "") {
+      redacted[name] = value;
+    } else if (setting.secret === "url") {
+      redacted[name] = redactUrl(String(value));
+    } else {
+      redacted[name] = "[redacted]";
+    }
+  }
+  return redacted;
+}
+
+// ── Setting types ────────────────────────────────────────────
+
+export function text(
+  env: string,
+  fallback = "",
+  options: { secret?: boolean } = {}
+): Setting<string> {
+  return { env, parse: (raw) => raw ?? fallback, secret: options.secret };
+}
+
+/** An integer; a null fallback makes the setting optional */
+export function integer<F extends number | null>(
+  env: string,
+  fallback: F,
+  range: { min?: number; max?: number } = {}
+): Setting<number | F> {
+  return {
+    env,
+    parse(raw) {
+      if (raw === undefined) return fallback;
+      if (!/^-?\d+$/.test(raw.trim()))
+        throw new Error(`"${raw}" is not an integer`);
+      return inRange(Number(raw), range);
+    },
+  };
+}
+
+export function decimal(
+  env: string,
+  fallback: number,
+  range: { min?: number; max?: number } = {}
+): Setting<number> {
+  return {
+    env,
+    parse(raw) {
+      if (raw === undefined) return fallback;
+      if (!/^-?\d+(\.\d+)?$/.test(raw.trim()))
+        throw new Error(`"${raw}" is not a number`);
+      return inRange(Number(raw), range);
+    },
+  };
+}
+
+/** A decimal kept as a string, for ethers.parseUnits */
+export function amount(env: string, fallback: string): Setting<string> {
+  return {
+    env,
+    parse(raw) {
+      if (raw === undefined) return fallback;
+      if (!/^\d+(\.\d{1,9})?$/.test(raw.trim()) || Number(raw) <= 0) {
+        throw new Error(`"${raw}" is not a positive amount`);
+      }
+      return raw.trim();
+    },
+  };
+}
+
+/** true/false or 1/0; a null fallback leaves the choice to the caller */
+export function flag<F extends boolean | null>(
+  env: string,
+  fallback: F
+): Setting<boolean | F> {
+  return {
+    env,
+    parse(raw) {
+      if (raw === undefined) return fallback;
+      if (raw === "true" || raw === "1") return true;
+      if (raw === "false" || raw === "0") return false;
+      throw new Error(`"${raw}" is not true or false`);
+    },
+  };
+}
+
+export function oneOf(
+  env: string,
+  fallback: string,
+  allowed: string[]
+): Setting<string> {
+  return {
+    env,
+    parse(raw) {
+      const value = raw ?? fallback;
+      if (!allowed.includes(value)) {
+        throw new Error(`"${value}" is not one of ${allowed.join(", ")}`);
+      }
+      return value;
+    },
+  };
+}
+
+/** Comma-separated values from `allowed`, kept as the raw string */
+export function listOf(
+  env: string,
+  fallback: string,
+  allowed: string[]
+): Setting<string> {
+  return {
+    env,
+    parse(raw) {
+      const value = raw ?? fallback;
+      for (const item of value.split(",").map((entry) => entry.trim())) {
+        if (item && !allowed.includes(item)) {
+          throw new Error(`"${item}" is not one of ${allowed.join(", ")}`);
+        }
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Comma-separated "address:role" pairs, kept as the raw string. The role
+ * may be left out; given, it must be one of `roles`.
+ */
+export function addressRoles(env: string, roles: string[]): Setting<string> {
+  const checkAddress = address(env);
+  return {
+    env,
+    parse(raw) {
+      const value = raw ?? "";
+      for (const entry of value.split(",").map((item) => item.trim())) {
+        if (!entry) continue;
+        const [wallet, role, ...rest] = entry.split(":");
+        if (rest.length > 0) throw new Error(`"${entry}" is not address:role`);
+        checkAddress.parse(wallet);
+        if (role !== undefined && !roles.includes(role)) {
+          throw new Error(`"${role}" is not one of ${roles.join(", ")}`);
+        }
+      }
+      return value;
+    },
+  };
+}
+
+export function url(
+  env: string,
+  fallback = "",
+  options: { secret?: boolean } = {}
+): Setting<string> {
+  return {
+    env,
+    parse(raw) {
+      const value = raw ?? fallback;
+      if (!value) return value;
+      let parsed: URL;
+      try {
+        parsed = new URL(value);
+      } catch {
+        throw new Error(
+          `"${options.secret ? redactUrl(value) : value}" is not a URL`
+        );
+      }
+      if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+        throw new Error("must be an http(s) URL");
+      }
+      return value;
+    },
+    secret: options.secret ? "url" : undefined,
+  };
+}
+
+/**
+ * An EVM address ("" when unset). Mixed-case addresses must carry a
+ * valid EIP-55 checksum.
+ */
+export function address(env: string): Setting<string> {
+  return {
+    env,
+    parse(raw) {
+      if (raw === undefined) return "";
+      if (!/^0x[0-9a-fA-F]{40}$/.test(raw)) {
+        throw new Error(`"${raw}" is not an address`);
+      }
+      if (!ethers.isAddress(raw)) {
+        throw new Error(`"${raw}" has an invalid checksum`);
+      }
+      return raw;
+    },
+  };
+}
+
+/** A secp256k1 private key ("" when unset), 0x-prefixed if given without */
+export function privateKey(env: string): Setting<string> {
+  return {
+    env,
+    parse(raw) {
+      if (raw === undefined) return "";
+      const key = raw.startsWith("0x") ? raw : `0x${raw}`;
+      try {
+        if (!/^0x[0-9a-fA-F]{64}$/.test(key)) throw new Error();
+        new ethers.SigningKey(key);
+      } catch {
+        throw new Error("must be a 32-byte hex private key");
+      }
+      return key;
+    },
+    secret: true,
+  };
+}
+
+function inRange(value: number, range: { min?: number; max?: number }): number {
+  if (range.min !== undefined && value < range.min) {
+    throw new Error(`${value} is below ${range.min}`);
+  }
+  if (range.max !== undefined && value > range.max) {
+    throw new Error(`${value} is above ${range.max}`);
+  }
+  return value;
+}
+
+function readProfile(name: string, problems: string[]): Record<string, string> {
+  const file = name.endsWith(".json")
+    ? path.resolve(name)
+    : path.join(PROFILES_DIR, `${name}.json`);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (error) {
+    problems.push(
+      `CONFIG_PROFILE: cannot read ${file}: ${(error as Error).message}`
+    );
+    return {};
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    problems.push(`CONFIG_PROFILE: ${file} is not a JSON object`);
+    return {};
+  }
+
+  // Numbers and booleans are accepted and read like their env strings
+  const profile: Record<string, string> = {};
+  for (const [key, value] of Object.entries(parsed)) {
+    profile[key] = String(value);
+  }
+  return profile;
+}
+
+// Keeps only the origin: RPC and API URLs often carry keys in the path
+function redactUrl(value: string): string {
+  try {
+    const parsed = new URL(value);
+    return parsed.pathname === "/" && !parsed.search && !parsed.username
+      ? parsed.origin
+      : `${parsed.origin}/[redacted]`;
+  } catch {
+    return "[redacted]";
+  }
+}
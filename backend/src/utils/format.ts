@@ -0,0 +1,165 @@
+import { config } from "./config";
+import { AgentStats, DisplayStats } from "../types";
+
+/**
+ * How numbers are written: "compact" always abbreviates ($8.0M),
+ * "auto" only from COMPACT_FROM up, "standard" never.
+ */
+export type Notation = "standard" | "compact" | "auto";
+
+export interface FormatOptions {
+  locale?: string; // BCP 47 tag, defaults to DISPLAY_LOCALE
+  notation?: Notation;
+}
+
+// Shown for values that are unknown
+const MISSING = "—";
+
+// "auto" notation abbreviates values from here up
+const COMPACT_FROM = 1_000_000;
+
+/**
+ * A USD amount, e.g. "$236,413" or "$8.0M" (de-DE: "236.413 $").
+ */
+export function formatUsd(
+  value: number | null,
+  options: FormatOptions = {}
+): string {
+  if (value === null) return MISSING;
+  return formatNumber(value, options, { style: "currency", currency: "USD" });
+}
+
+/**
+ * A fraction as a percentage with one decimal, e.g. 0.041 → "4.1%".
+ */
+export function formatPercent(
+  fraction: number | null,
+  options: FormatOptions = {}
+): string {
+  if (fraction === null) return MISSING;
+  return new Intl.NumberFormat(locale(options), {
+    style: "percent",
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  }).format(fraction);
+}
+
+/**
+ * A signed change, e.g. 0.05 → "+5.0%". `points` formats an absolute
+ * change of a percentage (APY) as "+0.3 pts" instead.
+ */
+export function formatChange(
+  change: number | null,
+  options: FormatOptions & { points?: boolean } = {}
+): string {
+  if (change === null) return MISSING;
+  const formatted = new Intl.NumberFormat(locale(options), {
+    style: options.points ? "decimal" : "percent",
+    signDisplay: "exceptZero",
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  }).format(options.points ? change * 100 : change);
+  return options.points ? `${formatted} pts` : formatted;
+}
+
+/**
+ * A whole number with grouping, e.g. "4,030" or "4.0K".
+ */
+export function formatCount(
+  value: number,
+  options: FormatOptions = {}
+): string {
+  return formatNumber(value, options, {});
+}
+
+/**
+ * An ISO timestamp as a date and time with the time zone, e.g.
+ * "Jan 15, 2025, 10:00 AM UTC".
+ */
+export function formatDateTime(
+  iso: string | null,
+  options: FormatOptions = {}
+): string {
+  if (iso === null || isNaN(Date.parse(iso))) return MISSING;
+  return new Date(iso).toLocaleString(locale(options), {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZoneName: "short",
+  });
+}
+
+/**
+ * The display form of raw stats: amounts, percentages, counts and
+ * times as strings for `locale`. Throws a RangeError on invalid locales.
+ */
+export function formatStats(
+  stats: AgentStats,
+  options: FormatOptions = {}
+): DisplayStats {
+  const change = (value: number | null, points = false) =>
+    formatChange(value, { ...options, points });
+
+  return {
+    ...stats,
+    tvl: formatUsd(stats.tvl, options),
+    totalVaults: formatCount(stats.totalVaults, options),
+    activeVaults: formatCount(stats.activeVaults, options),
+    totalRebalances: formatCount(stats.totalRebalances, options),
+    last24hRebalances: formatCount(stats.last24hRebalances, options),
+    avgApy: formatPercent(stats.avgApy, options),
+    totalDeposited: formatUsd(stats.totalDeposited, options),
+    totalWithdrawn: formatUsd(stats.totalWithdrawn, options),
+    lastRebalanceAt: formatDateTime(stats.lastRebalanceAt, options),
+    uptime: formatPercent(stats.uptime, options),
+    lastUpdated: formatDateTime(stats.lastUpdated, options),
+    trends: {
+      tvl: {
+        change24h: change(stats.trends.tvl.change24h),
+        change7d: change(stats.trends.tvl.change7d),
+      },
+      avgApy: {
+        change24h: change(stats.trends.avgApy.change24h, true),
+        change7d: change(stats.trends.avgApy.change7d, true),
+      },
+    },
+  };
+}
+
+function locale(options: FormatOptions): string {
+  return options.locale || config.displayLocale;
+}
+
+/**
+ * A whole number, or an abbreviated one with one decimal when the
+ * notation asks for it. Values the locale has no abbreviation for
+ * (thousands in de-DE) stay whole.
+ */
+function formatNumber(
+  value: number,
+  options: FormatOptions,
+  style: Intl.NumberFormatOptions
+): string {
+  const notation = options.notation ?? "standard";
+  if (
+    notation === "compact" ||
+    (notation === "auto" && Math.abs(value) >= COMPACT_FROM)
+  ) {
+    const parts = new Intl.NumberFormat(locale(options), {
+      ...style,
+      notation: "compact",
+      minimumFractionDigits: 1,
+      maximumFractionDigits: 1,
+    }).formatToParts(value);
+    if (parts.some((part) => part.type === "compact")) {
+      return parts.map((part) => part.value).join("");
+    }
+  }
+
+  return new Intl.NumberFormat(locale(options), {
+    ...style,
+    maximumFractionDigits: 0,
+  }).format(value);
+}
@@ -0,0 +1,34 @@
+import crypto from "crypto";
+import { Request, Response } from "express";
+
+/**
+ * A strong entity tag over the exact bytes of a representation (or the
+ * inputs that fully determine them), quoted for the ETag header.
+ */
+export function entityTag(...parts: Array<string | Buffer>): string {
+  const hash = crypto.createHash("sha256");
+  for (const part of parts) hash.update(part).update("\0");
+  return `"${hash.digest("hex").slice(0, 32)}"`;
+}
+
+/**
+ * Sets Cache-Control, ETag and Last-Modified, then answers 304 when the
+ * request's If-None-Match or If-Modified-Since still matches. Returns
+ * true when it did, and the caller should send nothing else.
+ */
+export function sendNotModified(
+  req: Request,
+  res: Response,
+  validators: { etag: string; lastModified: string; cacheControl: string }
+): boolean {
+  res.setHeader("Cache-Control", validators.cacheControl);
+  res.setHeader("ETag", validators.etag);
+  res.setHeader(
+    "Last-Modified",
+    new Date(validators.lastModified).toUTCString()
+  );
+
+  if (!req.fresh) return false;
+  res.status(304).end();
+  return true;
+}
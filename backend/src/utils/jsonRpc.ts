@@ -0,0 +1,58 @@
+/**
+ * JSON-RPC 2.0 (https://www.jsonrpc.org/specification) messages, as
+ * the MCP and A2A endpoints speak them.
+ */
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId; // Absent for notifications, which get no response
+  method: string;
+  params?: unknown;
+}
+
+export type JsonRpcResponse =
+  | { jsonrpc: "2.0"; id: JsonRpcId; result: unknown }
+  | {
+      jsonrpc: "2.0";
+      id: JsonRpcId;
+      error: { code: number; message: string; data?: unknown };
+    };
+
+export const PARSE_ERROR = -32700;
+export const INVALID_REQUEST = -32600;
+export const METHOD_NOT_FOUND = -32601;
+export const INVALID_PARAMS = -32602;
+export const INTERNAL_ERROR = -32603;
+
+export function isJsonRpcRequest(body: unknown): body is JsonRpcRequest {
+  const message = body as Partial<JsonRpcRequest> | null;
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    !Array.isArray(message) &&
+    message.jsonrpc === "2.0" &&
+    typeof message.method === "string" &&
+    (message.id === undefined ||
+      message.id === null ||
+      typeof message.id === "string" ||
+      typeof message.id === "number")
+  );
+}
+
+export function rpcResult(id: JsonRpcId, result: unknown): JsonRpcResponse {
+  return { jsonrpc: "2.0", id, result };
+}
+
+export function rpcError(
+  id: JsonRpcId,
+  code: number,
+  message: string,
+  data?: unknown
+): JsonRpcResponse {
+  return {
+    jsonrpc: "2.0",
+    id,
+    error: { code, message, ...(data !== undefined ? { data } : {}) },
+  };
+}
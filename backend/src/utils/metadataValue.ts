@@ -0,0 +1,84 @@
+import { ethers } from "ethers";
+
+/** How a setMetadata value is written as bytes */
+export type MetadataEncoding = "text" | "hex" | "address" | "uint";
+
+export const METADATA_ENCODINGS: MetadataEncoding[] = [
+  "text",
+  "hex",
+  "address",
+  "uint",
+];
+
+/**
+ * A metadata value as the registry stores it:
+ * - text: UTF-8 bytes
+ * - hex: the bytes as given (0x…)
+ * - address: the 20 address bytes
+ * - uint: a 32-byte big-endian uint256
+ * Throws when `value` is not valid for the encoding.
+ */
+export function encodeMetadataValue(
+  value: string,
+  encoding: MetadataEncoding
+): string {
+  switch (encoding) {
+    case "text":
+      return ethers.hexlify(ethers.toUtf8Bytes(value));
+    case "hex":
+      if (!ethers.isHexString(value)) {
+        throw new Error(`Not a hex string: ${value}`);
+      }
+      return ethers.hexlify(value);
+    case "address":
+      return ethers.getAddress(value).toLowerCase();
+    case "uint":
+      return ethers.toBeHex(BigInt(value), 32);
+  }
+}
+
+/**
+ * Best-effort reading of stored metadata bytes: 20 bytes as an address,
+ * printable UTF-8 as text, and 32-byte values as either, right-padded
+ * with zeros (as `cast --to-bytes32` writes them), or else as a uint.
+ * Anything else stays hex.
+ */
+export function decodeMetadataValue(hex: string): {
+  hex: string;
+  as: MetadataEncoding;
+  value: string;
+} {
+  const bytes = ethers.getBytes(hex);
+
+  if (bytes.length === 20) {
+    return { hex, as: "address", value: ethers.getAddress(hex) };
+  }
+
+  const trimmed = bytes.slice(0, lastNonZero(bytes) + 1);
+  if (trimmed.length > 0) {
+    try {
+      const text = ethers.toUtf8String(trimmed);
+      if (/^[\P{C}\n\t]+$/u.test(text)) return { hex, as: "text", value: text };
+    } catch {
+      // Not UTF-8
+    }
+  }
+
+  if (bytes.length === 32 && lastNonZero(bytes) < 20) {
+    return {
+      hex,
+      as: "address",
+      value: ethers.getAddress(ethers.hexlify(bytes.slice(0, 20))),
+    };
+  }
+  if (bytes.length === 32) {
+    return { hex, as: "uint", value: BigInt(hex).toString() };
+  }
+  return { hex, as: "hex", value: hex };
+}
+
+function lastNonZero(bytes: Uint8Array): number {
+  let i = bytes.length - 1;
+  while (i >= 0 && bytes[i] === 0) i--;
+  return i;
+}
@@ -0,0 +1,176 @@
+type Labels = Record<string, string | number>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Gauge {
+  set(labels: Labels, value: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, seconds: number): void;
+  /** Starts a timer; call the returned function to observe the elapsed time */
+  startTimer(labels: Labels): () => void;
+}
+
+interface Metric {
+  name: string;
+  help: string;
+  type: "counter" | "gauge" | "histogram";
+  render(): string[];
+}
+
+// Request and upstream latencies, in seconds
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const metrics: Metric[] = [];
+const collectors: Array<() => void | Promise<void>> = [];
+
+/**
+ * Minimal Prometheus registry. Metrics are created once at module load
+ * and rendered in the text exposition format by renderMetrics().
+ */
+export function createCounter(name: string, help: string): Counter {
+  const values = new Map<string, number>();
+  metrics.push({
+    name,
+    help,
+    type: "counter",
+    render: () => renderSeries(name, values),
+  });
+
+  return {
+    inc(labels = {}, value = 1) {
+      const key = labelKey(labels);
+      values.set(key, (values.get(key) ?? 0) + value);
+    },
+  };
+}
+
+export function createGauge(name: string, help: string): Gauge {
+  const values = new Map<string, number>();
+  metrics.push({
+    name,
+    help,
+    type: "gauge",
+    render: () => renderSeries(name, values),
+  });
+
+  return {
+    set(labels, value) {
+      values.set(labelKey(labels), value);
+    },
+  };
+}
+
+export function createHistogram(
+  name: string,
+  help: string,
+  buckets = DEFAULT_BUCKETS
+): Histogram {
+  const series = new Map<
+    string,
+    { counts: number[]; sum: number; count: number }
+  >();
+  metrics.push({
+    name,
+    help,
+    type: "histogram",
+    render: () =>
+      [...series].flatMap(([key, { counts, sum, count }]) => [
+        ...buckets.map(
+          (le, i) =>
+            `${name}_bucket${withLabel(key, "le", String(le))} ${counts[i]}`
+        ),
+        `${name}_bucket${withLabel(key, "le", "+Inf")} ${count}`,
+        `${name}_sum${braces(key)} ${sum}`,
+        `${name}_count${braces(key)} ${count}`,
+      ]),
+  });
+
+  const observe = (labels: Labels, seconds: number) => {
+    const key = labelKey(labels);
+    const entry = series.get(key) ?? {
+      counts: buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    buckets.forEach((le, i) => {
+      if (seconds <= le) entry.counts[i]++;
+    });
+    entry.sum += seconds;
+    entry.count++;
+    series.set(key, entry);
+  };
+
+  return {
+    observe,
+    startTimer(labels) {
+      const start = process.hrtime.bigint();
+      return () =>
+        observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+    },
+  };
+}
+
+/**
+ * Registers a function that refreshes gauges right before each scrape,
+ * for values that are read rather than observed (wallet balance, ...).
+ */
+export function onCollect(collect: () => void | Promise<void>): void {
+  collectors.push(collect);
+}
+
+/**
+ * Runs the collectors and renders every metric. A failing collector
+ * leaves its gauges at their previous values.
+ */
+export async function renderMetrics(): Promise<string> {
+  for (const collect of collectors) {
+    try {
+      await collect();
+    } catch (error) {
+      console.error("  Metrics collector failed:", error);
+    }
+  }
+
+  return (
+    metrics
+      .flatMap((metric) => [
+        `# HELP ${metric.name} ${metric.help}`,
+        `# TYPE ${metric.name} ${metric.type}`,
+        ...metric.render(),
+      ])
+      .join("\n") + "\n"
+  );
+}
+
+function renderSeries(name: string, values: Map<string, number>): string[] {
+  return [...values].map(([key, value]) => `${name}${braces(key)} ${value}`);
+}
+
+// Labels serialized in a stable order, without braces: a="1",b="2"
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map((label) => `${label}="${escapeLabel(String(labels[label]))}"`)
+    .join(",");
+}
+
+function withLabel(key: string, label: string, value: string): string {
+  return braces(key ? `${key},${label}="${value}"` : `${label}="${value}"`);
+}
+
+function braces(key: string): string {
+  return key ? `{${key}}` : "";
+}
+
+function escapeLabel(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
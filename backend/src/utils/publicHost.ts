@@ -0,0 +1,99 @@
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+// Loopback, private, link-local, shared, multicast and reserved ranges
+const blocked = new net.BlockList();
+for (const [prefix, bits] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 3],
+] as const) {
+  blocked.addSubnet(prefix, bits, "ipv4");
+}
+for (const [prefix, bits] of [
+  ["::", 127],
+  ["64:ff9b::", 96],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blocked.addSubnet(prefix, bits, "ipv6");
+}
+
+/**
+ * Whether an IP address is outside the public internet (loopback,
+ * private, link-local, ...). IPv4-mapped IPv6 addresses are checked as
+ * IPv4.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPrivateAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 4) return blocked.check(address, "ipv4");
+  if (family === 6) return blocked.check(address, "ipv6");
+  return true;
+}
+
+/**
+ * Throws when a URL's host is an IP literal or name that is not public.
+ * Names are checked again when they resolve, by PUBLIC_AGENTS.
+ */
+export function assertPublicUrl(url: string): void {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  if (
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    (net.isIP(host) && isPrivateAddress(host))
+  ) {
+    throw new Error(`${host} is not a public host`);
+  }
+}
+
+// Resolves like dns.lookup, failing when any address is not public
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, "", 0);
+      return;
+    }
+    const refused = addresses.find((entry) => isPrivateAddress(entry.address));
+    if (refused) {
+      callback(
+        new Error(
+          `${hostname} resolves to ${refused.address}, not a public host`
+        ),
+        "",
+        0
+      );
+      return;
+    }
+    if (options.all) {
+      // Node asks for every address when it races IPv4 and IPv6
+      (callback as unknown as (e: null, a: dns.LookupAddress[]) => void)(
+        null,
+        addresses
+      );
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+/**
+ * axios agents for URLs taken from requests or untrusted documents:
+ * connections to hosts that resolve to non-public addresses fail.
+ */
+export const PUBLIC_AGENTS = {
+  httpAgent: new http.Agent({ lookup: publicLookup }),
+  httpsAgent: new https.Agent({ lookup: publicLookup }),
+};
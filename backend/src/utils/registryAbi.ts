@@ -0,0 +1,25 @@
+/**
+ * Human-readable ABI of AgentIdentityRegistry: the IERC8004Identity
+ * interface plus the ERC-721 functions and events the backend uses.
+ */
+export const REGISTRY_ABI = [
+  // IERC8004Identity events
+  "event Registered(uint256 indexed agentId, string tokenURI, address indexed owner)",
+  "event AgentURIUpdated(uint256 indexed agentId, string newURI)",
+  "event MetadataSet(uint256 indexed agentId, string indexed key, bytes value)",
+
+  // IERC8004Identity functions
+  "function register(string tokenURI_) external returns (uint256)",
+  "function setAgentURI(uint256 agentId, string newURI) external",
+  "function setMetadata(uint256 agentId, string key, bytes value) external",
+  "function getMetadata(uint256 agentId, string key) external view returns (bytes)",
+  "function nextAgentId() external view returns (uint256)",
+
+  // ERC-721
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+  "function tokenURI(uint256 tokenId) external view returns (string)",
+  "function ownerOf(uint256 tokenId) external view returns (address)",
+  "function getApproved(uint256 tokenId) external view returns (address)",
+  "function isApprovedForAll(address owner, address operator) external view returns (bool)",
+  "error ERC721NonexistentToken(uint256 tokenId)",
+];
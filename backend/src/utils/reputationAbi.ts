@@ -0,0 +1,15 @@
+/**
+ * Human-readable ABI of the ERC-8004 ReputationRegistry: the feedback
+ * events the backend aggregates and the calls it reads.
+ */
+export const REPUTATION_ABI = [
+  // Events
+  "event NewFeedback(uint256 indexed agentId, address indexed clientAddress, uint8 score, bytes32 indexed tag1, bytes32 tag2, string fileuri, bytes32 filehash)",
+  "event FeedbackRevoked(uint256 indexed agentId, address indexed clientAddress, uint64 indexed feedbackIndex)",
+
+  // Functions
+  "function giveFeedback(uint256 agentId, uint8 score, bytes32 tag1, bytes32 tag2, string fileuri, bytes32 filehash, bytes feedbackAuth) external",
+  "function revokeFeedback(uint256 agentId, uint64 feedbackIndex) external",
+  "function getLastIndex(uint256 agentId, address clientAddress) external view returns (uint64)",
+  "function getIdentityRegistry() external view returns (address)",
+];
@@ -0,0 +1,47 @@
+import fs from "fs";
+import path from "path";
+import { config } from "./config";
+
+export interface Store<T> {
+  read(): T;
+  write(data: T): void;
+  update(mutate: (data: T) => void): T;
+}
+
+/**
+ * Embedded JSON document store kept under DATA_DIR.
+ *
+ * Each store is a single file, loaded lazily and held in memory.
+ * Writes go to a temp file first and are renamed into place, so a crash
+ * mid-write never leaves a truncated document behind.
+ */
+export function createStore<T>(name: string, initial: () => T): Store<T> {
+  const filePath = path.join(config.dataDir, `${name}.json`);
+  let data: T | null = null;
+
+  function read(): T {
+    if (data === null) {
+      data = fs.existsSync(filePath)
+        ? (JSON.parse(fs.readFileSync(filePath, "utf8")) as T)
+        : initial();
+    }
+    return data;
+  }
+
+  function write(next: T): void {
+    fs.mkdirSync(config.dataDir, { recursive: true });
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(next));
+    fs.renameSync(tmpPath, filePath);
+    data = next;
+  }
+
+  function update(mutate: (current: T) => void): T {
+    const current = read();
+    mutate(current);
+    write(current);
+    return current;
+  }
+
+  return { read, write, update };
+}
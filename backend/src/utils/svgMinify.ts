@@ -0,0 +1,45 @@
+/**
+ * Shrinks generated SVG without changing how it renders: drops comments
+ * and indentation, collapses whitespace (SVG collapses it in text
+ * anyway) and rounds numbers in attributes to at most two decimals.
+ * Only meant for our own card markup, which has no <style> and no
+ * xml:space="preserve".
+ */
+export function minifySvg(svg: string): string {
+  return svg
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/>\s+</g, "><")
+    .replace(/<[^>]+>/g, (tag) =>
+      tag
+        .replace(/\s+/g, " ")
+        .replace(/\s+(\/?>)$/, "$1")
+        .replace(/\d+\.\d{3,}/g, (number) =>
+          Number(number)
+            .toFixed(2)
+            .replace(/\.?0+$/, "")
+        )
+    )
+    .replace(
+      />([^<]+)</g,
+      (text, content: string) => `>${content.replace(/\s+/g, " ")}<`
+    )
+    .trim();
+}
+
+/**
+ * A data: URI for an SVG, percent-encoded or base64, whichever is
+ * shorter (usually the former). Percent-encoding swaps the quote
+ * characters first: attributes are double-quoted and raw quotes only
+ * appear as delimiters or inside attribute values (text is escaped).
+ */
+export function svgDataUri(svg: string): string {
+  const base64 = `data:image/svg+xml;base64,${Buffer.from(svg).toString(
+    "base64"
+  )}`;
+  const encoded = `data:image/svg+xml,${svg
+    .replace(/["']/g, (quote) => (quote === '"' ? "'" : '"'))
+    .replace(/[%#<>?"\[\]\\^`{|}\n\r\t]|[^\x20-\x7e]/gu, (char) =>
+      encodeURIComponent(char)
+    )}`;
+  return encoded.length < base64.length ? encoded : base64;
+}
@@ -0,0 +1,114 @@
+/**
+ * Approximate text metrics for laying out SVG text without a font engine.
+ *
+ * Widths are per-character averages (as a fraction of the font size)
+ * taken from DejaVu Sans, the font bundled for raster output, which runs
+ * wider than Arial/Helvetica; monospace glyphs are a fixed 0.6em. Text
+ * that "fits" here therefore fits on any renderer.
+ */
+export interface TextStyle {
+  fontSize: number;
+  bold?: boolean;
+  mono?: boolean;
+  letterSpacing?: number;
+}
+
+const NARROW = new Set("iljI.,:;'!|`()[]{} ft");
+const WIDE = new Set("mwMW@%");
+const ELLIPSIS = "…";
+
+function charWidth(ch: string, style: TextStyle): number {
+  if (style.mono) return 0.6;
+  if (NARROW.has(ch)) return 0.32;
+  if (WIDE.has(ch)) return 0.9;
+  if (ch >= "A" && ch <= "Z") return 0.7;
+  if (ch >= "0" && ch <= "9") return 0.64;
+  return 0.6;
+}
+
+/**
+ * Estimated rendered width of a string, in SVG user units.
+ */
+export function measureText(text: string, style: TextStyle): number {
+  const weight = style.bold && !style.mono ? 1.1 : 1;
+  let width = 0;
+  for (const ch of text) {
+    width += charWidth(ch, style) * weight * style.fontSize;
+    width += style.letterSpacing ?? 0;
+  }
+  return width;
+}
+
+/**
+ * Cuts text to fit maxWidth, ending it with an ellipsis when shortened.
+ */
+export function truncateText(
+  text: string,
+  maxWidth: number,
+  style: TextStyle
+): string {
+  if (measureText(text, style) <= maxWidth) return text;
+
+  const chars = [...text];
+  while (
+    chars.length > 0 &&
+    measureText(chars.join("") + ELLIPSIS, style) > maxWidth
+  ) {
+    chars.pop();
+  }
+  return chars.join("").trimEnd() + ELLIPSIS;
+}
+
+/**
+ * Largest font size (down to minSize) at which the text fits maxWidth.
+ */
+export function fitFontSize(
+  text: string,
+  maxWidth: number,
+  style: TextStyle,
+  minSize: number
+): number {
+  let size = style.fontSize;
+  while (
+    size > minSize &&
+    measureText(text, { ...style, fontSize: size }) > maxWidth
+  ) {
+    size -= 1;
+  }
+  return size;
+}
+
+/**
+ * Breaks text into at most maxLines lines on word boundaries. The last
+ * line is truncated when the text does not fit.
+ */
+export function wrapText(
+  text: string,
+  maxWidth: number,
+  style: TextStyle,
+  maxLines: number
+): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = "";
+
+  for (let i = 0; i < words.length; i++) {
+    const candidate = current ? `${current} ${words[i]}` : words[i];
+    if (measureText(candidate, style) <= maxWidth || !current) {
+      current = candidate;
+      continue;
+    }
+
+    if (lines.length === maxLines - 1) {
+      current = `${current} ${words.slice(i).join(" ")}`;
+      break;
+    }
+    lines.push(truncateText(current, maxWidth, style));
+    current = words[i];
+  }
+
+  if (current) {
+    lines.push(truncateText(current, maxWidth, style));
+  }
+  return lines;
+}
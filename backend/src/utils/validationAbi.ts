@@ -0,0 +1,14 @@
+/**
+ * Human-readable ABI of the ERC-8004 ValidationRegistry: the request
+ * and response calls and the status read the backend uses.
+ */
+export const VALIDATION_ABI = [
+  // Events
+  "event ValidationRequest(address indexed validatorAddress, uint256 indexed agentId, string requestUri, bytes32 indexed requestHash)",
+  "event ValidationResponse(address indexed validatorAddress, uint256 indexed agentId, bytes32 indexed requestHash, uint8 response, string responseUri, bytes32 tag)",
+
+  // Functions
+  "function validationRequest(address validatorAddress, uint256 agentId, string requestUri, bytes32 requestHash) external",
+  "function validationResponse(bytes32 requestHash, uint8 response, string responseUri, bytes32 responseHash, bytes32 tag) external",
+  "function getValidationStatus(bytes32 requestHash) external view returns (address validatorAddress, uint256 agentId, uint8 response, bytes32 tag, uint256 lastUpdate)",
+];
@@ -0,0 +1,123 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, afterEach, before, describe, it } from "node:test";
+
+// config is read on import, so the module is loaded once this is set
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-log-"));
+delete process.env.CONFIG_PROFILE;
+process.env.DATA_DIR = dataDir;
+
+const logFile = path.join(dataDir, "admin-audit.jsonl");
+let auditLog: typeof import("../src/services/auditLog");
+let original = "";
+
+before(async () => {
+  auditLog = await import("../src/services/auditLog");
+  for (const action of ["POST /a", "POST /b", "POST /c"]) {
+    auditLog.recordAudit({
+      actor: "0xabc",
+      role: "operate",
+      action,
+      params: { agentId: 1 },
+      status: 200,
+      ip: null,
+    });
+  }
+  original = fs.readFileSync(logFile, "utf8");
+});
+
+afterEach(() => fs.writeFileSync(logFile, original));
+
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+function editLines(edit: (lines: string[]) => string[]): void {
+  fs.writeFileSync(
+    logFile,
+    edit(original.trim().split("\n")).join("\n") + "\n"
+  );
+}
+
+describe("audit log", () => {
+  it("chains each entry to the one before it", () => {
+    const entries = auditLog.listAudit().reverse();
+    assert.deepEqual(
+      entries.map((entry) => entry.id),
+      [1, 2, 3]
+    );
+    assert.equal(entries[0].prevHash, `0x${"0".repeat(64)}`);
+    assert.equal(entries[1].prevHash, entries[0].hash);
+    assert.equal(entries[2].prevHash, entries[1].hash);
+    assert.deepEqual(auditLog.verifyAuditLog(), {
+      valid: true,
+      entries: 3,
+      firstInvalidId: null,
+    });
+  });
+
+  it("finds an edited entry", () => {
+    editLines((lines) =>
+      lines.map((line, index) =>
+        index === 1 ? line.replace('"status":200', '"status":403') : line
+      )
+    );
+    assert.deepEqual(auditLog.verifyAuditLog(), {
+      valid: false,
+      entries: 3,
+      firstInvalidId: 2,
+    });
+  });
+
+  it("finds a removed entry", () => {
+    editLines((lines) => lines.filter((_, index) => index !== 0));
+    assert.deepEqual(auditLog.verifyAuditLog(), {
+      valid: false,
+      entries: 2,
+      firstInvalidId: 2,
+    });
+  });
+
+  it("finds an entry whose hash was replaced", () => {
+    editLines((lines) =>
+      lines.map((line, index) => {
+        if (index !== 0) return line;
+        const entry = JSON.parse(line);
+        return JSON.stringify({ ...entry, hash: `0x${"1".repeat(64)}` });
+      })
+    );
+    assert.equal(auditLog.verifyAuditLog().firstInvalidId, 1);
+  });
+
+  it("redacts secret parameters", () => {
+    const entry = auditLog.recordAudit({
+      actor: "api-key",
+      role: null,
+      action: "POST /erc8004/admin/auth/verify",
+      params: { signature: "0xsig", apiKey: "k", agentId: 4 },
+      status: 401,
+      ip: "203.0.113.7",
+    });
+    assert.deepEqual(entry.params, {
+      signature: "[redacted]",
+      apiKey: "[redacted]",
+      agentId: 4,
+    });
+    assert.ok(!fs.readFileSync(logFile, "utf8").includes("0xsig"));
+    assert.equal(auditLog.verifyAuditLog().valid, true);
+  });
+
+  it("filters entries by actor and action, newest first", () => {
+    assert.deepEqual(
+      auditLog
+        .listAudit({ actor: "0xABC", action: "POST /" })
+        .map((entry) => entry.action),
+      ["POST /c", "POST /b", "POST /a"]
+    );
+    assert.deepEqual(
+      auditLog.listAudit({ action: "/b" }).map((entry) => entry.id),
+      [2]
+    );
+    assert.equal(auditLog.listAudit({ limit: 1 })[0].id, 3);
+  });
+});
@@ -0,0 +1,61 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { resolveCardOptions } from "../src/services/svgGenerator";
+import { AgentProfile } from "../src/types";
+
+const agent: AgentProfile = {
+  agentId: 1,
+  name: "Test Agent",
+  wallet: "",
+  statsApiUrl: "https://stats.example.com",
+  description: "",
+};
+
+describe("resolveCardOptions", () => {
+  it("falls back to the agent's card defaults", () => {
+    const options = resolveCardOptions({
+      ...agent,
+      card: { layout: "compact", theme: "light", tiles: ["tvl", "apy"] },
+    });
+    assert.deepEqual(options, {
+      layout: "compact",
+      theme: "light",
+      tiles: ["tvl", "apy"],
+    });
+  });
+
+  it("prefers overrides and trims the tile list", () => {
+    const options = resolveCardOptions(
+      { ...agent, card: { layout: "compact", theme: "light" } },
+      { layout: "square", theme: "high-contrast", tiles: " tvl, ,uptime " }
+    );
+    assert.deepEqual(options, {
+      layout: "square",
+      theme: "high-contrast",
+      tiles: ["tvl", "uptime"],
+    });
+  });
+
+  it("rejects unknown names", () => {
+    assert.throws(
+      () => resolveCardOptions(agent, { layout: "poster" }),
+      /Unknown layout "poster"/
+    );
+    assert.throws(
+      () => resolveCardOptions(agent, { theme: "neon" }),
+      /Unknown theme "neon"/
+    );
+    assert.throws(
+      () => resolveCardOptions(agent, { tiles: "tvl,volume" }),
+      /Unknown tile "volume"/
+    );
+  });
+
+  it("rejects names inherited from Object.prototype", () => {
+    for (const name of ["toString", "constructor", "__proto__"]) {
+      assert.throws(() => resolveCardOptions(agent, { layout: name }));
+      assert.throws(() => resolveCardOptions(agent, { theme: name }));
+      assert.throws(() => resolveCardOptions(agent, { tiles: name }));
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { encodeCar, MAX_BLOCK_SIZE, rawBlock } from "../src/utils/cid";
+
+describe("rawBlock", () => {
+  it("gives the CIDs ipfs gives raw-leaf files", () => {
+    assert.equal(
+      rawBlock(Buffer.from("hello world")).cid,
+      "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e"
+    );
+    assert.equal(
+      rawBlock(new Uint8Array()).cid,
+      "bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku"
+    );
+  });
+
+  it("prefixes the sha2-256 digest with the CID header", () => {
+    const { cidBytes } = rawBlock(Buffer.from("hello world"));
+    assert.equal(cidBytes.length, 36);
+    assert.deepEqual([...cidBytes.slice(0, 4)], [0x01, 0x55, 0x12, 0x20]);
+  });
+
+  it("accepts one full block and rejects more", () => {
+    assert.doesNotThrow(() => rawBlock(new Uint8Array(MAX_BLOCK_SIZE)));
+    assert.throws(
+      () => rawBlock(new Uint8Array(MAX_BLOCK_SIZE + 1)),
+      /exceeds the 1048576-byte IPFS block limit/
+    );
+  });
+});
+
+describe("encodeCar", () => {
+  const small = rawBlock(Buffer.from("hello world"));
+  const large = rawBlock(Buffer.alloc(200, 0x61));
+
+  it("writes the header as DAG-CBOR { roots, version: 1 }", () => {
+    const car = encodeCar([small], [small]);
+    const expected = Buffer.concat([
+      Buffer.from([0xa2, 0x65]),
+      Buffer.from("roots"),
+      Buffer.from([0x81, 0xd8, 0x2a, 0x58, 0x25, 0x00]),
+      small.cidBytes,
+      Buffer.from([0x67]),
+      Buffer.from("version"),
+      Buffer.from([0x01]),
+    ]);
+    assert.equal(car[0], expected.length);
+    assert.deepEqual(car.subarray(1, 1 + expected.length), expected);
+  });
+
+  it("follows the header with length-prefixed CID and data sections", () => {
+    const car = encodeCar([small], [small, large]);
+    const headerLength = car[0];
+    let offset = 1 + headerLength;
+
+    // 36 + 11 bytes fits in one varint byte
+    assert.equal(car[offset], 47);
+    offset += 1;
+    assert.deepEqual(
+      car.subarray(offset, offset + 36),
+      Buffer.from(small.cidBytes)
+    );
+    assert.equal(
+      car.subarray(offset + 36, offset + 47).toString(),
+      "hello world"
+    );
+    offset += 47;
+
+    // 36 + 200 = 236 takes two
+    assert.deepEqual([...car.subarray(offset, offset + 2)], [0xec, 0x01]);
+    offset += 2;
+    assert.deepEqual(
+      car.subarray(offset, offset + 36),
+      Buffer.from(large.cidBytes)
+    );
+    assert.deepEqual(car.subarray(offset + 36), Buffer.from(large.data));
+  });
+
+  it("lists every root in the header", () => {
+    const car = encodeCar([small, large], [small, large]);
+    const header = car.subarray(1, 1 + car[0]);
+    assert.equal(header[7], 0x82);
+    assert.ok(header.includes(Buffer.from(small.cidBytes)));
+    assert.ok(header.includes(Buffer.from(large.cidBytes)));
+  });
+});
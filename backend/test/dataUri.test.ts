@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { decodeDataUri } from "../src/services/dataUriService";
+import { svgDataUri } from "../src/utils/svgMinify";
+
+describe("decodeDataUri", () => {
+  it("decodes base64 data", () => {
+    const { mediaType, data } = decodeDataUri(
+      `data:application/json;base64,${Buffer.from('{"a":1}').toString(
+        "base64"
+      )}`
+    );
+    assert.equal(mediaType, "application/json");
+    assert.equal(data.toString(), '{"a":1}');
+  });
+
+  it("decodes percent-encoded data and keeps only the media type", () => {
+    const { mediaType, data } = decodeDataUri(
+      "data:text/html;charset=utf-8,%3Cp%3E50%25%20%C3%A9%3C%2Fp%3E"
+    );
+    assert.equal(mediaType, "text/html");
+    assert.equal(data.toString(), "<p>50% é</p>");
+  });
+
+  it("defaults the media type to text/plain", () => {
+    assert.equal(decodeDataUri("data:,hi").mediaType, "text/plain");
+    assert.equal(decodeDataUri("data:;base64,aGk=").mediaType, "text/plain");
+    assert.equal(decodeDataUri("data:;base64,aGk=").data.toString(), "hi");
+  });
+
+  it("keeps commas and newlines after the first comma", () => {
+    assert.equal(decodeDataUri("data:,a,b\nc").data.toString(), "a,b\nc");
+  });
+
+  it("throws for other URIs", () => {
+    assert.throws(() => decodeDataUri("https://example.com/a.svg"), {
+      message: "Not a data: URI",
+    });
+    assert.throws(() => decodeDataUri("data:text/plain"), {
+      message: "Not a data: URI",
+    });
+  });
+
+  it("reads back percent-encoded SVG data: URIs", () => {
+    const svg =
+      "<svg xmlns='http://www.w3.org/2000/svg' width='800' height='500'>" +
+      "<text x='40' y='60' fill='#fff'>Agent #1: 100% uptime</text></svg>";
+    const uri = svgDataUri(svg);
+    assert.match(uri, /^data:image\/svg\+xml,/);
+
+    const { mediaType, data } = decodeDataUri(uri);
+    assert.equal(mediaType, "image/svg+xml");
+    // Quotes are swapped before percent-encoding
+    assert.equal(data.toString(), svg.replace(/'/g, '"'));
+  });
+
+  it("reads back base64 SVG data: URIs", () => {
+    const svg = `<svg><text>${"日本語".repeat(20)}</text></svg>`;
+    const uri = svgDataUri(svg);
+    assert.match(uri, /^data:image\/svg\+xml;base64,/);
+
+    const { mediaType, data } = decodeDataUri(uri);
+    assert.equal(mediaType, "image/svg+xml");
+    assert.equal(data.toString(), svg);
+  });
+});
@@ -0,0 +1,151 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+
+// config is read on import, so the modules are loaded once these are set
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "stats-guard-"));
+delete process.env.CONFIG_PROFILE;
+Object.assign(process.env, {
+  DATA_DIR: dataDir,
+  STATS_MAX_TVL_DROP_PERCENT: "50",
+  STATS_MIN_APY: "0",
+  STATS_MAX_APY: "100",
+  STATS_REJECT_COUNTER_DECREASE: "true",
+  STATS_ACCEPT_AFTER_REJECTIONS: "3",
+});
+
+let checkSanity: typeof import("../src/services/statsGuard").checkSanity;
+let validatePayload: typeof import("../src/services/statsGuard").validatePayload;
+let recordSnapshot: typeof import("../src/services/statsHistory").recordSnapshot;
+
+before(async () => {
+  ({ checkSanity, validatePayload } = await import(
+    "../src/services/statsGuard"
+  ));
+  ({ recordSnapshot } = await import("../src/services/statsHistory"));
+});
+
+after(() => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+const BASELINE = {
+  totalAUM: 1_000_000,
+  avgAPY: 8,
+  totalTransactions: 500,
+  totalVolume: 2_000_000,
+};
+
+describe("checkSanity", () => {
+  it("accepts any plausible payload without history", () => {
+    assert.deepEqual(checkSanity(1, { totalAUM: 1, avgAPY: 5 }), []);
+  });
+
+  it("rejects a TVL drop beyond the limit", () => {
+    recordSnapshot(2, BASELINE);
+    assert.deepEqual(checkSanity(2, { totalAUM: 500_000 }), []);
+
+    const issues = checkSanity(2, { totalAUM: 499_999 });
+    assert.equal(issues.length, 1);
+    assert.equal(issues[0].rule, "tvl-drop");
+    assert.equal(issues[0].field, "totalAUM");
+    assert.equal(issues[0].provider, null);
+    assert.match(issues[0].message, /more than 50% .*was 1000000/);
+  });
+
+  it("rejects an APY outside the bounds", () => {
+    assert.deepEqual(checkSanity(3, { avgAPY: 0 }), []);
+    assert.deepEqual(checkSanity(3, { avgAPY: 100 }), []);
+    assert.deepEqual(
+      checkSanity(3, { avgAPY: 100.5 }).map((issue) => issue.rule),
+      ["apy-bounds"]
+    );
+    assert.deepEqual(
+      checkSanity(3, { avgAPY: -1 }).map((issue) => issue.rule),
+      ["apy-bounds"]
+    );
+  });
+
+  it("rejects counters that go backwards", () => {
+    recordSnapshot(4, BASELINE);
+    assert.deepEqual(
+      checkSanity(4, { totalTransactions: 500, totalVolume: 2_000_001 }),
+      []
+    );
+
+    const issues = checkSanity(4, {
+      totalTransactions: 499,
+      totalVolume: 1_999_999,
+    });
+    assert.deepEqual(
+      issues.map((issue) => [issue.field, issue.rule]),
+      [
+        ["totalTransactions", "counter-decrease"],
+        ["totalVolume", "counter-decrease"],
+      ]
+    );
+  });
+
+  it("ignores fields the payload or history leave out", () => {
+    recordSnapshot(5, { avgAPY: 8 });
+    assert.deepEqual(checkSanity(5, { totalAUM: 1, totalTransactions: 0 }), []);
+  });
+
+  it("accepts the payload after repeated rejections", () => {
+    recordSnapshot(6, BASELINE);
+    const dropped = { totalAUM: 10 };
+    assert.equal(checkSanity(6, dropped).length, 1);
+    assert.equal(checkSanity(6, dropped).length, 1);
+    assert.deepEqual(checkSanity(6, dropped), []);
+
+    // The count starts over once accepted
+    assert.equal(checkSanity(6, dropped).length, 1);
+  });
+
+  it("resets the rejection count on a sane payload", () => {
+    recordSnapshot(7, BASELINE);
+    const dropped = { totalAUM: 10 };
+    assert.equal(checkSanity(7, dropped).length, 1);
+    assert.equal(checkSanity(7, dropped).length, 1);
+    assert.deepEqual(checkSanity(7, BASELINE), []);
+    assert.equal(checkSanity(7, dropped).length, 1);
+    assert.equal(checkSanity(7, dropped).length, 1);
+  });
+});
+
+describe("validatePayload", () => {
+  it("reports each offending field", () => {
+    const issues = validatePayload(
+      "rest",
+      {
+        totalAUM: "1000",
+        totalActiveVaults: 2.5,
+        totalVolume: -1,
+        avgAPY: -3,
+        currentLendingPool: 7,
+        timestamp: "yesterday",
+      },
+      ["totalAUM", "transactions24h"]
+    );
+    assert.deepEqual(
+      issues.map((issue) => [issue.field, issue.message]),
+      [
+        ["transactions24h", "Missing required field"],
+        ["totalAUM", "Must be a finite number"],
+        ["totalActiveVaults", "Must be a whole number"],
+        ["totalVolume", "Must not be negative"],
+        ["currentLendingPool", "Must be a string"],
+        ["timestamp", "Must be an ISO timestamp"],
+      ]
+    );
+  });
+
+  it("rejects payloads that are not objects", () => {
+    for (const raw of [null, [], "ok"]) {
+      assert.deepEqual(
+        validatePayload("rest", raw, []).map((issue) => issue.field),
+        ["*"]
+      );
+    }
+  });
+});
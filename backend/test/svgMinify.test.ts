@@ -0,0 +1,34 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { minifySvg } from "../src/utils/svgMinify";
+
+describe("minifySvg", () => {
+  it("drops comments and whitespace between tags", () => {
+    assert.equal(
+      minifySvg("<svg>\n  <!-- card -->\n  <g >\n    <rect />\n  </g>\n</svg>"),
+      "<svg><g><rect/></g></svg>"
+    );
+  });
+
+  it("collapses whitespace in text", () => {
+    assert.equal(
+      minifySvg("<text>Agent\n    #1   card</text>"),
+      "<text>Agent #1 card</text>"
+    );
+  });
+
+  it("rounds numbers in attributes to two decimals", () => {
+    assert.equal(
+      minifySvg('<rect x="1.239" y="-0.126" width="2.9999" height="1.5"/>'),
+      '<rect x="1.24" y="-0.13" width="3" height="1.5"/>'
+    );
+    assert.equal(
+      minifySvg('<path d="M10.125 0.101L1.006 2"/>'),
+      '<path d="M10.13 0.1L1.01 2"/>'
+    );
+  });
+
+  it("leaves numbers in text alone", () => {
+    assert.equal(minifySvg("<text>4.1234%</text>"), "<text>4.1234%</text>");
+  });
+});